@@ -0,0 +1,212 @@
+import Database from 'better-sqlite3';
+import * as fs from 'fs';
+import { log, error as logError } from '../utils/logger';
+import { resolveDatabasePath } from '../utils/database-path';
+
+export type UsageGroupBy = 'session' | 'apiKey' | 'model' | 'day';
+
+export const USAGE_GROUP_BY: UsageGroupBy[] = ['session', 'apiKey', 'model', 'day'];
+
+export interface UsageQuery {
+  from?: string; // Inclusive start date (YYYY-MM-DD, UTC)
+  to?: string; // Inclusive end date (YYYY-MM-DD, UTC)
+  groupBy?: UsageGroupBy;
+  sessionId?: string;
+  apiKey?: string; // API key id, as stored on the session
+}
+
+export interface UsageTotals {
+  queries: number; // Result messages counted
+  numTurns: number;
+  durationMs: number;
+  costUsd: number;
+  inputTokens: number;
+  outputTokens: number;
+  cacheCreationInputTokens: number;
+  cacheReadInputTokens: number;
+}
+
+export interface UsageGroup extends UsageTotals {
+  key: string;
+}
+
+export interface UsageReport {
+  from?: string;
+  to?: string;
+  groupBy?: UsageGroupBy;
+  totals: UsageTotals;
+  groups?: UsageGroup[];
+}
+
+const EMPTY_TOTALS: UsageTotals = {
+  queries: 0,
+  numTurns: 0,
+  durationMs: 0,
+  costUsd: 0,
+  inputTokens: 0,
+  outputTokens: 0,
+  cacheCreationInputTokens: 0,
+  cacheReadInputTokens: 0
+};
+
+const TOTAL_COLUMNS = `
+  COUNT(*) AS queries,
+  COALESCE(SUM(json_extract(m.metadata, '$.num_turns')), 0) AS numTurns,
+  COALESCE(SUM(json_extract(m.metadata, '$.duration_ms')), 0) AS durationMs,
+  COALESCE(SUM(json_extract(m.metadata, '$.total_cost_usd')), 0) AS costUsd,
+  COALESCE(SUM(json_extract(m.metadata, '$.usage.input_tokens')), 0) AS inputTokens,
+  COALESCE(SUM(json_extract(m.metadata, '$.usage.output_tokens')), 0) AS outputTokens,
+  COALESCE(SUM(json_extract(m.metadata, '$.usage.cache_creation_input_tokens')), 0) AS cacheCreationInputTokens,
+  COALESCE(SUM(json_extract(m.metadata, '$.usage.cache_read_input_tokens')), 0) AS cacheReadInputTokens
+`;
+
+// The model is taken from the session config, else from the init message that preceded the result
+const GROUP_KEYS: Record<UsageGroupBy, string> = {
+  session: 's.sessionId',
+  apiKey: `COALESCE(s.apiKey, 'anonymous')`,
+  model: `COALESCE(
+    json_extract(s.config, '$.model'),
+    (SELECT json_extract(i.content, '$.model') FROM messages i
+      WHERE i.sessionId = m.sessionId AND i.messageType = 'system' AND i.messageSubtype = 'init' AND i.id < m.id
+      ORDER BY i.id DESC LIMIT 1),
+    'default'
+  )`,
+  day: 'date(m.timestamp)'
+};
+
+/**
+ * Aggregates cost, token and turn usage from the result messages of REST API sessions
+ */
+export class UsageAccounting {
+  private dbPath: string;
+  private db: Database.Database | null = null;
+
+  constructor(dbPath?: string) {
+    this.dbPath = resolveDatabasePath(dbPath);
+  }
+
+  /**
+   * Aggregate usage over result messages, optionally grouped
+   */
+  getUsage(query: UsageQuery = {}): UsageReport {
+    const report: UsageReport = {
+      from: query.from,
+      to: query.to,
+      groupBy: query.groupBy,
+      totals: { ...EMPTY_TOTALS },
+      ...(query.groupBy && { groups: [] })
+    };
+
+    const db = this.open();
+    if (!db) {
+      return report;
+    }
+
+    const conditions = [`m.messageType = 'result'`, 'm.metadata IS NOT NULL'];
+    const params: any[] = [];
+
+    if (query.from) {
+      conditions.push('date(m.timestamp) >= date(?)');
+      params.push(query.from);
+    }
+    if (query.to) {
+      conditions.push('date(m.timestamp) <= date(?)');
+      params.push(query.to);
+    }
+    if (query.sessionId) {
+      conditions.push('m.sessionId = ?');
+      params.push(query.sessionId);
+    }
+    if (query.apiKey) {
+      conditions.push('s.apiKey = ?');
+      params.push(query.apiKey);
+    }
+
+    const from = `
+      FROM messages m
+      JOIN sessions s ON s.sessionId = m.sessionId
+      WHERE ${conditions.join(' AND ')}
+    `;
+
+    report.totals = this.toTotals(db.prepare(`SELECT ${TOTAL_COLUMNS} ${from}`).get(...params));
+
+    if (query.groupBy) {
+      const rows = db.prepare(`
+        SELECT ${GROUP_KEYS[query.groupBy]} AS key, ${TOTAL_COLUMNS}
+        ${from}
+        GROUP BY key
+        ORDER BY ${query.groupBy === 'day' ? 'key ASC' : 'costUsd DESC'}
+      `).all(...params) as any[];
+
+      report.groups = rows.map(row => ({ key: String(row.key), ...this.toTotals(row) }));
+    }
+
+    return report;
+  }
+
+  /**
+   * All-time totals broken down by API key and model, plus the last 30 days by day
+   */
+  getSummary(): Record<string, unknown> {
+    const since = new Date(Date.now() - 29 * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+
+    return {
+      generatedAt: new Date().toISOString(),
+      totals: this.getUsage().totals,
+      byApiKey: this.getUsage({ groupBy: 'apiKey' }).groups,
+      byModel: this.getUsage({ groupBy: 'model' }).groups,
+      byDay: this.getUsage({ groupBy: 'day', from: since }).groups
+    };
+  }
+
+  close(): void {
+    this.db?.close();
+    this.db = null;
+  }
+
+  /**
+   * Open the session database on first use
+   * Returns null until the session store has created its tables
+   */
+  private open(): Database.Database | null {
+    if (this.db) {
+      return this.db;
+    }
+    if (!fs.existsSync(this.dbPath)) {
+      return null;
+    }
+
+    try {
+      const db = new Database(this.dbPath);
+      const tables = db.prepare(`
+        SELECT COUNT(*) AS count FROM sqlite_master
+        WHERE type = 'table' AND name IN ('sessions', 'messages')
+      `).get() as { count: number };
+
+      if (tables.count < 2) {
+        db.close();
+        return null;
+      }
+
+      this.db = db;
+      log('[usage-accounting] Reading usage from:', this.dbPath);
+      return db;
+    } catch (error) {
+      logError('[usage-accounting] Failed to open database:', error);
+      return null;
+    }
+  }
+
+  private toTotals(row: any): UsageTotals {
+    return {
+      queries: row?.queries || 0,
+      numTurns: row?.numTurns || 0,
+      durationMs: row?.durationMs || 0,
+      costUsd: row?.costUsd || 0,
+      inputTokens: row?.inputTokens || 0,
+      outputTokens: row?.outputTokens || 0,
+      cacheCreationInputTokens: row?.cacheCreationInputTokens || 0,
+      cacheReadInputTokens: row?.cacheReadInputTokens || 0
+    };
+  }
+}
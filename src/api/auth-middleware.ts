@@ -1,15 +1,19 @@
 import { Request, Response, NextFunction } from 'express';
+import { createHash } from 'crypto';
 import { log } from '../utils/logger';
+import { isWebSocketUpgrade } from './session-websocket';
 
 export interface AuthConfig {
   enabled?: boolean;
   apiKeyHeader?: string;
   apiKeys?: string[];
+  adminApiKeys?: string[]; // Keys that may also read every key's usage
   requireAuth?: string[]; // Endpoints that require auth
 }
 
 export interface AuthenticatedRequest extends Request {
   apiKey?: string;
+  isAdmin?: boolean;
   requestId?: string;
 }
 
@@ -21,10 +25,22 @@ export function createAuthMiddleware(config: AuthConfig = {}) {
     enabled: config.enabled !== false,
     apiKeyHeader: config.apiKeyHeader || 'x-api-key',
     apiKeys: config.apiKeys || getApiKeysFromEnv(),
+    adminApiKeys: config.adminApiKeys || getAdminApiKeysFromEnv(),
     requireAuth: config.requireAuth || [
       'POST /sessions',
       'POST /sessions/:id/messages',
-      'DELETE /sessions/:id'
+      'POST /sessions/:id/stream',
+      'POST /sessions/:id/fork',
+      'GET /sessions/:id/events',
+      'DELETE /sessions/:id',
+      'GET /sessions/:id/worktree',
+      'POST /sessions/:id/worktree/merge',
+      'GET /sessions/:id/ws',
+      'GET /sessions/:id/permissions',
+      'POST /sessions/:id/permissions/:requestId',
+      'POST /pipelines',
+      'POST /pipelines/:runId/cancel',
+      'GET /usage'
     ]
   };
 
@@ -44,8 +60,9 @@ export function createAuthMiddleware(config: AuthConfig = {}) {
       return next();
     }
 
-    // Extract API key from header
-    const apiKey = req.headers[authConfig.apiKeyHeader.toLowerCase()] as string;
+    // Extract API key from header; browsers cannot set headers on WebSocket handshakes, so those may use ?apiKey=
+    const apiKey = (req.headers[authConfig.apiKeyHeader.toLowerCase()] as string)
+      || (isWebSocketUpgrade(req) && typeof req.query.apiKey === 'string' ? req.query.apiKey : undefined);
 
     if (!apiKey) {
       log('[auth] Request missing API key:', {
@@ -65,11 +82,11 @@ export function createAuthMiddleware(config: AuthConfig = {}) {
     }
 
     // Validate API key
-    if (!authConfig.apiKeys.includes(apiKey)) {
+    if (!authConfig.apiKeys.includes(apiKey) && !authConfig.adminApiKeys.includes(apiKey)) {
       log('[auth] Invalid API key:', {
         path: req.path,
         method: req.method,
-        apiKey: apiKey.substring(0, 8) + '...'
+        apiKey: maskApiKey(apiKey)
       });
 
       return res.status(403).json({
@@ -84,17 +101,33 @@ export function createAuthMiddleware(config: AuthConfig = {}) {
 
     // Attach API key to request for logging/tracking
     req.apiKey = apiKey;
+    req.isAdmin = authConfig.adminApiKeys.includes(apiKey);
     
     log('[auth] Request authenticated:', {
       path: req.path,
       method: req.method,
-      apiKey: apiKey.substring(0, 8) + '...'
+      apiKey: maskApiKey(apiKey)
     });
 
     next();
   };
 }
 
+/**
+ * Mask an API key for logs
+ */
+export function maskApiKey(apiKey: string): string {
+  return apiKey.substring(0, 8) + '...';
+}
+
+/**
+ * Identify an API key in sessions, budgets and usage records without storing it
+ * Hashes the whole key, so keys sharing a prefix are kept apart
+ */
+export function getApiKeyId(apiKey: string): string {
+  return createHash('sha256').update(apiKey).digest('hex');
+}
+
 /**
  * Get API keys from environment variables
  */
@@ -121,6 +154,15 @@ function getApiKeysFromEnv(): string[] {
   return keys;
 }
 
+/**
+ * Get admin API keys from CLAUDE_ADMIN_API_KEYS (comma-separated)
+ */
+function getAdminApiKeysFromEnv(): string[] {
+  return process.env.CLAUDE_ADMIN_API_KEYS
+    ? process.env.CLAUDE_ADMIN_API_KEYS.split(',').map(k => k.trim()).filter(Boolean)
+    : [];
+}
+
 /**
  * Create rate limiting middleware
  */
@@ -147,8 +189,8 @@ export function createRateLimitMiddleware(config: RateLimitConfig = {}) {
   // In-memory store for rate limits
   const store = new Map<string, RateLimitStore>();
 
-  // Cleanup expired entries periodically
-  setInterval(() => {
+  // Cleanup expired entries periodically, without keeping the process alive
+  const cleanupTimer = setInterval(() => {
     const now = Date.now();
     for (const [key, data] of store.entries()) {
       if (data.resetTime < now) {
@@ -156,6 +198,7 @@ export function createRateLimitMiddleware(config: RateLimitConfig = {}) {
       }
     }
   }, rateLimitConfig.windowMs);
+  cleanupTimer.unref();
 
   return (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
     if (!rateLimitConfig.enabled) {
@@ -0,0 +1,187 @@
+import { Response } from 'express';
+import * as fs from 'fs';
+import { log } from '../utils/logger';
+import { UsageAccounting } from '../accounting/usage-accounting';
+import { getApiKeyId } from './auth-middleware';
+
+export interface BudgetLimits {
+  dailyUsd?: number; // Spend cap per UTC day
+  monthlyUsd?: number; // Spend cap per UTC calendar month
+  maxConcurrentSessions?: number; // Active sessions per API key
+  maxTurnsPerMessage?: number; // Upper bound for maxTurns of each query
+}
+
+export interface BudgetConfig {
+  enabled?: boolean;
+  defaults?: BudgetLimits; // Applied to every API key
+  keys?: Record<string, BudgetLimits>; // Overrides by raw API key
+}
+
+export interface BudgetViolation {
+  code: 'BUDGET_EXCEEDED' | 'SESSION_LIMIT_EXCEEDED';
+  message: string;
+  status: number;
+  details: Record<string, unknown>;
+}
+
+interface SpendStatus {
+  limits: BudgetLimits;
+  dailySpentUsd: number;
+  monthlySpentUsd: number;
+}
+
+/**
+ * Enforces per-API-key spend, session and turn budgets for the REST API
+ * API keys are identified by their id (see getApiKeyId), as recorded on sessions
+ */
+export class BudgetEnforcer {
+  private enabled: boolean;
+  private defaults: BudgetLimits;
+  private keyLimits: Map<string, BudgetLimits> = new Map();
+  private usageAccounting: UsageAccounting;
+
+  constructor(config: BudgetConfig = {}, usageAccounting: UsageAccounting) {
+    const envConfig = getBudgetConfigFromEnv();
+    this.enabled = config.enabled !== false;
+    this.defaults = config.defaults || envConfig.defaults || {};
+    for (const [apiKey, limits] of Object.entries(config.keys || envConfig.keys || {})) {
+      this.keyLimits.set(getApiKeyId(apiKey), limits);
+    }
+    this.usageAccounting = usageAccounting;
+  }
+
+  /**
+   * Limits for an API key: per-key overrides on top of the defaults
+   */
+  getLimits(apiKey: string): BudgetLimits {
+    return { ...this.defaults, ...this.keyLimits.get(apiKey) };
+  }
+
+  /**
+   * Check the daily and monthly spend caps before a query starts
+   * Sets X-Budget-* headers with the remaining budget when there is a response to set them on
+   */
+  checkSpend(apiKey: string | undefined, res?: Response): BudgetViolation | null {
+    if (!this.enabled || !apiKey) {
+      return null;
+    }
+
+    const status = this.getSpendStatus(apiKey);
+    const { dailyUsd, monthlyUsd } = status.limits;
+
+    if (dailyUsd !== undefined) {
+      res?.setHeader('X-Budget-Daily-Limit', dailyUsd.toString());
+      res?.setHeader('X-Budget-Daily-Remaining', Math.max(0, dailyUsd - status.dailySpentUsd).toFixed(4));
+    }
+    if (monthlyUsd !== undefined) {
+      res?.setHeader('X-Budget-Monthly-Limit', monthlyUsd.toString());
+      res?.setHeader('X-Budget-Monthly-Remaining', Math.max(0, monthlyUsd - status.monthlySpentUsd).toFixed(4));
+    }
+
+    if (dailyUsd !== undefined && status.dailySpentUsd >= dailyUsd) {
+      return this.spendViolation(apiKey, 'daily', dailyUsd, status.dailySpentUsd);
+    }
+    if (monthlyUsd !== undefined && status.monthlySpentUsd >= monthlyUsd) {
+      return this.spendViolation(apiKey, 'monthly', monthlyUsd, status.monthlySpentUsd);
+    }
+    return null;
+  }
+
+  /**
+   * Check the concurrent session cap before a session is created
+   */
+  checkSessions(apiKey: string | undefined, activeSessions: number, res: Response): BudgetViolation | null {
+    if (!this.enabled || !apiKey) {
+      return null;
+    }
+
+    const { maxConcurrentSessions } = this.getLimits(apiKey);
+    if (maxConcurrentSessions === undefined) {
+      return null;
+    }
+
+    res.setHeader('X-Budget-Sessions-Limit', maxConcurrentSessions.toString());
+    res.setHeader('X-Budget-Sessions-Remaining', Math.max(0, maxConcurrentSessions - activeSessions).toString());
+
+    if (activeSessions >= maxConcurrentSessions) {
+      log('[budget] Session limit exceeded:', { apiKey, activeSessions, limit: maxConcurrentSessions });
+      return {
+        code: 'SESSION_LIMIT_EXCEEDED',
+        message: `Maximum concurrent sessions for this API key reached: ${maxConcurrentSessions}`,
+        status: 429,
+        details: { limit: maxConcurrentSessions, active: activeSessions }
+      };
+    }
+    return null;
+  }
+
+  /**
+   * Clamp a query's maxTurns to the per-message turn budget
+   */
+  clampMaxTurns(apiKey: string | undefined, maxTurns: number | undefined, res?: Response): number | undefined {
+    if (!this.enabled || !apiKey) {
+      return maxTurns;
+    }
+
+    const { maxTurnsPerMessage } = this.getLimits(apiKey);
+    if (maxTurnsPerMessage === undefined) {
+      return maxTurns;
+    }
+
+    res?.setHeader('X-Budget-Max-Turns', maxTurnsPerMessage.toString());
+    return maxTurns === undefined ? maxTurnsPerMessage : Math.min(maxTurns, maxTurnsPerMessage);
+  }
+
+  private getSpendStatus(apiKey: string): SpendStatus {
+    const limits = this.getLimits(apiKey);
+    const today = new Date().toISOString().slice(0, 10);
+    const monthStart = `${today.slice(0, 7)}-01`;
+
+    return {
+      limits,
+      dailySpentUsd: limits.dailyUsd !== undefined
+        ? this.usageAccounting.getUsage({ apiKey, from: today }).totals.costUsd
+        : 0,
+      monthlySpentUsd: limits.monthlyUsd !== undefined
+        ? this.usageAccounting.getUsage({ apiKey, from: monthStart }).totals.costUsd
+        : 0
+    };
+  }
+
+  private spendViolation(apiKey: string, period: 'daily' | 'monthly', limit: number, spent: number): BudgetViolation {
+    log('[budget] Spend limit exceeded:', { apiKey, period, limit, spent });
+    return {
+      code: 'BUDGET_EXCEEDED',
+      message: `${period === 'daily' ? 'Daily' : 'Monthly'} budget of $${limit} exhausted for this API key`,
+      status: 402,
+      details: { period, limit, spent }
+    };
+  }
+}
+
+/**
+ * Get budget defaults and per-key overrides from environment variables
+ */
+function getBudgetConfigFromEnv(): BudgetConfig {
+  const parse = (value: string | undefined) => value ? parseFloat(value) : undefined;
+
+  const defaults: BudgetLimits = {
+    dailyUsd: parse(process.env.CLAUDE_API_BUDGET_DAILY_USD),
+    monthlyUsd: parse(process.env.CLAUDE_API_BUDGET_MONTHLY_USD),
+    maxConcurrentSessions: parse(process.env.CLAUDE_API_BUDGET_MAX_SESSIONS),
+    maxTurnsPerMessage: parse(process.env.CLAUDE_API_BUDGET_MAX_TURNS)
+  };
+  for (const key of Object.keys(defaults) as Array<keyof BudgetLimits>) {
+    if (defaults[key] === undefined) {
+      delete defaults[key];
+    }
+  }
+
+  // Per-key overrides: JSON file mapping API keys to limits
+  let keys: Record<string, BudgetLimits> | undefined;
+  if (process.env.CLAUDE_API_BUDGETS_FILE) {
+    keys = JSON.parse(fs.readFileSync(process.env.CLAUDE_API_BUDGETS_FILE, 'utf8'));
+  }
+
+  return { defaults, keys };
+}
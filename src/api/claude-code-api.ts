@@ -1,19 +1,50 @@
 import { Router, Request, Response, NextFunction } from 'express';
 import { randomUUID } from 'crypto';
 import { ClaudeCodeSessionManager } from './session-manager-sqlite';
-import { handleClaudeCodeQuery } from '../lib/agents/claude';
+import { AgentRegistry } from '../core/agent-registry';
+import { createDefaultAgentRegistry } from '../lib/agents';
 import { log, error as logError } from '../utils/logger';
-import { createAuthMiddleware, createRateLimitMiddleware, AuthConfig, RateLimitConfig } from './auth-middleware';
+import { createAuthMiddleware, createRateLimitMiddleware, getApiKeyId, AuthConfig, AuthenticatedRequest, RateLimitConfig } from './auth-middleware';
 import { ApiRequest, ApiResponse, ErrorDetails, getErrorMessage } from './types';
-import { isCreateSessionRequest, isSendMessageRequest, getValidationError } from './validators';
+import {
+  isCreateSessionRequest,
+  isSendMessageRequest,
+  getValidationError,
+  getUsageQueryError,
+  getRunPipelineRequestError,
+  getPipelineListQueryError,
+  getPermissionResponseError,
+  getForkSessionRequestError,
+  getSessionSocketFrameError
+} from './validators';
+import { UsageAccounting, UsageGroupBy } from '../accounting/usage-accounting';
+import { BudgetConfig, BudgetEnforcer, BudgetViolation } from './budget-enforcer';
+import { Session } from './session-manager';
+import { getSessionAgent, getSessionAgentError, runSessionQuery, SessionQueryResult } from './session-agents';
+import { formatSseEvent, SessionEventHub, SessionStreamEvent, toMessageEvent } from './session-events';
+import { acceptWebSocket, isWebSocketUpgrade, sendSocketEvent, SessionSocketFrame } from './session-websocket';
+import { createWorktree, getWorktreeChanges, IsolationMode, mergeWorktree, removeWorktree } from '../lib/workspace/worktree';
 import { createValidationMiddleware } from '../middleware/swagger-middleware';
+import { PipelineManager } from '../pipelines/pipeline-manager';
+import { PipelineDefinitionError } from '../pipelines/pipeline-definition';
+import { PipelineRunStatus } from '../pipelines/sqlite-pipeline-store';
+import { PermissionBroker, PermissionResponse } from '../permissions/permission-broker';
+import { claudeCodeConfig } from '../config/claude-code';
+import { listMcpCatalog } from '../lib/agents/mcp-catalog';
 import * as path from 'path';
+import type { WebSocket } from 'ws';
 
 export interface ClaudeCodeApiConfig {
   sessionTimeout?: number; // Session timeout in milliseconds
   maxSessions?: number; // Maximum concurrent sessions
   auth?: AuthConfig; // Authentication configuration
   rateLimit?: RateLimitConfig; // Rate limiting configuration
+  budgets?: BudgetConfig; // Per-API-key spend, session and turn budgets
+  agentRegistry?: AgentRegistry; // Agents sessions can use (default: built-in providers)
+  pipelineManager?: PipelineManager; // Runs POST /pipelines (default: a manager over agentRegistry)
+  permissionBroker?: PermissionBroker; // Holds Claude tool-use approvals (default: a new broker)
+  sessionManager?: ClaudeCodeSessionManager; // Stores sessions (default: a manager using sessionTimeout and maxSessions)
+  usageAccounting?: UsageAccounting; // Reads usage for GET /usage and budgets (default: the session database)
   openApiValidation?: {
     enabled?: boolean;
     specPath?: string;
@@ -21,18 +52,35 @@ export interface ClaudeCodeApiConfig {
 }
 
 export interface CreateSessionRequest {
+  agent?: string; // claude (default), codex, gemini or a plugin agent id
   model?: string;
   cwd?: string;
   permissionMode?: 'default' | 'acceptEdits' | 'bypassPermissions' | 'plan';
   appendSystemPrompt?: string;
   maxTurns?: number;
+  allowedTools?: string[]; // Claude only: tool rules the session may use, within CLAUDE_CODE_ALLOWED_TOOLS
+  disallowedTools?: string[]; // Claude only: tool rules the session may not use
+  mcpServers?: string[]; // Claude only: names from the operator's MCP server catalog
+  isolation?: IsolationMode;
+  agentOptions?: Record<string, unknown>; // Agent-specific options, e.g. codex sandbox or gemini approvalMode
   metadata?: Record<string, unknown>;
 }
 
+export interface ForkSessionRequest {
+  atSequence?: number; // Sequence of the result message to fork after (default: the latest)
+  metadata?: Record<string, unknown>; // Replaces the source session's metadata
+}
+
 export interface SendMessageRequest {
   prompt: string;
   stream?: boolean;
   timeout?: number;
+  continueOnDisconnect?: boolean; // Streaming only: keep the query running if the client disconnects
+}
+
+export interface RunPipelineRequest {
+  pipeline: string | Record<string, unknown>; // YAML/JSON text or an already parsed definition
+  input?: Record<string, unknown>;
 }
 
 export interface ErrorResponse {
@@ -50,7 +98,13 @@ export interface ErrorResponse {
  */
 export function createClaudeCodeApi(config: ClaudeCodeApiConfig = {}): Router {
   const router = Router();
-  const sessionManager = new ClaudeCodeSessionManager(config);
+  const sessionManager = config.sessionManager ?? new ClaudeCodeSessionManager(config);
+  const usageAccounting = config.usageAccounting ?? new UsageAccounting();
+  const budgetEnforcer = new BudgetEnforcer(config.budgets, usageAccounting);
+  const agentRegistry = config.agentRegistry ?? createDefaultAgentRegistry();
+  const pipelineManager = config.pipelineManager ?? new PipelineManager(agentRegistry);
+  const permissionBroker = config.permissionBroker ?? new PermissionBroker();
+  const sessionEvents = new SessionEventHub();
 
   // Middleware to generate request ID
   router.use((req: Request, res: Response, next: NextFunction) => {
@@ -94,9 +148,214 @@ export function createClaudeCodeApi(config: ClaudeCodeApiConfig = {}): Router {
     res.status(status).json(errorResponse);
   };
 
+  const handleBudgetViolation = (res: Response, violation: BudgetViolation) => {
+    handleError(res, violation.code, violation.message, violation.status, violation.details);
+  };
+
+  // Claude notifications carry SDK messages; other agents' notifications are stored as they are
+  // Returns the stored message's sequence, which numbers its SSE event
+  const saveAgentNotification = (sessionId: string, data: any): number | undefined => {
+    if (data.type === 'claude_code_message' && data.message) {
+      return sessionManager.saveMessage(sessionId, data.message);
+    } else if (typeof data.type === 'string') {
+      return sessionManager.saveMessage(sessionId, data);
+    }
+    return undefined;
+  };
+
+  // The message event for an agent notification, numbered by its stored sequence
+  const toNotificationEvent = (data: any, sequence: number | undefined): SessionStreamEvent =>
+    sequence !== undefined
+      ? { event: 'message', id: sequence, data: { ...data, sequence } }
+      : { event: 'message', data };
+
+  // Claude streams its own result message; record one for other agents so history and usage see the run
+  const saveAgentResult = (session: Session, result: SessionQueryResult) => {
+    if (getSessionAgent(session) === 'claude') {
+      return;
+    }
+    sessionManager.saveMessage(session.sessionId, {
+      type: 'result',
+      subtype: result.isError ? 'error' : 'success',
+      is_error: result.isError,
+      result: result.response,
+      session_id: result.agentSessionId,
+      usage: result.usage
+    });
+  };
+
+  // Save the user message manually since agents don't emit it
+  const saveUserMessage = (session: Session, prompt: string) => {
+    sessionManager.saveMessage(session.sessionId, {
+      type: 'user',
+      message: {
+        role: 'user',
+        content: [{ type: 'text', text: prompt }]
+      },
+      parent_tool_use_id: null,
+      session_id: session.agentSessionId || 'pending'
+    }, 'user');
+  };
+
+  // Record a finished run; returns the data of its complete event
+  const completeRun = (session: Session, result: SessionQueryResult) => {
+    saveAgentResult(session, result);
+
+    // Update the agent session ID if provided
+    if (result.agentSessionId) {
+      sessionManager.updateAgentSessionId(session.sessionId, result.agentSessionId);
+    }
+
+    // Keep the working-tree changes for GET .../messages/:messageId/changes
+    const messageId = randomUUID();
+    if (result.changes) {
+      sessionManager.saveRunChanges(session.sessionId, messageId, result.changes);
+    }
+    return {
+      messageId,
+      summary: result.response,
+      sessionId: result.agentSessionId,
+      ...(result.changes && { changes: result.changes })
+    };
+  };
+
+  // Serve one session WebSocket: prompts run one at a time, permission prompts are answered inline
+  const serveSessionSocket = (socket: WebSocket, sessionId: string, budgetKey: string | undefined) => {
+    let runController: AbortController | null = null;
+    let continueOnDisconnect = false;
+
+    // Write to this client and to GET /sessions/:id/events subscribers
+    const send = (event: SessionStreamEvent) => {
+      sendSocketEvent(socket, event);
+      sessionEvents.publish(sessionId, event);
+    };
+    const rejectFrame = (code: string, message: string) => {
+      sendSocketEvent(socket, { event: 'frame_error', data: { code, message } });
+    };
+
+    const runPrompt = async (frame: Extract<SessionSocketFrame, { type: 'prompt' }>) => {
+      const session = sessionManager.getSession(sessionId);
+      if (!session) {
+        rejectFrame('SESSION_NOT_FOUND', `Session ${sessionId} not found`);
+        socket.close();
+        return;
+      }
+
+      const spendViolation = budgetEnforcer.checkSpend(budgetKey);
+      if (spendViolation) {
+        rejectFrame(spendViolation.code, spendViolation.message);
+        return;
+      }
+
+      const abortController = new AbortController();
+      runController = abortController;
+      continueOnDisconnect = frame.continueOnDisconnect === true;
+      sessionManager.updateActivity(sessionId);
+      saveUserMessage(session, frame.prompt);
+
+      const finishRun = sessionEvents.startRun(sessionId, abortController);
+      try {
+        const result = await runSessionQuery(agentRegistry, session, {
+          prompt: frame.prompt,
+          timeout: frame.timeout || 0,
+          maxTurns: budgetEnforcer.clampMaxTurns(budgetKey, session.config.maxTurns),
+          signal: abortController.signal,
+          sendNotification: async (notification: any) => {
+            try {
+              const data = typeof notification.params.data === 'string'
+                ? JSON.parse(notification.params.data)
+                : notification.params.data;
+              send(toNotificationEvent(data, saveAgentNotification(sessionId, data)));
+            } catch (error) {
+              logError('[claude-api] Failed to send WebSocket notification:', error);
+            }
+          },
+          requestPermission: prompt => permissionBroker.requestPermission(sessionId, prompt, request => {
+            send({ event: 'permission_request', data: request });
+          }, abortController.signal)
+        });
+        send({ event: 'complete', data: completeRun(session, result) });
+      } catch (error) {
+        send({ event: 'error', data: { error: getErrorMessage(error) } });
+      } finally {
+        finishRun();
+        runController = null;
+      }
+    };
+
+    socket.on('message', raw => {
+      let frame: unknown;
+      try {
+        frame = JSON.parse(raw.toString());
+      } catch {
+        rejectFrame('INVALID_REQUEST', 'Frames must be JSON objects');
+        return;
+      }
+      const validationError = getSessionSocketFrameError(frame);
+      if (validationError) {
+        rejectFrame('INVALID_REQUEST', validationError);
+        return;
+      }
+
+      const request = frame as SessionSocketFrame;
+      if (request.type === 'prompt') {
+        if (runController) {
+          rejectFrame('PROMPT_IN_PROGRESS', 'A prompt is already running on this connection; wait for it or cancel it');
+          return;
+        }
+        if (sessionEvents.isRunning(sessionId)) {
+          rejectFrame('RUN_IN_PROGRESS', `A query is already running in session ${sessionId}; wait for it or cancel it`);
+          return;
+        }
+        void runPrompt(request);
+      } else if (request.type === 'cancel') {
+        if (!runController) {
+          rejectFrame('NO_PROMPT_RUNNING', 'No prompt is running on this connection');
+          return;
+        }
+        log('[claude-api] WebSocket client cancelled query:', sessionId);
+        runController.abort();
+      } else {
+        const { type: _type, requestId, ...response } = request;
+        const pending = permissionBroker.getPending(requestId);
+        if (!pending || pending.scope !== sessionId) {
+          rejectFrame('PERMISSION_REQUEST_NOT_FOUND', `Permission request ${requestId} not found or already decided`);
+          return;
+        }
+        permissionBroker.respond(requestId, response);
+      }
+    });
+
+    socket.on('close', () => {
+      if (!runController) {
+        return;
+      }
+      if (continueOnDisconnect) {
+        log('[claude-api] WebSocket client disconnected during query, continuing in the background:', sessionId);
+      } else {
+        runController.abort();
+        log('[claude-api] WebSocket client disconnected during query, aborting:', sessionId);
+      }
+    });
+
+    sendSocketEvent(socket, { event: 'connected', data: { sessionId } });
+  };
+
+  // Budgets are tracked by API key id; fall back to the key that created the session
+  const getBudgetKey = (req: Request, session?: Session): string | undefined => {
+    const apiKey = (req as AuthenticatedRequest).apiKey;
+    return apiKey ? getApiKeyId(apiKey) : session?.apiKey;
+  };
+
+  // Sessions created with an API key only answer to that key
+  const isSessionOwner = (req: Request, session: Session): boolean => {
+    const apiKey = (req as AuthenticatedRequest).apiKey;
+    return !session.apiKey || (apiKey !== undefined && getApiKeyId(apiKey) === session.apiKey);
+  };
+
   /**
    * POST /api/v1/sessions
-   * Create a new Claude Code session
+   * Create a new agent session
    */
   router.post('/sessions', async (req: Request, res: Response) => {
     try {
@@ -106,28 +365,65 @@ export function createClaudeCodeApi(config: ClaudeCodeApiConfig = {}): Router {
         return;
       }
       const body = req.body;
+      const agentError = getSessionAgentError(req.body as Record<string, unknown>, agentRegistry);
+      if (agentError) {
+        handleError(res, 'INVALID_REQUEST', agentError, 400);
+        return;
+      }
+      const apiKey = getBudgetKey(req);
+
+      // Check the per-key concurrent session budget
+      const activeForKey = apiKey ? sessionManager.listSessions().filter(s => s.apiKey === apiKey).length : 0;
+      const sessionViolation = budgetEnforcer.checkSessions(apiKey, activeForKey, res);
+      if (sessionViolation) {
+        handleBudgetViolation(res, sessionViolation);
+        return;
+      }
       
       // Create session with configuration
       const session = sessionManager.createSession({
+        agent: body.agent,
         model: body.model,
         cwd: body.cwd,
         permissionMode: body.permissionMode,
         appendSystemPrompt: body.appendSystemPrompt,
         maxTurns: body.maxTurns,
+        allowedTools: body.allowedTools,
+        disallowedTools: body.disallowedTools,
+        mcpServers: body.mcpServers,
+        isolation: body.isolation,
+        agentOptions: body.agentOptions,
         metadata: body.metadata
-      });
+      }, apiKey);
+
+      // Give isolated sessions their own worktree and branch
+      if (session.config.isolation === 'worktree') {
+        try {
+          session.worktree = await createWorktree(session.config.cwd || process.cwd(), 'session');
+          sessionManager.setWorktree(session.sessionId, session.worktree);
+        } catch (error) {
+          sessionManager.endSession(session.sessionId);
+          handleError(res, 'WORKTREE_CREATE_FAILED', getErrorMessage(error), 400);
+          return;
+        }
+      }
 
       log('[claude-api] Session created:', {
         sessionId: session.sessionId,
-        config: session.config
+        config: session.config,
+        worktree: session.worktree?.branch
       });
 
       res.status(201).json({
         sessionId: session.sessionId,
+        agent: getSessionAgent(session),
         model: session.config.model,
         status: session.status,
         createdAt: session.createdAt,
-        expiresAt: session.expiresAt
+        expiresAt: session.expiresAt,
+        ...(session.worktree && {
+          worktree: { branch: session.worktree.branch, path: session.worktree.path }
+        })
       });
     } catch (error) {
       logError('[claude-api] Failed to create session:', error);
@@ -150,6 +446,7 @@ export function createClaudeCodeApi(config: ClaudeCodeApiConfig = {}): Router {
       res.json({
         sessions: sessions.map(s => ({
           sessionId: s.sessionId,
+          agent: getSessionAgent(s),
           model: s.config.model,
           status: s.status,
           createdAt: s.createdAt,
@@ -179,6 +476,7 @@ export function createClaudeCodeApi(config: ClaudeCodeApiConfig = {}): Router {
 
       res.json({
         sessionId: session.sessionId,
+        agent: getSessionAgent(session),
         model: session.config.model,
         status: session.status,
         createdAt: session.createdAt,
@@ -188,8 +486,23 @@ export function createClaudeCodeApi(config: ClaudeCodeApiConfig = {}): Router {
         config: {
           cwd: session.config.cwd,
           permissionMode: session.config.permissionMode,
-          maxTurns: session.config.maxTurns
+          maxTurns: session.config.maxTurns,
+          ...(session.config.allowedTools && { allowedTools: session.config.allowedTools }),
+          ...(session.config.disallowedTools && { disallowedTools: session.config.disallowedTools }),
+          ...(session.config.mcpServers && { mcpServers: session.config.mcpServers }),
+          isolation: session.config.isolation,
+          ...(session.config.agentOptions && { agentOptions: session.config.agentOptions })
         },
+        ...(session.worktree && {
+          worktree: {
+            branch: session.worktree.branch,
+            path: session.worktree.path,
+            baseCommit: session.worktree.baseCommit
+          }
+        }),
+        ...(session.forkedFrom && {
+          forkedFrom: { sessionId: session.forkedFrom.sessionId, sequence: session.forkedFrom.sequence }
+        }),
         metadata: session.config.metadata
       });
     } catch (error) {
@@ -198,19 +511,117 @@ export function createClaudeCodeApi(config: ClaudeCodeApiConfig = {}): Router {
     }
   });
 
+  /**
+   * POST /api/v1/sessions/:id/fork
+   * Start a new session that resumes this one's Claude conversation after a completed turn
+   */
+  router.post('/sessions/:id/fork', async (req: Request, res: Response) => {
+    try {
+      const source = sessionManager.getSession(req.params.id);
+      
+      if (!source) {
+        handleError(res, 'SESSION_NOT_FOUND', `Session ${req.params.id} not found`, 404);
+        return;
+      }
+
+      if (!isSessionOwner(req, source)) {
+        handleError(res, 'FORBIDDEN', `Session ${req.params.id} belongs to another API key`, 403);
+        return;
+      }
+
+      const validationError = getForkSessionRequestError(req.body);
+      if (validationError) {
+        handleError(res, 'INVALID_REQUEST', validationError, 400);
+        return;
+      }
+      const body = (req.body || {}) as ForkSessionRequest;
+
+      if (getSessionAgent(source) !== 'claude') {
+        handleError(res, 'FORK_NOT_SUPPORTED', `Only claude sessions can be forked (session agent: ${getSessionAgent(source)})`, 400);
+        return;
+      }
+      // Claude keeps transcripts per working directory, so a fork cannot move to a new worktree
+      if (source.worktree) {
+        handleError(res, 'FORK_NOT_SUPPORTED', 'Sessions with worktree isolation cannot be forked', 400);
+        return;
+      }
+
+      // Claude can only resume a conversation where a turn ended, i.e. at a result message
+      const forkMessage = body.atSequence !== undefined
+        ? sessionManager.getMessageBySequence(source.sessionId, body.atSequence)
+        : sessionManager.getLastMessageOfType(source.sessionId, 'result');
+      if (body.atSequence !== undefined && !forkMessage) {
+        handleError(res, 'INVALID_FORK_POINT', `Session ${source.sessionId} has no message with sequence ${body.atSequence}`, 400);
+        return;
+      }
+      if (forkMessage && forkMessage.messageType !== 'result') {
+        handleError(res, 'INVALID_FORK_POINT', `Message ${forkMessage.sequence} is inside a turn; fork at a result message`, 400);
+        return;
+      }
+      const agentSessionId: string | undefined = forkMessage ? JSON.parse(forkMessage.content).session_id : undefined;
+
+      const apiKey = getBudgetKey(req);
+      const activeForKey = apiKey ? sessionManager.listSessions().filter(s => s.apiKey === apiKey).length : 0;
+      const sessionViolation = budgetEnforcer.checkSessions(apiKey, activeForKey, res);
+      if (sessionViolation) {
+        handleBudgetViolation(res, sessionViolation);
+        return;
+      }
+
+      const session = sessionManager.forkSession({
+        ...source,
+        config: { ...source.config, ...(body.metadata && { metadata: body.metadata }) }
+      }, {
+        sessionId: source.sessionId,
+        sequence: forkMessage?.sequence ?? 0,
+        ...(agentSessionId && { agentSessionId })
+      }, apiKey);
+
+      res.status(201).json({
+        sessionId: session.sessionId,
+        agent: getSessionAgent(session),
+        model: session.config.model,
+        status: session.status,
+        createdAt: session.createdAt,
+        expiresAt: session.expiresAt,
+        forkedFrom: { sessionId: source.sessionId, sequence: session.forkedFrom!.sequence }
+      });
+    } catch (error) {
+      logError('[claude-api] Failed to fork session:', error);
+      if (getErrorMessage(error).includes('Maximum sessions')) {
+        handleError(res, 'MAX_SESSIONS_REACHED', getErrorMessage(error), 429);
+      } else {
+        handleError(res, 'SESSION_FORK_FAILED', getErrorMessage(error), 500);
+      }
+    }
+  });
+
   /**
    * DELETE /api/v1/sessions/:id
-   * End a session
+   * End a session, discarding its worktree (keep the branch with ?keepBranch=true)
    */
   router.delete('/sessions/:id', async (req: Request, res: Response) => {
     try {
-      const success = sessionManager.endSession(req.params.id);
+      const session = sessionManager.getSession(req.params.id);
       
-      if (!success) {
+      if (!session) {
         handleError(res, 'SESSION_NOT_FOUND', `Session ${req.params.id} not found`, 404);
         return;
       }
 
+      if (!isSessionOwner(req, session)) {
+        handleError(res, 'FORBIDDEN', `Session ${req.params.id} belongs to another API key`, 403);
+        return;
+      }
+
+      sessionManager.endSession(req.params.id);
+
+      sessionEvents.abortRuns(req.params.id);
+      permissionBroker.clearScope(req.params.id);
+      if (session.worktree) {
+        await removeWorktree(session.worktree, req.query.keepBranch === 'true');
+      }
+
       res.status(204).send();
     } catch (error) {
       logError('[claude-api] Failed to end session:', error);
@@ -218,6 +629,79 @@ export function createClaudeCodeApi(config: ClaudeCodeApiConfig = {}): Router {
     }
   });
 
+  /**
+   * GET /api/v1/sessions/:id/worktree
+   * Changed files and diff of an isolated session's worktree against its base commit
+   */
+  router.get('/sessions/:id/worktree', async (req: Request, res: Response) => {
+    try {
+      const session = sessionManager.getSession(req.params.id);
+      
+      if (!session) {
+        handleError(res, 'SESSION_NOT_FOUND', `Session ${req.params.id} not found`, 404);
+        return;
+      }
+
+      if (!isSessionOwner(req, session)) {
+        handleError(res, 'FORBIDDEN', `Session ${req.params.id} belongs to another API key`, 403);
+        return;
+      }
+      if (!session.worktree) {
+        handleError(res, 'WORKTREE_NOT_FOUND', `Session ${req.params.id} is not isolated in a worktree`, 404);
+        return;
+      }
+
+      const changes = await getWorktreeChanges(session.worktree);
+      res.json({
+        sessionId: session.sessionId,
+        branch: session.worktree.branch,
+        baseCommit: session.worktree.baseCommit,
+        files: changes.files,
+        diff: changes.diff
+      });
+    } catch (error) {
+      logError('[claude-api] Failed to get worktree changes:', error);
+      handleError(res, 'GET_WORKTREE_FAILED', getErrorMessage(error), 500);
+    }
+  });
+
+  /**
+   * POST /api/v1/sessions/:id/worktree/merge
+   * Commit an isolated session's changes and merge its branch into the repository's current branch
+   */
+  router.post('/sessions/:id/worktree/merge', async (req: Request, res: Response) => {
+    try {
+      const session = sessionManager.getSession(req.params.id);
+      
+      if (!session) {
+        handleError(res, 'SESSION_NOT_FOUND', `Session ${req.params.id} not found`, 404);
+        return;
+      }
+
+      if (!isSessionOwner(req, session)) {
+        handleError(res, 'FORBIDDEN', `Session ${req.params.id} belongs to another API key`, 403);
+        return;
+      }
+      if (!session.worktree) {
+        handleError(res, 'WORKTREE_NOT_FOUND', `Session ${req.params.id} is not isolated in a worktree`, 404);
+        return;
+      }
+
+      const message = typeof req.body?.message === 'string' ? req.body.message : undefined;
+      const merged = await mergeWorktree(session.worktree, message);
+      res.json({
+        sessionId: session.sessionId,
+        branch: session.worktree.branch,
+        commit: merged.commit,
+        files: merged.files
+      });
+    } catch (error) {
+      // Typically a merge conflict or uncommitted changes in the main checkout
+      logError('[claude-api] Failed to merge worktree:', error);
+      handleError(res, 'WORKTREE_MERGE_FAILED', getErrorMessage(error), 409);
+    }
+  });
+
   /**
    * POST /api/v1/sessions/:id/messages
    * Send a message to a session
@@ -231,6 +715,11 @@ export function createClaudeCodeApi(config: ClaudeCodeApiConfig = {}): Router {
         return;
       }
 
+      if (!isSessionOwner(req, session)) {
+        handleError(res, 'FORBIDDEN', `Session ${req.params.id} belongs to another API key`, 403);
+        return;
+      }
+
       // Validate request body
       if (!isSendMessageRequest(req.body)) {
         handleError(res, 'INVALID_REQUEST', getValidationError(req.body, 'SendMessageRequest'), 400);
@@ -238,6 +727,20 @@ export function createClaudeCodeApi(config: ClaudeCodeApiConfig = {}): Router {
       }
       const body = req.body;
 
+      // One query runs in a session at a time, whichever channel started it
+      if (sessionEvents.isRunning(req.params.id)) {
+        handleError(res, 'RUN_IN_PROGRESS', `A query is already running in session ${req.params.id}; wait for it or cancel it`, 409);
+        return;
+      }
+
+      // Check spend budget before starting the query
+      const budgetKey = getBudgetKey(req, session);
+      const spendViolation = budgetEnforcer.checkSpend(budgetKey, res);
+      if (spendViolation) {
+        handleBudgetViolation(res, spendViolation);
+        return;
+      }
+
       // Update session activity
       sessionManager.updateActivity(req.params.id);
 
@@ -260,65 +763,50 @@ export function createClaudeCodeApi(config: ClaudeCodeApiConfig = {}): Router {
         return;
       }
 
-      // Non-streaming request
-      const args = {
-        prompt: body.prompt,
-        options: {
-          ...session.config,
-          sessionId: session.claudeSessionId,
-          timeout: body.timeout
-        }
-      };
-
-      // Save the user message manually since SDK doesn't emit it
-      const userMessage = {
-        type: 'user',
-        message: {
-          role: 'user',
-          content: [{ type: 'text', text: body.prompt }]
-        },
-        parent_tool_use_id: null,
-        session_id: session.claudeSessionId || 'pending'
-      };
-      sessionManager.saveMessage(req.params.id, userMessage, 0, 'user');
+      // Save the user message manually since agents don't emit it
+      saveUserMessage(session, body.prompt);
 
       // Create a notification handler to save messages even for non-streaming
+      // (GET /sessions/:id/events subscribers still see them live)
       const saveNotification = async (notification: any) => {
         try {
           const data = typeof notification.params.data === 'string' 
             ? JSON.parse(notification.params.data)
             : notification.params.data;
           
-          // Save message to database if it's a Claude Code message
-          if (data.type === 'claude_code_message' && data.message) {
-            sessionManager.saveMessage(req.params.id, data.message, data.sequence);
-          }
+          sessionEvents.publish(req.params.id, toNotificationEvent(data, saveAgentNotification(req.params.id, data)));
         } catch (error) {
           logError('[claude-api] Failed to save message:', error);
         }
       };
 
-      // For non-streaming requests, we don't need abort handling
-      // since the response is sent all at once
-      const result = await handleClaudeCodeQuery(args, saveNotification);
-      
-      // Parse the result to extract session ID
-      let responseData;
+      // The response is sent all at once, so only ending the session aborts the query
+      const abortController = new AbortController();
+      const finishRun = sessionEvents.startRun(req.params.id, abortController);
+      let result: SessionQueryResult;
       try {
-        responseData = JSON.parse(result.content[0].text);
-        // Update Claude session ID if provided
-        if (responseData.session_id) {
-          sessionManager.updateClaudeSessionId(req.params.id, responseData.session_id);
-        }
-      } catch (e) {
-        responseData = { result: result.content[0].text };
+        result = await runSessionQuery(agentRegistry, session, {
+          prompt: body.prompt,
+          timeout: body.timeout,
+          maxTurns: budgetEnforcer.clampMaxTurns(budgetKey, session.config.maxTurns, res),
+          signal: abortController.signal,
+          sendNotification: saveNotification,
+          // No stream to surface prompts on; clients poll GET /sessions/:id/permissions
+          requestPermission: prompt => permissionBroker.requestPermission(req.params.id, prompt, request => {
+            log('[claude-api] Permission request pending:', { sessionId: req.params.id, requestId: request.requestId, toolName: request.toolName });
+            sessionEvents.publish(req.params.id, { event: 'permission_request', data: request });
+          }, abortController.signal)
+        });
+      } catch (error) {
+        sessionEvents.publish(req.params.id, { event: 'error', data: { error: getErrorMessage(error) } });
+        throw error;
+      } finally {
+        finishRun();
       }
+      const { summary, ...completion } = completeRun(session, result);
+      sessionEvents.publish(req.params.id, { event: 'complete', data: { ...completion, summary } });
 
-      res.json({
-        messageId: randomUUID(),
-        response: responseData.result || responseData,
-        sessionId: responseData.session_id
-      });
+      res.json({ ...completion, response: summary });
 
     } catch (error) {
       logError('[claude-api] Failed to send message:', error);
@@ -343,12 +831,32 @@ export function createClaudeCodeApi(config: ClaudeCodeApiConfig = {}): Router {
         return;
       }
 
+      if (!isSessionOwner(req, session)) {
+        handleError(res, 'FORBIDDEN', `Session ${req.params.id} belongs to another API key`, 403);
+        return;
+      }
+
       // Validate request body
       if (!isSendMessageRequest(req.body)) {
         handleError(res, 'INVALID_REQUEST', getValidationError(req.body, 'SendMessageRequest'), 400);
         return;
       }
-      const { prompt, timeout } = req.body;
+      const { prompt, timeout, continueOnDisconnect } = req.body;
+
+      // One query runs in a session at a time, whichever channel started it
+      if (sessionEvents.isRunning(req.params.id)) {
+        handleError(res, 'RUN_IN_PROGRESS', `A query is already running in session ${req.params.id}; wait for it or cancel it`, 409);
+        return;
+      }
+
+      // Check spend budget before opening the stream
+      const budgetKey = getBudgetKey(req, session);
+      const spendViolation = budgetEnforcer.checkSpend(budgetKey, res);
+      if (spendViolation) {
+        handleBudgetViolation(res, spendViolation);
+        return;
+      }
+      const maxTurns = budgetEnforcer.clampMaxTurns(budgetKey, session.config.maxTurns, res);
 
       // Set up SSE headers
       res.setHeader('Content-Type', 'text/event-stream');
@@ -369,6 +877,14 @@ export function createClaudeCodeApi(config: ClaudeCodeApiConfig = {}): Router {
         res.write(': keepalive\n\n');
       }, 30000);
 
+      // Write to this client while it is connected; GET /sessions/:id/events subscribers get every event
+      const send = (event: SessionStreamEvent) => {
+        if (!res.writableEnded && !res.destroyed) {
+          res.write(formatSseEvent(event));
+        }
+        sessionEvents.publish(req.params.id, event);
+      };
+
       // Handle client disconnect
       const abortController = new AbortController();
       
@@ -381,8 +897,12 @@ export function createClaudeCodeApi(config: ClaudeCodeApiConfig = {}): Router {
           clearInterval(keepAlive);
           // Only abort if the query has started but hasn't completed yet
           if (queryStarted && !res.writableEnded) {
-            abortController.abort();
-            log('[claude-api] SSE client disconnected during query, aborting:', req.params.id);
+            if (continueOnDisconnect) {
+              log('[claude-api] SSE client disconnected during query, continuing in the background:', req.params.id);
+            } else {
+              abortController.abort();
+              log('[claude-api] SSE client disconnected during query, aborting:', req.params.id);
+            }
           } else if (!queryStarted) {
             log('[claude-api] SSE client disconnected before query started:', req.params.id);
           }
@@ -406,80 +926,51 @@ export function createClaudeCodeApi(config: ClaudeCodeApiConfig = {}): Router {
       // Update session activity
       sessionManager.updateActivity(req.params.id);
 
-      // Save the user message manually since SDK doesn't emit it
-      const userMessage = {
-        type: 'user',
-        message: {
-          role: 'user',
-          content: [{ type: 'text', text: prompt }]
-        },
-        parent_tool_use_id: null,
-        session_id: session.claudeSessionId || 'pending'
-      };
-      sessionManager.saveMessage(req.params.id, userMessage, 0, 'user');
+      // Save the user message manually since agents don't emit it
+      saveUserMessage(session, prompt);
 
       // Create notification handler for SSE
       const sendNotification = async (notification: any) => {
         try {
-          // Parse the Claude Code notification
+          // Parse the agent notification
           const data = typeof notification.params.data === 'string' 
             ? JSON.parse(notification.params.data)
             : notification.params.data;
           
-          // Save message to database if it's a Claude Code message
-          if (data.type === 'claude_code_message' && data.message) {
-            sessionManager.saveMessage(req.params.id, data.message, data.sequence);
-          }
-          
-          // Send as SSE event
-          res.write(`event: message\ndata: ${JSON.stringify(data)}\n\n`);
+          // Send as SSE event, numbered by the stored message sequence
+          send(toNotificationEvent(data, saveAgentNotification(req.params.id, data)));
         } catch (error) {
           logError('[claude-api] Failed to send SSE notification:', error);
         }
       };
 
-      // Execute Claude Code query with streaming
-      const args = {
-        prompt,
-        options: {
-          ...session.config,
-          sessionId: session.claudeSessionId,
-          timeout: timeout || 0,
-          abortController: abortController
-        }
-      };
-
       log('[claude-api] Starting streaming query:', {
         sessionId: req.params.id,
-        claudeSessionId: session.claudeSessionId,
+        agent: getSessionAgent(session),
+        agentSessionId: session.agentSessionId,
         prompt: prompt.substring(0, 100) + '...',
         timeout: timeout || 0
       });
 
-      // Small delay to ensure SSE connection is stable
-      await new Promise(resolve => setTimeout(resolve, 100));
-      
+      // Mark the session busy before the delay so a concurrent prompt is rejected
+      const finishRun = sessionEvents.startRun(req.params.id, abortController);
       try {
+        // Small delay to ensure SSE connection is stable
+        await new Promise(resolve => setTimeout(resolve, 100));
         queryStarted = true;
-        const result = await handleClaudeCodeQuery(args, sendNotification, abortController.signal);
-        
-        // Parse final result
-        let responseData;
-        try {
-          responseData = JSON.parse(result.content[0].text);
-          // Update Claude session ID if provided
-          if (responseData.session_id) {
-            sessionManager.updateClaudeSessionId(req.params.id, responseData.session_id);
-          }
-        } catch (e) {
-          responseData = { result: result.content[0].text };
-        }
-
+        const result = await runSessionQuery(agentRegistry, session, {
+          prompt,
+          timeout: timeout || 0,
+          maxTurns,
+          signal: abortController.signal,
+          sendNotification,
+          // Surface tool-use approvals as SSE events; answers arrive at POST .../permissions/:requestId
+          requestPermission: prompt => permissionBroker.requestPermission(req.params.id, prompt, request => {
+            send({ event: 'permission_request', data: request });
+          }, abortController.signal)
+        });
         // Send completion event
-        res.write(`event: complete\ndata: ${JSON.stringify({
-          summary: responseData.result || responseData,
-          sessionId: responseData.session_id
-        })}\n\n`);
+        send({ event: 'complete', data: completeRun(session, result) });
 
         // Mark query as completed
         queryCompleted = true;
@@ -493,12 +984,12 @@ export function createClaudeCodeApi(config: ClaudeCodeApiConfig = {}): Router {
         queryCompleted = true;
         
         // Send error event
-        res.write(`event: error\ndata: ${JSON.stringify({
-          error: getErrorMessage(error)
-        })}\n\n`);
+        send({ event: 'error', data: { error: getErrorMessage(error) } });
 
         clearInterval(keepAlive);
         res.end();
+      } finally {
+        finishRun();
       }
 
     } catch (error) {
@@ -507,6 +998,193 @@ export function createClaudeCodeApi(config: ClaudeCodeApiConfig = {}): Router {
     }
   });
 
+  /**
+   * GET /api/v1/sessions/:id/events
+   * Replay stored messages after a sequence (Last-Event-ID or ?after=), then follow the running query
+   */
+  router.get('/sessions/:id/events', async (req: Request, res: Response) => {
+    try {
+      const session = sessionManager.getSession(req.params.id);
+      
+      if (!session) {
+        handleError(res, 'SESSION_NOT_FOUND', `Session ${req.params.id} not found`, 404);
+        return;
+      }
+
+      if (!isSessionOwner(req, session)) {
+        handleError(res, 'FORBIDDEN', `Session ${req.params.id} belongs to another API key`, 403);
+        return;
+      }
+
+      // EventSource sends Last-Event-ID when it reconnects
+      const after = Number(req.headers['last-event-id'] ?? req.query.after ?? 0);
+      if (!Number.isInteger(after) || after < 0) {
+        handleError(res, 'INVALID_REQUEST', 'Last-Event-ID and "after" must be a non-negative message sequence', 400);
+        return;
+      }
+
+      res.setHeader('Content-Type', 'text/event-stream');
+      res.setHeader('Cache-Control', 'no-cache');
+      res.setHeader('Connection', 'keep-alive');
+      res.setHeader('X-Accel-Buffering', 'no'); // Disable Nginx buffering
+
+      let lastSequence = after;
+      let unsubscribe: (() => void) | null = null;
+      const keepAlive = setInterval(() => {
+        res.write(': keepalive\n\n');
+      }, 30000);
+      const finish = () => {
+        clearInterval(keepAlive);
+        unsubscribe?.();
+        if (!res.writableEnded) {
+          res.end();
+        }
+      };
+      const deliver = (event: SessionStreamEvent) => {
+        if (event.id !== undefined) {
+          if (event.id <= lastSequence) return;
+          lastSequence = event.id;
+        }
+        res.write(formatSseEvent(event));
+        if (event.event === 'complete' || event.event === 'error') {
+          finish();
+        }
+      };
+      req.on('close', finish);
+
+      // Replay and subscribe in one synchronous pass so no live message falls in between
+      const agent = getSessionAgent(session);
+      const pageSize = 500;
+      for (;;) {
+        const page = sessionManager.getMessagesAfter(session.sessionId, lastSequence, pageSize);
+        page.forEach(record => deliver(toMessageEvent(record, agent)));
+        if (page.length < pageSize) break;
+      }
+
+      if (!sessionEvents.isRunning(session.sessionId)) {
+        deliver({ event: 'idle', data: { lastSequence } });
+        finish();
+        return;
+      }
+      // Approvals asked for before the client subscribed are still waiting for an answer
+      permissionBroker.listPending(session.sessionId).forEach(request => deliver({ event: 'permission_request', data: request }));
+      unsubscribe = sessionEvents.subscribe(session.sessionId, deliver);
+    } catch (error) {
+      logError('[claude-api] Failed to stream session events:', error);
+      if (!res.headersSent) {
+        handleError(res, 'SSE_SETUP_FAILED', getErrorMessage(error), 500);
+      } else {
+        res.end();
+      }
+    }
+  });
+
+  /**
+   * GET /api/v1/sessions/:id/ws
+   * WebSocket channel: prompt, cancel and permission_response frames in, stream events out
+   */
+  router.get('/sessions/:id/ws', async (req: Request, res: Response) => {
+    try {
+      if (!isWebSocketUpgrade(req)) {
+        handleError(res, 'UPGRADE_REQUIRED', 'This endpoint only accepts WebSocket connections', 426);
+        return;
+      }
+
+      const session = sessionManager.getSession(req.params.id);
+
+      if (!session) {
+        handleError(res, 'SESSION_NOT_FOUND', `Session ${req.params.id} not found`, 404);
+        return;
+      }
+
+      if (!isSessionOwner(req, session)) {
+        handleError(res, 'FORBIDDEN', `Session ${req.params.id} belongs to another API key`, 403);
+        return;
+      }
+
+      const budgetKey = getBudgetKey(req, session);
+      acceptWebSocket(req, socket => {
+        log('[claude-api] WebSocket connected:', req.params.id);
+        serveSessionSocket(socket, session.sessionId, budgetKey);
+      });
+    } catch (error) {
+      logError('[claude-api] Failed to open session WebSocket:', error);
+      handleError(res, 'WEBSOCKET_SETUP_FAILED', getErrorMessage(error), 500);
+    }
+  });
+
+  /**
+   * GET /api/v1/sessions/:id/permissions
+   * Tool-use approvals waiting for a decision, and decisions remembered for the session
+   */
+  router.get('/sessions/:id/permissions', async (req: Request, res: Response) => {
+    try {
+      const session = sessionManager.getSession(req.params.id);
+      
+      if (!session) {
+        handleError(res, 'SESSION_NOT_FOUND', `Session ${req.params.id} not found`, 404);
+        return;
+      }
+
+      if (!isSessionOwner(req, session)) {
+        handleError(res, 'FORBIDDEN', `Session ${req.params.id} belongs to another API key`, 403);
+        return;
+      }
+
+      res.json({
+        pending: permissionBroker.listPending(req.params.id),
+        rules: permissionBroker.listRules(req.params.id)
+      });
+    } catch (error) {
+      logError('[claude-api] Failed to list permissions:', error);
+      handleError(res, 'GET_PERMISSIONS_FAILED', getErrorMessage(error), 500);
+    }
+  });
+
+  /**
+   * POST /api/v1/sessions/:id/permissions/:requestId
+   * Allow or deny a pending tool use, optionally remembering the decision for the tool
+   */
+  router.post('/sessions/:id/permissions/:requestId', async (req: Request, res: Response) => {
+    try {
+      const session = sessionManager.getSession(req.params.id);
+      
+      if (!session) {
+        handleError(res, 'SESSION_NOT_FOUND', `Session ${req.params.id} not found`, 404);
+        return;
+      }
+
+      if (!isSessionOwner(req, session)) {
+        handleError(res, 'FORBIDDEN', `Session ${req.params.id} belongs to another API key`, 403);
+        return;
+      }
+
+      const validationError = getPermissionResponseError(req.body);
+      if (validationError) {
+        handleError(res, 'INVALID_REQUEST', validationError, 400);
+        return;
+      }
+
+      const pending = permissionBroker.getPending(req.params.requestId);
+      if (!pending || pending.scope !== req.params.id) {
+        handleError(res, 'PERMISSION_REQUEST_NOT_FOUND', `Permission request ${req.params.requestId} not found or already decided`, 404);
+        return;
+      }
+
+      const body = req.body as PermissionResponse;
+      permissionBroker.respond(req.params.requestId, body);
+      res.json({
+        requestId: pending.requestId,
+        toolName: pending.toolName,
+        behavior: body.behavior,
+        remembered: body.remember === true
+      });
+    } catch (error) {
+      logError('[claude-api] Failed to decide permission:', error);
+      handleError(res, 'PERMISSION_DECISION_FAILED', getErrorMessage(error), 500);
+    }
+  });
+
   /**
    * GET /api/v1/sessions/:id/messages
    * Get message history for a session
@@ -552,6 +1230,177 @@ export function createClaudeCodeApi(config: ClaudeCodeApiConfig = {}): Router {
     }
   });
 
+  /**
+   * GET /api/v1/sessions/:id/messages/:messageId/changes
+   * Files changed and unified diff produced by one query
+   */
+  router.get('/sessions/:id/messages/:messageId/changes', async (req: Request, res: Response) => {
+    try {
+      const session = sessionManager.getSession(req.params.id);
+      
+      if (!session) {
+        handleError(res, 'SESSION_NOT_FOUND', `Session ${req.params.id} not found`, 404);
+        return;
+      }
+
+      const record = sessionManager.getRunChanges(req.params.id, req.params.messageId);
+      if (!record) {
+        handleError(res, 'CHANGES_NOT_FOUND', `No changes recorded for message ${req.params.messageId}`, 404);
+        return;
+      }
+
+      res.json({
+        sessionId: record.sessionId,
+        messageId: record.messageId,
+        createdAt: record.createdAt,
+        ...record.changes
+      });
+    } catch (error) {
+      logError('[claude-api] Failed to get changes:', error);
+      handleError(res, 'GET_CHANGES_FAILED', getErrorMessage(error), 500);
+    }
+  });
+
+  /**
+   * POST /api/v1/pipelines
+   * Start a multi-step pipeline in the background
+   */
+  router.post('/pipelines', async (req: Request, res: Response) => {
+    try {
+      const validationError = getRunPipelineRequestError(req.body);
+      if (validationError) {
+        handleError(res, 'INVALID_REQUEST', validationError, 400);
+        return;
+      }
+      const body = req.body as RunPipelineRequest;
+
+      // Check spend budget before starting any step
+      const spendViolation = budgetEnforcer.checkSpend(getBudgetKey(req), res);
+      if (spendViolation) {
+        handleBudgetViolation(res, spendViolation);
+        return;
+      }
+
+      const run = pipelineManager.startRun(body.pipeline, body.input);
+      res.status(202).json(run);
+    } catch (error) {
+      if (error instanceof PipelineDefinitionError) {
+        handleError(res, 'INVALID_PIPELINE', error.message, 400);
+        return;
+      }
+      logError('[claude-api] Failed to start pipeline:', error);
+      handleError(res, 'PIPELINE_START_FAILED', getErrorMessage(error), 500);
+    }
+  });
+
+  /**
+   * GET /api/v1/pipelines
+   * List pipeline runs, newest first
+   */
+  router.get('/pipelines', async (req: Request, res: Response) => {
+    try {
+      const validationError = getPipelineListQueryError(req.query);
+      if (validationError) {
+        handleError(res, 'INVALID_REQUEST', validationError, 400);
+        return;
+      }
+
+      const runs = pipelineManager.listRuns(
+        req.query.status as PipelineRunStatus | undefined,
+        req.query.limit ? Number(req.query.limit) : undefined
+      );
+      res.json({ runs, total: runs.length });
+    } catch (error) {
+      logError('[claude-api] Failed to list pipelines:', error);
+      handleError(res, 'LIST_PIPELINES_FAILED', getErrorMessage(error), 500);
+    }
+  });
+
+  /**
+   * GET /api/v1/pipelines/:runId
+   * Pipeline run status with every step execution
+   */
+  router.get('/pipelines/:runId', async (req: Request, res: Response) => {
+    try {
+      const run = pipelineManager.getRun(req.params.runId);
+      if (!run) {
+        handleError(res, 'PIPELINE_NOT_FOUND', `Pipeline run ${req.params.runId} not found`, 404);
+        return;
+      }
+      res.json(run);
+    } catch (error) {
+      logError('[claude-api] Failed to get pipeline:', error);
+      handleError(res, 'GET_PIPELINE_FAILED', getErrorMessage(error), 500);
+    }
+  });
+
+  /**
+   * POST /api/v1/pipelines/:runId/cancel
+   * Cancel a running pipeline
+   */
+  router.post('/pipelines/:runId/cancel', async (req: Request, res: Response) => {
+    try {
+      const run = pipelineManager.cancelRun(req.params.runId);
+      if (!run) {
+        handleError(res, 'PIPELINE_NOT_FOUND', `Pipeline run ${req.params.runId} not found`, 404);
+        return;
+      }
+      res.json(run);
+    } catch (error) {
+      logError('[claude-api] Failed to cancel pipeline:', error);
+      handleError(res, 'CANCEL_PIPELINE_FAILED', getErrorMessage(error), 500);
+    }
+  });
+
+  /**
+   * GET /api/v1/usage
+   * Aggregate cost, token and turn usage, optionally grouped by session, apiKey, model or day
+   * Admin keys see every key's usage; other keys only their own
+   */
+  router.get('/usage', async (req: Request, res: Response) => {
+    try {
+      const validationError = getUsageQueryError(req.query);
+      if (validationError) {
+        handleError(res, 'INVALID_REQUEST', validationError, 400);
+        return;
+      }
+
+      let apiKey = req.query.apiKey as string | undefined;
+      const authReq = req as AuthenticatedRequest;
+      if (config.auth?.enabled !== false && !authReq.isAdmin) {
+        if (!authReq.apiKey) {
+          handleError(res, 'MISSING_API_KEY', 'An API key is required to read usage', 401);
+          return;
+        }
+        const ownKey = getApiKeyId(authReq.apiKey);
+        if (apiKey && apiKey !== ownKey) {
+          handleError(res, 'FORBIDDEN', 'Only admin API keys can read the usage of other keys', 403);
+          return;
+        }
+        apiKey = ownKey;
+      }
+
+      res.json(usageAccounting.getUsage({
+        from: req.query.from as string | undefined,
+        to: req.query.to as string | undefined,
+        groupBy: req.query.groupBy as UsageGroupBy | undefined,
+        sessionId: req.query.sessionId as string | undefined,
+        apiKey
+      }));
+    } catch (error) {
+      logError('[claude-api] Failed to get usage:', error);
+      handleError(res, 'GET_USAGE_FAILED', getErrorMessage(error), 500);
+    }
+  });
+
+  /**
+   * GET /api/v1/mcp-servers
+   * List the catalog MCP servers Claude sessions may use
+   */
+  router.get('/mcp-servers', async (_req: Request, res: Response) => {
+    res.json({ servers: listMcpCatalog(claudeCodeConfig.mcpServerCatalog) });
+  });
+
   /**
    * GET /api/v1/models
    * List available models
@@ -0,0 +1,160 @@
+import type { AgentRegistry } from '../core/agent-registry';
+import { claudeCodeConfig } from '../config/claude-code';
+import { getMcpServersError } from '../lib/agents/mcp-catalog';
+import { getToolPolicyError } from '../lib/agents/tool-policy';
+import { normalizeAgentResult, NormalizedAgentResult } from '../lib/agents/agent-result';
+import { getCodexOptionsError } from '../lib/agents/codex';
+import { getGeminiOptionsError } from '../lib/agents/gemini';
+import type { PermissionHandler } from '../permissions/permission-broker';
+import { Session } from './session-manager';
+
+export const DEFAULT_SESSION_AGENT = 'claude';
+
+// Session fields only the Claude agent understands
+const CLAUDE_ONLY_FIELDS = ['permissionMode', 'appendSystemPrompt', 'maxTurns', 'allowedTools', 'disallowedTools', 'mcpServers'];
+
+// Options a session sets itself on every query, so they cannot be fixed in agentOptions
+const SESSION_MANAGED_OPTIONS = ['cwd', 'timeout', 'isolation', 'resume', 'sessionId', 'trackChanges'];
+
+// Validators for the agentOptions of built-in agents (plugin agents validate their own arguments)
+const AGENT_OPTIONS_VALIDATORS: Record<string, (options: unknown) => string | null> = {
+  codex: getCodexOptionsError,
+  gemini: getGeminiOptionsError
+};
+
+/**
+ * A prompt sent to a session's agent
+ */
+export interface SessionQueryRequest {
+  prompt: string;
+  timeout?: number;
+  maxTurns?: number; // Claude only, already clamped to the caller's budget
+  signal?: AbortSignal;
+  sendNotification?: (notification: any) => Promise<void>;
+  requestPermission?: PermissionHandler; // Claude only, used unless the session bypasses permissions
+}
+
+export type SessionQueryResult = NormalizedAgentResult;
+
+/**
+ * Agent id of a session (sessions created before multi-agent support are Claude sessions)
+ */
+export function getSessionAgent(session: Session): string {
+  return session.config.agent || DEFAULT_SESSION_AGENT;
+}
+
+/**
+ * Validate the agent and agent-specific config of a CreateSessionRequest, returning an error message or null
+ */
+export function getSessionAgentError(body: Record<string, unknown>, registry: AgentRegistry): string | null {
+  const agent = (body.agent as string | undefined) || DEFAULT_SESSION_AGENT;
+  const provider = registry.get(agent);
+  if (!provider || provider.kind !== 'agent') {
+    const available = registry.listAgents().map(p => p.id).join(', ');
+    return `Unknown agent: ${agent}. Must be one of: ${available}`;
+  }
+
+  if (agent === DEFAULT_SESSION_AGENT) {
+    if (body.agentOptions !== undefined) {
+      return 'Field "agentOptions" is not supported by the claude agent';
+    }
+    return getToolPolicyError(body, claudeCodeConfig.toolPolicy)
+      || getMcpServersError(body.mcpServers, claudeCodeConfig.mcpServerCatalog);
+  }
+
+  for (const field of CLAUDE_ONLY_FIELDS) {
+    if (field in body) {
+      return `Field "${field}" is only supported by the claude agent`;
+    }
+  }
+
+  if (body.agentOptions === undefined) {
+    return null;
+  }
+  const managed = Object.keys(body.agentOptions as object).find(key => SESSION_MANAGED_OPTIONS.includes(key));
+  if (managed) {
+    return `agentOptions.${managed} is managed by the session and cannot be set`;
+  }
+  const optionsError = AGENT_OPTIONS_VALIDATORS[agent]?.(body.agentOptions);
+  return optionsError ? `Invalid agentOptions: ${optionsError}` : null;
+}
+
+/**
+ * Tool arguments for one query in a session
+ */
+function buildQueryArgs(session: Session, request: SessionQueryRequest): { prompt: string; options: Record<string, unknown> } {
+  const { config } = session;
+  // Isolated sessions run every query in their own worktree rather than a throwaway one
+  const cwd = session.worktree?.cwd || config.cwd;
+
+  switch (getSessionAgent(session)) {
+    case 'claude':
+      return {
+        prompt: request.prompt,
+        options: {
+          model: config.model,
+          cwd,
+          permissionMode: config.permissionMode,
+          appendSystemPrompt: config.appendSystemPrompt,
+          maxTurns: request.maxTurns ?? config.maxTurns,
+          allowedTools: config.allowedTools,
+          disallowedTools: config.disallowedTools,
+          mcpServers: config.mcpServers,
+          isolation: 'none',
+          sessionId: session.agentSessionId,
+          // Until its first reply a fork still points at the source's Claude session
+          ...(session.forkedFrom?.agentSessionId && session.agentSessionId === session.forkedFrom.agentSessionId && { forkSession: true }),
+          timeout: request.timeout
+        }
+      };
+    case 'codex':
+      return {
+        prompt: request.prompt,
+        options: {
+          ...config.agentOptions,
+          ...(config.model && { model: config.model }),
+          cwd,
+          isolation: 'none',
+          ...(session.agentSessionId && { resume: session.agentSessionId }),
+          timeout: request.timeout
+        }
+      };
+    default:
+      return {
+        prompt: request.prompt,
+        options: {
+          ...config.agentOptions,
+          ...(config.model && { model: config.model }),
+          cwd,
+          timeout: request.timeout
+        }
+      };
+  }
+}
+
+/**
+ * Run a prompt through a session's agent
+ */
+export async function runSessionQuery(
+  registry: AgentRegistry,
+  session: Session,
+  request: SessionQueryRequest
+): Promise<SessionQueryResult> {
+  const agent = getSessionAgent(session);
+  const provider = registry.get(agent);
+  if (!provider) {
+    throw new Error(`Agent ${agent} is not available`);
+  }
+
+  const args = buildQueryArgs(session, request);
+  if (!provider.isValidArgs(args)) {
+    throw new Error(`Invalid arguments for ${provider.toolName}: ${provider.invalidArgumentsMessage || 'invalid arguments'}`);
+  }
+
+  const result = await provider.handle(args, {
+    sendNotification: request.sendNotification,
+    signal: request.signal,
+    requestPermission: request.requestPermission
+  });
+  return normalizeAgentResult(result);
+}
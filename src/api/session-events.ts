@@ -0,0 +1,86 @@
+import { EventEmitter } from 'events';
+import type { MessageRecord } from './sqlite-session-store';
+
+/**
+ * One SSE frame; message events carry the persisted message sequence as their id
+ */
+export interface SessionStreamEvent {
+  event: 'message' | 'permission_request' | 'complete' | 'error' | 'idle';
+  data: unknown;
+  id?: number;
+}
+
+/**
+ * Format an event as an SSE frame
+ */
+export function formatSseEvent(event: SessionStreamEvent): string {
+  const id = event.id !== undefined ? `id: ${event.id}\n` : '';
+  return `${id}event: ${event.event}\ndata: ${JSON.stringify(event.data)}\n\n`;
+}
+
+/**
+ * The message event for a stored message, in the shape the stream sent it
+ * (Claude notifications carry the SDK message, other agents' notifications are stored whole)
+ */
+export function toMessageEvent(record: MessageRecord, agent: string): SessionStreamEvent {
+  const content = JSON.parse(record.content);
+  const data = agent === 'claude'
+    ? { type: 'claude_code_message', message: content, timestamp: record.timestamp, sequence: record.sequence }
+    : { ...content, sequence: record.sequence };
+  return { event: 'message', id: record.sequence, data };
+}
+
+/**
+ * Fans out the events of running session queries to /events subscribers
+ * and tracks which sessions have a query in flight
+ */
+export class SessionEventHub {
+  private events: EventEmitter = new EventEmitter();
+  private running: Map<string, Set<AbortController>> = new Map();
+
+  constructor() {
+    this.events.setMaxListeners(0);
+  }
+
+  publish(sessionId: string, event: SessionStreamEvent): void {
+    this.events.emit(sessionId, event);
+  }
+
+  /**
+   * Listen to a session's events; returns the unsubscribe function
+   */
+  subscribe(sessionId: string, listener: (event: SessionStreamEvent) => void): () => void {
+    this.events.on(sessionId, listener);
+    return () => {
+      this.events.off(sessionId, listener);
+    };
+  }
+
+  /**
+   * Record a query as running until the returned function is called
+   */
+  startRun(sessionId: string, abortController: AbortController): () => void {
+    const runs = this.running.get(sessionId) ?? new Set();
+    runs.add(abortController);
+    this.running.set(sessionId, runs);
+    return () => {
+      runs.delete(abortController);
+      if (runs.size === 0 && this.running.get(sessionId) === runs) {
+        this.running.delete(sessionId);
+      }
+    };
+  }
+
+  isRunning(sessionId: string): boolean {
+    return this.running.has(sessionId);
+  }
+
+  /**
+   * Abort a session's running queries (e.g. detached queries when the session ends)
+   */
+  abortRuns(sessionId: string): void {
+    for (const abortController of this.running.get(sessionId) ?? []) {
+      abortController.abort();
+    }
+  }
+}
@@ -1,7 +1,9 @@
 import { randomUUID } from 'crypto';
-import { log } from '../utils/logger';
-import { SessionConfig, Session } from './session-manager';
-import { SQLiteSessionStore, SessionStore, MessageRecord } from './sqlite-session-store';
+import { log, error as logError } from '../utils/logger';
+import { SessionConfig, Session, SessionForkPoint } from './session-manager';
+import { removeWorktree, WorktreeInfo } from '../lib/workspace/worktree';
+import type { WorkspaceChanges } from '../lib/workspace/change-tracker';
+import { SQLiteSessionStore, SessionStore, MessageRecord, RunChangesRecord } from './sqlite-session-store';
 
 interface SessionManagerConfig {
   sessionTimeout?: number; // Default: 1 hour
@@ -16,7 +18,7 @@ interface ResolvedSessionManagerConfig {
 }
 
 /**
- * SQLite-backed Claude Code session manager with persistent storage
+ * SQLite-backed agent session manager with persistent storage
  */
 export class ClaudeCodeSessionManager {
   private store: SessionStore;
@@ -47,9 +49,9 @@ export class ClaudeCodeSessionManager {
   }
 
   /**
-   * Create a new session
+   * Create a new session, attributed to the (masked) API key that created it
    */
-  createSession(config: SessionConfig): Session {
+  createSession(config: SessionConfig, apiKey?: string): Session {
     // Check max sessions limit
     const activeSessions = this.store.listSessions('active');
     if (activeSessions.length >= this.config.maxSessions) {
@@ -60,14 +62,23 @@ export class ClaudeCodeSessionManager {
     const now = new Date();
     const expiresAt = new Date(now.getTime() + this.config.sessionTimeout);
 
+    const agent = config.agent || 'claude';
     const session: Session = {
       sessionId,
+      apiKey,
       config: {
+        agent,
         model: config.model, // Don't set default, let SDK choose
         cwd: config.cwd || process.cwd(),
-        permissionMode: config.permissionMode || 'default',
+        // Claude-only settings
+        permissionMode: agent === 'claude' ? config.permissionMode || 'default' : undefined,
         appendSystemPrompt: config.appendSystemPrompt,
-        maxTurns: config.maxTurns || 10,
+        maxTurns: agent === 'claude' ? config.maxTurns || 10 : undefined,
+        allowedTools: agent === 'claude' ? config.allowedTools : undefined,
+        disallowedTools: agent === 'claude' ? config.disallowedTools : undefined,
+        mcpServers: agent === 'claude' ? config.mcpServers : undefined,
+        isolation: config.isolation || 'none',
+        agentOptions: config.agentOptions,
         metadata: config.metadata || {}
       },
       status: 'active',
@@ -82,6 +93,7 @@ export class ClaudeCodeSessionManager {
 
     log('[session-manager] Session created:', {
       sessionId,
+      agent,
       totalActive: activeSessions.length + 1,
       totalCreated: this.totalSessionsCreated
     });
@@ -139,20 +151,27 @@ export class ClaudeCodeSessionManager {
   }
 
   /**
-   * Update Claude session ID after first interaction
+   * Update the agent's session ID after first interaction
    */
-  updateClaudeSessionId(sessionId: string, claudeSessionId: string): void {
+  updateAgentSessionId(sessionId: string, agentSessionId: string): void {
     const session = this.store.getSession(sessionId);
     
     if (session) {
-      this.store.updateSession(sessionId, { claudeSessionId });
-      log('[session-manager] Updated Claude session ID:', {
+      this.store.updateSession(sessionId, { agentSessionId });
+      log('[session-manager] Updated agent session ID:', {
         sessionId,
-        claudeSessionId
+        agentSessionId
       });
     }
   }
 
+  /**
+   * Attach the git worktree created for an isolated session
+   */
+  setWorktree(sessionId: string, worktree: WorktreeInfo): void {
+    this.store.updateSession(sessionId, { worktree });
+  }
+
   /**
    * End a session
    */
@@ -175,10 +194,65 @@ export class ClaudeCodeSessionManager {
   }
 
   /**
-   * Save a message from Claude SDK
+   * Start a session that continues another from a fork point, with the history up to that point
    */
-  saveMessage(sessionId: string, message: any, sequence: number, source?: 'user' | 'sdk'): void {
+  forkSession(source: Session, forkPoint: SessionForkPoint, apiKey?: string): Session {
+    const activeSessions = this.store.listSessions('active');
+    if (activeSessions.length >= this.config.maxSessions) {
+      throw new Error(`Maximum sessions limit reached: ${this.config.maxSessions}`);
+    }
+
+    const sessionId = randomUUID();
+    const now = new Date();
+    const session: Session = {
+      sessionId,
+      agentSessionId: forkPoint.agentSessionId,
+      apiKey,
+      forkedFrom: forkPoint,
+      config: source.config,
+      status: 'active',
+      createdAt: now.toISOString(),
+      expiresAt: new Date(now.getTime() + this.config.sessionTimeout).toISOString(),
+      lastActivity: now.toISOString(),
+      messageCount: 0
+    };
+
+    this.store.createSession(sessionId, session);
+    session.messageCount = this.store.copyMessages(source.sessionId, sessionId, forkPoint.sequence);
+    this.store.updateSession(sessionId, { messageCount: session.messageCount });
+    this.totalSessionsCreated++;
+
+    log('[session-manager] Session forked:', {
+      sessionId,
+      from: source.sessionId,
+      sequence: forkPoint.sequence,
+      copiedMessages: session.messageCount
+    });
+
+    return session;
+  }
+
+  /**
+   * Save a message from an agent or the user, numbered after the session's last message
+   */
+  saveMessage(sessionId: string, message: any, source?: 'user' | 'sdk'): number {
+    const sequence = this.store.getLastSequence(sessionId) + 1;
     this.store.saveMessage(sessionId, message, sequence, source);
+    return sequence;
+  }
+
+  /**
+   * Get a message by its sequence number
+   */
+  getMessageBySequence(sessionId: string, sequence: number): MessageRecord | null {
+    return this.store.getMessageBySequence(sessionId, sequence);
+  }
+
+  /**
+   * Get the latest message of a type (e.g. the last "result", which ends a turn)
+   */
+  getLastMessageOfType(sessionId: string, messageType: string): MessageRecord | null {
+    return this.store.getLastMessageOfType(sessionId, messageType);
   }
 
   /**
@@ -188,6 +262,13 @@ export class ClaudeCodeSessionManager {
     return this.store.getMessages(sessionId, limit, offset);
   }
 
+  /**
+   * Get messages after a sequence number, oldest first (for replaying a stream)
+   */
+  getMessagesAfter(sessionId: string, afterSequence: number, limit?: number): MessageRecord[] {
+    return this.store.getMessagesAfter(sessionId, afterSequence, limit);
+  }
+
   /**
    * Get message count for a session
    */
@@ -195,6 +276,20 @@ export class ClaudeCodeSessionManager {
     return this.store.getMessageCount(sessionId);
   }
 
+  /**
+   * Save the working-tree changes made by a query
+   */
+  saveRunChanges(sessionId: string, messageId: string, changes: WorkspaceChanges): void {
+    this.store.saveRunChanges(sessionId, messageId, changes);
+  }
+
+  /**
+   * Get the working-tree changes made by a query
+   */
+  getRunChanges(sessionId: string, messageId: string): RunChangesRecord | null {
+    return this.store.getRunChanges(sessionId, messageId);
+  }
+
   /**
    * Get active session count
    */
@@ -215,25 +310,37 @@ export class ClaudeCodeSessionManager {
   private startCleanupTask(): void {
     // Run cleanup every minute
     this.cleanupInterval = setInterval(() => {
-      this.cleanupExpiredSessions();
+      void this.cleanupExpiredSessions();
     }, 60000);
 
     log('[session-manager] Cleanup task started');
   }
 
   /**
-   * Clean up expired sessions
+   * Clean up expired sessions, removing their worktrees and branches
    */
-  private cleanupExpiredSessions(): void {
+  async cleanupExpiredSessions(): Promise<number> {
     const now = new Date();
+    // The rows are deleted below, so collect the worktrees first
+    const worktrees = this.store.listSessions()
+      .filter(session => session.status !== 'ended' && new Date(session.expiresAt) < now)
+      .flatMap(session => session.worktree ? [session.worktree] : []);
     const cleaned = this.store.cleanupExpiredSessions(now);
 
     if (cleaned > 0) {
       log('[session-manager] Cleaned up expired sessions:', {
         cleaned,
+        worktrees: worktrees.length,
         remaining: this.getActiveSessionCount()
       });
     }
+
+    for (const worktree of worktrees) {
+      await removeWorktree(worktree).catch(error => {
+        logError('[session-manager] Failed to remove worktree of expired session:', error);
+      });
+    }
+    return cleaned;
   }
 
   /**
@@ -1,18 +1,38 @@
 import { randomUUID } from 'crypto';
-import { log } from '../utils/logger';
+import { log, error as logError } from '../utils/logger';
+import { removeWorktree } from '../lib/workspace/worktree';
+import type { IsolationMode, WorktreeInfo } from '../lib/workspace/worktree';
 
 export interface SessionConfig {
+  agent?: string; // Agent provider id (default: claude)
   model?: string;
   cwd?: string;
   permissionMode?: 'default' | 'acceptEdits' | 'bypassPermissions' | 'plan';
   appendSystemPrompt?: string;
   maxTurns?: number;
+  allowedTools?: string[]; // Claude tool rules, e.g. "Bash(git diff:*)"; narrowed from CLAUDE_CODE_ALLOWED_TOOLS
+  disallowedTools?: string[];
+  mcpServers?: string[]; // Names from the Claude MCP server catalog
+  isolation?: IsolationMode;
+  agentOptions?: Record<string, unknown>; // Agent-specific query options (codex, gemini and plugin agents)
   metadata?: Record<string, any>;
 }
 
+/**
+ * Where a forked session branched off
+ */
+export interface SessionForkPoint {
+  sessionId: string; // Session the history was copied from
+  sequence: number; // Last copied message sequence (0 when nothing was copied)
+  agentSessionId?: string; // Claude session resumed from that point
+}
+
 export interface Session {
   sessionId: string;
-  claudeSessionId?: string;
+  agentSessionId?: string; // The agent's own session ID (Claude or Codex) used to resume the conversation
+  apiKey?: string; // Id of the API key that created the session (see getApiKeyId)
+  worktree?: WorktreeInfo; // Dedicated git worktree when isolation is "worktree"
+  forkedFrom?: SessionForkPoint;
   config: SessionConfig;
   status: 'active' | 'expired' | 'ended';
   createdAt: string;
@@ -59,14 +79,21 @@ export class ClaudeCodeSessionManager {
     const now = new Date();
     const expiresAt = new Date(now.getTime() + this.config.sessionTimeout);
 
+    const agent = config.agent || 'claude';
     const session: Session = {
       sessionId,
       config: {
+        agent,
         model: config.model, // Don't set default, let SDK choose
         cwd: config.cwd || process.cwd(),
-        permissionMode: config.permissionMode || 'default',
+        // Claude-only settings
+        permissionMode: agent === 'claude' ? config.permissionMode || 'default' : undefined,
         appendSystemPrompt: config.appendSystemPrompt,
-        maxTurns: config.maxTurns || 10,
+        maxTurns: agent === 'claude' ? config.maxTurns || 10 : undefined,
+        allowedTools: agent === 'claude' ? config.allowedTools : undefined,
+        disallowedTools: agent === 'claude' ? config.disallowedTools : undefined,
+        mcpServers: agent === 'claude' ? config.mcpServers : undefined,
+        agentOptions: config.agentOptions,
         metadata: config.metadata || {}
       },
       status: 'active',
@@ -139,20 +166,31 @@ export class ClaudeCodeSessionManager {
   }
 
   /**
-   * Update Claude session ID after first interaction
+   * Update the agent's session ID after first interaction
    */
-  updateClaudeSessionId(sessionId: string, claudeSessionId: string): void {
+  updateAgentSessionId(sessionId: string, agentSessionId: string): void {
     const session = this.sessions.get(sessionId);
     
     if (session) {
-      session.claudeSessionId = claudeSessionId;
-      log('[session-manager] Updated Claude session ID:', {
+      session.agentSessionId = agentSessionId;
+      log('[session-manager] Updated agent session ID:', {
         sessionId,
-        claudeSessionId
+        agentSessionId
       });
     }
   }
 
+  /**
+   * Record the worktree of an isolated session
+   */
+  setWorktree(sessionId: string, worktree: WorktreeInfo): void {
+    const session = this.sessions.get(sessionId);
+
+    if (session) {
+      session.worktree = worktree;
+    }
+  }
+
   /**
    * End a session
    */
@@ -204,22 +242,26 @@ export class ClaudeCodeSessionManager {
   private startCleanupTask(): void {
     // Run cleanup every minute
     this.cleanupInterval = setInterval(() => {
-      this.cleanupExpiredSessions();
+      void this.cleanupExpiredSessions();
     }, 60000);
 
     log('[session-manager] Cleanup task started');
   }
 
   /**
-   * Clean up expired sessions
+   * Clean up expired sessions, removing their worktrees and branches
    */
-  private cleanupExpiredSessions(): void {
+  async cleanupExpiredSessions(): Promise<number> {
     const now = new Date();
+    const worktrees: WorktreeInfo[] = [];
     let cleaned = 0;
 
     for (const [sessionId, session] of this.sessions.entries()) {
       if (new Date(session.expiresAt) < now) {
         this.sessions.delete(sessionId);
+        if (session.worktree) {
+          worktrees.push(session.worktree);
+        }
         cleaned++;
       }
     }
@@ -227,9 +269,17 @@ export class ClaudeCodeSessionManager {
     if (cleaned > 0) {
       log('[session-manager] Cleaned up expired sessions:', {
         cleaned,
+        worktrees: worktrees.length,
         remaining: this.sessions.size
       });
     }
+
+    for (const worktree of worktrees) {
+      await removeWorktree(worktree).catch(error => {
+        logError('[session-manager] Failed to remove worktree of expired session:', error);
+      });
+    }
+    return cleaned;
   }
 
   /**
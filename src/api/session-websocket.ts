@@ -0,0 +1,86 @@
+import * as http from 'http';
+import * as net from 'net';
+import { Duplex } from 'stream';
+import { WebSocket, WebSocketServer } from 'ws';
+import type { PermissionResponse } from '../permissions/permission-broker';
+import type { SessionStreamEvent } from './session-events';
+
+/**
+ * Frames clients send on a session WebSocket
+ */
+export type SessionSocketFrame =
+  | { type: 'prompt'; prompt: string; timeout?: number; continueOnDisconnect?: boolean }
+  | { type: 'cancel' }
+  | ({ type: 'permission_response'; requestId: string } & PermissionResponse);
+
+/**
+ * Frames the server sends: the SSE stream's events, a greeting, and rejections of client frames
+ */
+export type SessionSocketEvent =
+  | SessionStreamEvent
+  | { event: 'connected'; data: { sessionId: string } }
+  | { event: 'frame_error'; data: { code: string; message: string } };
+
+interface PendingUpgrade {
+  socket: Duplex;
+  head: Buffer;
+}
+
+const pendingUpgrades = new WeakMap<http.IncomingMessage, PendingUpgrade>();
+const webSocketServer = new WebSocketServer({ noServer: true });
+
+/**
+ * Route HTTP upgrade requests through an Express app, so WebSocket endpoints run the
+ * same middleware (request IDs, auth, rate limits) as the REST routes.
+ * A route takes the connection with acceptWebSocket(); any plain response it sends
+ * instead (401, 404, ...) is written to the socket, which is then closed.
+ */
+export function createUpgradeHandler(app: (req: http.IncomingMessage, res: http.ServerResponse) => void) {
+  return (req: http.IncomingMessage, socket: Duplex, head: Buffer): void => {
+    pendingUpgrades.set(req, { socket, head });
+    const res = new http.ServerResponse(req);
+    res.assignSocket(socket as net.Socket);
+    res.on('finish', () => {
+      res.detachSocket(socket as net.Socket);
+      socket.end();
+    });
+    app(req, res);
+  };
+}
+
+/**
+ * Whether the request is a WebSocket upgrade routed by createUpgradeHandler
+ */
+export function isWebSocketUpgrade(req: http.IncomingMessage): boolean {
+  return pendingUpgrades.has(req);
+}
+
+/**
+ * Complete the WebSocket handshake for an upgrade request
+ */
+export function acceptWebSocket(req: http.IncomingMessage, onConnection: (socket: WebSocket) => void): void {
+  const upgrade = pendingUpgrades.get(req);
+  if (!upgrade) {
+    throw new Error('Request is not a WebSocket upgrade');
+  }
+  pendingUpgrades.delete(req);
+  webSocketServer.handleUpgrade(req, upgrade.socket, upgrade.head, onConnection);
+}
+
+/**
+ * Send an event to the client if the socket is still open
+ */
+export function sendSocketEvent(socket: WebSocket, event: SessionSocketEvent): void {
+  if (socket.readyState === WebSocket.OPEN) {
+    socket.send(JSON.stringify(event));
+  }
+}
+
+/**
+ * Close every open session WebSocket (e.g. when the HTTP server stops)
+ */
+export function closeWebSockets(): void {
+  for (const socket of webSocketServer.clients) {
+    socket.close(1001, 'Server shutting down');
+  }
+}
@@ -3,7 +3,8 @@ import { Session } from './session-manager';
 import { log, error as logError } from '../utils/logger';
 import * as path from 'path';
 import * as fs from 'fs';
-import envPaths from 'env-paths';
+import { resolveDatabasePath } from '../utils/database-path';
+import type { WorkspaceChanges } from '../lib/workspace/change-tracker';
 
 export interface MessageRecord {
   id: number;
@@ -17,6 +18,13 @@ export interface MessageRecord {
   source: 'user' | 'sdk';
 }
 
+export interface RunChangesRecord {
+  sessionId: string;
+  messageId: string;
+  changes: WorkspaceChanges;
+  createdAt: string;
+}
+
 export interface SessionStore {
   createSession(sessionId: string, session: Session): void;
   getSession(sessionId: string): Session | null;
@@ -27,7 +35,16 @@ export interface SessionStore {
   // Message storage
   saveMessage(sessionId: string, message: any, sequence: number, source?: 'user' | 'sdk'): void;
   getMessages(sessionId: string, limit?: number, offset?: number): MessageRecord[];
+  getMessagesAfter(sessionId: string, afterSequence: number, limit?: number): MessageRecord[];
   getMessageCount(sessionId: string): number;
+  getLastSequence(sessionId: string): number;
+  getMessageBySequence(sessionId: string, sequence: number): MessageRecord | null;
+  getLastMessageOfType(sessionId: string, messageType: string): MessageRecord | null;
+  copyMessages(fromSessionId: string, toSessionId: string, maxSequence: number): number;
+  
+  // Working-tree changes made by each query
+  saveRunChanges(sessionId: string, messageId: string, changes: WorkspaceChanges): void;
+  getRunChanges(sessionId: string, messageId: string): RunChangesRecord | null;
   
   // Maintenance
   cleanupExpiredSessions(before: Date): number;
@@ -39,7 +56,7 @@ export class SQLiteSessionStore implements SessionStore {
   
   constructor(dbPath?: string) {
     // Use provided path, env variable, or default to user data directory
-    const finalPath = dbPath || process.env.MCP_DATABASE_PATH || this.getDefaultDbPath();
+    const finalPath = resolveDatabasePath(dbPath);
     
     // Ensure directory exists
     const dir = path.dirname(finalPath);
@@ -63,17 +80,15 @@ export class SQLiteSessionStore implements SessionStore {
     }
   }
   
-  private getDefaultDbPath(): string {
-    const paths = envPaths('mcp-coding-agents', { suffix: '' });
-    return path.join(paths.data, 'sessions.db');
-  }
-  
   private initializeSchema(): void {
     // Sessions table
     this.db.exec(`
       CREATE TABLE IF NOT EXISTS sessions (
         sessionId TEXT PRIMARY KEY,
-        claudeSessionId TEXT,
+        agentSessionId TEXT,
+        apiKey TEXT,
+        worktree TEXT,
+        forkedFrom TEXT,
         config TEXT NOT NULL,
         status TEXT NOT NULL CHECK (status IN ('active', 'expired', 'ended')),
         createdAt TEXT NOT NULL,
@@ -100,12 +115,25 @@ export class SQLiteSessionStore implements SessionStore {
       )
     `);
     
+    // Changes made by each query, keyed by the response messageId
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS run_changes (
+        sessionId TEXT NOT NULL,
+        messageId TEXT NOT NULL,
+        changes TEXT NOT NULL,
+        createdAt TEXT NOT NULL,
+        PRIMARY KEY (sessionId, messageId),
+        FOREIGN KEY (sessionId) REFERENCES sessions(sessionId) ON DELETE CASCADE
+      )
+    `);
+    
     // Indexes for performance
     this.db.exec(`
       CREATE INDEX IF NOT EXISTS idx_sessions_status ON sessions(status);
       CREATE INDEX IF NOT EXISTS idx_sessions_expiresAt ON sessions(expiresAt);
       CREATE INDEX IF NOT EXISTS idx_messages_sessionId ON messages(sessionId);
       CREATE INDEX IF NOT EXISTS idx_messages_sequence ON messages(sessionId, sequence);
+      CREATE INDEX IF NOT EXISTS idx_messages_type ON messages(messageType);
     `);
   }
   
@@ -121,18 +149,74 @@ export class SQLiteSessionStore implements SessionStore {
       `);
       log('[sqlite-store] Migration completed: source column added');
     }
+    
+    // Check if apiKey column exists
+    const sessionColumns = this.db.pragma('table_info(sessions)') as Array<{name: string}>;
+    const hasApiKeyColumn = sessionColumns.some((col) => col.name === 'apiKey');
+    
+    if (!hasApiKeyColumn) {
+      log('[sqlite-store] Running migration: Adding apiKey column to sessions table');
+      this.db.exec(`
+        ALTER TABLE sessions ADD COLUMN apiKey TEXT;
+      `);
+      log('[sqlite-store] Migration completed: apiKey column added');
+    }
+    
+    // Sessions from before multi-agent support stored only Claude session IDs
+    if (sessionColumns.some((col) => col.name === 'claudeSessionId')) {
+      log('[sqlite-store] Running migration: Renaming claudeSessionId column to agentSessionId');
+      this.db.exec(`
+        ALTER TABLE sessions RENAME COLUMN claudeSessionId TO agentSessionId;
+      `);
+      log('[sqlite-store] Migration completed: agentSessionId column renamed');
+    }
+    
+    // Check if worktree column exists
+    if (!sessionColumns.some((col) => col.name === 'worktree')) {
+      log('[sqlite-store] Running migration: Adding worktree column to sessions table');
+      this.db.exec(`
+        ALTER TABLE sessions ADD COLUMN worktree TEXT;
+      `);
+      log('[sqlite-store] Migration completed: worktree column added');
+    }
+    
+    // Check if forkedFrom column exists
+    if (!sessionColumns.some((col) => col.name === 'forkedFrom')) {
+      log('[sqlite-store] Running migration: Adding forkedFrom column to sessions table');
+      this.db.exec(`
+        ALTER TABLE sessions ADD COLUMN forkedFrom TEXT;
+      `);
+      log('[sqlite-store] Migration completed: forkedFrom column added');
+    }
+    
+    // Sequences used to restart with every query; number them per session in insertion order
+    const repeatedSequence = this.db.prepare(`
+      SELECT 1 FROM messages GROUP BY sessionId, sequence HAVING COUNT(*) > 1 LIMIT 1
+    `).get();
+    if (repeatedSequence) {
+      log('[sqlite-store] Running migration: Renumbering message sequences per session');
+      this.db.exec(`
+        UPDATE messages SET sequence = (
+          SELECT COUNT(*) FROM messages AS earlier
+          WHERE earlier.sessionId = messages.sessionId AND earlier.id <= messages.id
+        );
+      `);
+      log('[sqlite-store] Migration completed: message sequences renumbered');
+    }
   }
   
   createSession(sessionId: string, session: Session): void {
     const stmt = this.db.prepare(`
-      INSERT INTO sessions (sessionId, claudeSessionId, config, status, createdAt, expiresAt, lastActivity, messageCount)
-      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+      INSERT INTO sessions (sessionId, agentSessionId, apiKey, forkedFrom, config, status, createdAt, expiresAt, lastActivity, messageCount)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `);
     
     try {
       stmt.run(
         sessionId,
-        session.claudeSessionId || null,
+        session.agentSessionId || null,
+        session.apiKey || null,
+        session.forkedFrom ? JSON.stringify(session.forkedFrom) : null,
         JSON.stringify(session.config),
         session.status,
         session.createdAt,
@@ -156,7 +240,10 @@ export class SQLiteSessionStore implements SessionStore {
     
     return {
       sessionId: row.sessionId,
-      claudeSessionId: row.claudeSessionId,
+      agentSessionId: row.agentSessionId || undefined,
+      apiKey: row.apiKey || undefined,
+      worktree: row.worktree ? JSON.parse(row.worktree) : undefined,
+      forkedFrom: row.forkedFrom ? JSON.parse(row.forkedFrom) : undefined,
       config: JSON.parse(row.config),
       status: row.status,
       createdAt: row.createdAt,
@@ -170,9 +257,13 @@ export class SQLiteSessionStore implements SessionStore {
     const fields: string[] = [];
     const values: any[] = [];
     
-    if (updates.claudeSessionId !== undefined) {
-      fields.push('claudeSessionId = ?');
-      values.push(updates.claudeSessionId);
+    if (updates.agentSessionId !== undefined) {
+      fields.push('agentSessionId = ?');
+      values.push(updates.agentSessionId);
+    }
+    if (updates.worktree !== undefined) {
+      fields.push('worktree = ?');
+      values.push(JSON.stringify(updates.worktree));
     }
     if (updates.status !== undefined) {
       fields.push('status = ?');
@@ -222,7 +313,10 @@ export class SQLiteSessionStore implements SessionStore {
     
     return rows.map(row => ({
       sessionId: row.sessionId,
-      claudeSessionId: row.claudeSessionId,
+      agentSessionId: row.agentSessionId || undefined,
+      apiKey: row.apiKey || undefined,
+      worktree: row.worktree ? JSON.parse(row.worktree) : undefined,
+      forkedFrom: row.forkedFrom ? JSON.parse(row.forkedFrom) : undefined,
       config: JSON.parse(row.config),
       status: row.status,
       createdAt: row.createdAt,
@@ -249,7 +343,8 @@ export class SQLiteSessionStore implements SessionStore {
     const metadata = message.type === 'result' ? JSON.stringify({
       duration_ms: message.duration_ms,
       total_cost_usd: message.total_cost_usd,
-      num_turns: message.num_turns
+      num_turns: message.num_turns,
+      usage: message.usage
     }) : null;
     
     try {
@@ -264,13 +359,68 @@ export class SQLiteSessionStore implements SessionStore {
     const stmt = this.db.prepare(`
       SELECT * FROM messages 
       WHERE sessionId = ? 
-      ORDER BY sequence ASC 
+      ORDER BY sequence ASC, id ASC 
       LIMIT ? OFFSET ?
     `);
     
     const rows = stmt.all(sessionId, limit, offset) as any[];
     
-    return rows.map(row => ({
+    return rows.map(row => this.toMessageRecord(row));
+  }
+  
+  getMessagesAfter(sessionId: string, afterSequence: number, limit: number = 100): MessageRecord[] {
+    const stmt = this.db.prepare(`
+      SELECT * FROM messages
+      WHERE sessionId = ? AND sequence > ?
+      ORDER BY sequence ASC
+      LIMIT ?
+    `);
+    const rows = stmt.all(sessionId, afterSequence, limit) as any[];
+    return rows.map(row => this.toMessageRecord(row));
+  }
+  
+  getMessageCount(sessionId: string): number {
+    const stmt = this.db.prepare('SELECT COUNT(*) as count FROM messages WHERE sessionId = ?');
+    const result = stmt.get(sessionId) as any;
+    return result.count;
+  }
+  
+  getLastSequence(sessionId: string): number {
+    const stmt = this.db.prepare('SELECT MAX(sequence) as sequence FROM messages WHERE sessionId = ?');
+    const result = stmt.get(sessionId) as any;
+    return result.sequence ?? 0;
+  }
+  
+  getMessageBySequence(sessionId: string, sequence: number): MessageRecord | null {
+    const stmt = this.db.prepare('SELECT * FROM messages WHERE sessionId = ? AND sequence = ?');
+    const row = stmt.get(sessionId, sequence) as any;
+    return row ? this.toMessageRecord(row) : null;
+  }
+  
+  getLastMessageOfType(sessionId: string, messageType: string): MessageRecord | null {
+    const stmt = this.db.prepare(`
+      SELECT * FROM messages
+      WHERE sessionId = ? AND messageType = ?
+      ORDER BY sequence DESC
+      LIMIT 1
+    `);
+    const row = stmt.get(sessionId, messageType) as any;
+    return row ? this.toMessageRecord(row) : null;
+  }
+  
+  copyMessages(fromSessionId: string, toSessionId: string, maxSequence: number): number {
+    const stmt = this.db.prepare(`
+      INSERT INTO messages (sessionId, messageType, messageSubtype, content, sequence, timestamp, metadata, source)
+      SELECT ?, messageType, messageSubtype, content, sequence, timestamp, metadata, source
+      FROM messages
+      WHERE sessionId = ? AND sequence <= ?
+      ORDER BY sequence ASC
+    `);
+    return stmt.run(toSessionId, fromSessionId, maxSequence).changes;
+  }
+  
+  private toMessageRecord(row: any): MessageRecord {
+    return {
       id: row.id,
       sessionId: row.sessionId,
       messageType: row.messageType,
@@ -280,13 +430,33 @@ export class SQLiteSessionStore implements SessionStore {
       timestamp: row.timestamp,
       metadata: row.metadata,
       source: row.source || 'sdk'
-    }));
+    };
   }
   
-  getMessageCount(sessionId: string): number {
-    const stmt = this.db.prepare('SELECT COUNT(*) as count FROM messages WHERE sessionId = ?');
-    const result = stmt.get(sessionId) as any;
-    return result.count;
+  saveRunChanges(sessionId: string, messageId: string, changes: WorkspaceChanges): void {
+    const stmt = this.db.prepare(`
+      INSERT OR REPLACE INTO run_changes (sessionId, messageId, changes, createdAt)
+      VALUES (?, ?, ?, ?)
+    `);
+    
+    try {
+      stmt.run(sessionId, messageId, JSON.stringify(changes), new Date().toISOString());
+    } catch (error) {
+      logError('[sqlite-store] Failed to save run changes:', error);
+    }
+  }
+  
+  getRunChanges(sessionId: string, messageId: string): RunChangesRecord | null {
+    const stmt = this.db.prepare('SELECT * FROM run_changes WHERE sessionId = ? AND messageId = ?');
+    const row = stmt.get(sessionId, messageId) as any;
+    if (!row) return null;
+    
+    return {
+      sessionId: row.sessionId,
+      messageId: row.messageId,
+      changes: JSON.parse(row.changes),
+      createdAt: row.createdAt
+    };
   }
   
   cleanupExpiredSessions(before: Date): number {
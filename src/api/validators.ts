@@ -1,4 +1,7 @@
 import { CreateSessionRequest, SendMessageRequest } from './claude-code-api';
+import { USAGE_GROUP_BY } from '../accounting/usage-accounting';
+
+const PIPELINE_RUN_STATUSES = ['running', 'completed', 'failed', 'cancelled'];
 
 // Type guard for CreateSessionRequest
 export function isCreateSessionRequest(body: unknown): body is CreateSessionRequest {
@@ -9,6 +12,14 @@ export function isCreateSessionRequest(body: unknown): body is CreateSessionRequ
   const obj = body as Record<string, unknown>;
   
   // All fields are optional, but if present must be correct type
+  if ('agent' in obj && (typeof obj.agent !== 'string' || !obj.agent)) {
+    return false;
+  }
+  
+  if ('agentOptions' in obj && (typeof obj.agentOptions !== 'object' || obj.agentOptions === null || Array.isArray(obj.agentOptions))) {
+    return false;
+  }
+  
   if ('model' in obj && typeof obj.model !== 'string') {
     return false;
   }
@@ -28,10 +39,20 @@ export function isCreateSessionRequest(body: unknown): body is CreateSessionRequ
     }
   }
   
+  if ('isolation' in obj && obj.isolation !== 'none' && obj.isolation !== 'worktree') {
+    return false;
+  }
+  
   if ('maxTurns' in obj && (typeof obj.maxTurns !== 'number' || obj.maxTurns < 0)) {
     return false;
   }
   
+  for (const field of ['allowedTools', 'disallowedTools', 'mcpServers']) {
+    if (field in obj && (!Array.isArray(obj[field]) || !(obj[field] as unknown[]).every(rule => typeof rule === 'string'))) {
+      return false;
+    }
+  }
+  
   if ('maxMessages' in obj && (typeof obj.maxMessages !== 'number' || obj.maxMessages < 0)) {
     return false;
   }
@@ -61,6 +82,10 @@ export function isSendMessageRequest(body: unknown): body is SendMessageRequest
     return false;
   }
   
+  if ('continueOnDisconnect' in obj && typeof obj.continueOnDisconnect !== 'boolean') {
+    return false;
+  }
+  
   return true;
 }
 
@@ -78,17 +103,161 @@ export function getValidationError(body: unknown, type: 'CreateSessionRequest' |
     if (typeof obj.prompt !== 'string') {
       return 'Field "prompt" must be a string';
     }
+    if ('timeout' in obj && typeof obj.timeout !== 'number') {
+      return 'Field "timeout" must be a number';
+    }
+    if ('continueOnDisconnect' in obj && typeof obj.continueOnDisconnect !== 'boolean') {
+      return 'Field "continueOnDisconnect" must be a boolean';
+    }
   }
   
   if (type === 'CreateSessionRequest') {
     const obj = body as Record<string, unknown>;
+    if ('agent' in obj && (typeof obj.agent !== 'string' || !obj.agent)) {
+      return 'Field "agent" must be a non-empty string';
+    }
+    if ('agentOptions' in obj && (typeof obj.agentOptions !== 'object' || obj.agentOptions === null || Array.isArray(obj.agentOptions))) {
+      return 'Field "agentOptions" must be an object';
+    }
     if ('permissionMode' in obj) {
       const validModes = ['default', 'acceptEdits', 'bypassPermissions', 'plan'];
       if (!validModes.includes(obj.permissionMode as string)) {
         return `Invalid permissionMode. Must be one of: ${validModes.join(', ')}`;
       }
     }
+    if ('isolation' in obj && obj.isolation !== 'none' && obj.isolation !== 'worktree') {
+      return 'Invalid isolation. Must be one of: none, worktree';
+    }
+    for (const field of ['allowedTools', 'disallowedTools', 'mcpServers']) {
+      if (field in obj && (!Array.isArray(obj[field]) || !(obj[field] as unknown[]).every(rule => typeof rule === 'string'))) {
+        return `Field "${field}" must be an array of strings`;
+      }
+    }
   }
   
   return 'Invalid request body format';
-}
\ No newline at end of file
+}
+
+// Validate GET /usage query parameters, returning an error message or null
+export function getUsageQueryError(query: Record<string, unknown>): string | null {
+  for (const field of ['from', 'to']) {
+    const value = query[field];
+    if (value !== undefined && (typeof value !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(value))) {
+      return `Field "${field}" must be a date in YYYY-MM-DD format`;
+    }
+  }
+  
+  if (query.groupBy !== undefined && !USAGE_GROUP_BY.includes(query.groupBy as any)) {
+    return `Invalid groupBy. Must be one of: ${USAGE_GROUP_BY.join(', ')}`;
+  }
+  
+  for (const field of ['sessionId', 'apiKey']) {
+    if (query[field] !== undefined && typeof query[field] !== 'string') {
+      return `Field "${field}" must be a string`;
+    }
+  }
+  
+  return null;
+}
+
+// Validate POST /pipelines bodies, returning an error message or null
+export function getRunPipelineRequestError(body: unknown): string | null {
+  if (typeof body !== 'object' || body === null) {
+    return 'Request body must be an object';
+  }
+  
+  const obj = body as Record<string, unknown>;
+  if (!('pipeline' in obj)) {
+    return 'Missing required field: pipeline';
+  }
+  if (typeof obj.pipeline !== 'string' && (typeof obj.pipeline !== 'object' || obj.pipeline === null || Array.isArray(obj.pipeline))) {
+    return 'Field "pipeline" must be a YAML/JSON string or an object';
+  }
+  if ('input' in obj && (typeof obj.input !== 'object' || obj.input === null || Array.isArray(obj.input))) {
+    return 'Field "input" must be an object';
+  }
+  
+  return null;
+}
+
+// Validate GET /pipelines query parameters, returning an error message or null
+export function getPipelineListQueryError(query: Record<string, unknown>): string | null {
+  if (query.status !== undefined && !PIPELINE_RUN_STATUSES.includes(query.status as string)) {
+    return `Invalid status. Must be one of: ${PIPELINE_RUN_STATUSES.join(', ')}`;
+  }
+  
+  if (query.limit !== undefined && (typeof query.limit !== 'string' || !/^\d+$/.test(query.limit) || Number(query.limit) < 1)) {
+    return 'Field "limit" must be a positive integer';
+  }
+  
+  return null;
+}
+
+// Validate POST /sessions/:id/permissions/:requestId bodies, returning an error message or null
+export function getPermissionResponseError(body: unknown): string | null {
+  if (typeof body !== 'object' || body === null) {
+    return 'Request body must be an object';
+  }
+  
+  const obj = body as Record<string, unknown>;
+  if (obj.behavior !== 'allow' && obj.behavior !== 'deny') {
+    return 'Field "behavior" must be one of: allow, deny';
+  }
+  if ('message' in obj && typeof obj.message !== 'string') {
+    return 'Field "message" must be a string';
+  }
+  if ('updatedInput' in obj && (typeof obj.updatedInput !== 'object' || obj.updatedInput === null || Array.isArray(obj.updatedInput))) {
+    return 'Field "updatedInput" must be an object';
+  }
+  if ('remember' in obj && typeof obj.remember !== 'boolean') {
+    return 'Field "remember" must be a boolean';
+  }
+  
+  return null;
+}
+
+/**
+ * Validate a ForkSessionRequest body, returning an error message or null
+ */
+export function getForkSessionRequestError(body: unknown): string | null {
+  if (body === undefined) {
+    return null;
+  }
+  if (typeof body !== 'object' || body === null) {
+    return 'Request body must be an object';
+  }
+  
+  const obj = body as Record<string, unknown>;
+  if ('atSequence' in obj && (!Number.isInteger(obj.atSequence) || (obj.atSequence as number) < 1)) {
+    return 'Field "atSequence" must be a positive integer';
+  }
+  if ('metadata' in obj && (typeof obj.metadata !== 'object' || obj.metadata === null || Array.isArray(obj.metadata))) {
+    return 'Field "metadata" must be an object';
+  }
+  
+  return null;
+}
+
+// Validate a frame sent on GET /sessions/:id/ws, returning an error message or null
+export function getSessionSocketFrameError(frame: unknown): string | null {
+  if (typeof frame !== 'object' || frame === null) {
+    return 'Frame must be an object';
+  }
+  
+  const obj = frame as Record<string, unknown>;
+  switch (obj.type) {
+    case 'prompt': {
+      const { type: _type, ...request } = obj;
+      return isSendMessageRequest(request) ? null : getValidationError(request, 'SendMessageRequest');
+    }
+    case 'cancel':
+      return null;
+    case 'permission_response':
+      if (typeof obj.requestId !== 'string' || !obj.requestId) {
+        return 'Field "requestId" must be a non-empty string';
+      }
+      return getPermissionResponseError(obj);
+    default:
+      return 'Field "type" must be one of: prompt, cancel, permission_response';
+  }
+}
@@ -2,14 +2,16 @@
 
 import dotenv from 'dotenv';
 import { CoreMCPServer } from './core/mcp-server-core';
-import { TransportFactory, TransportType } from './core/transport-factory';
+import { parseTransportTypes, TransportFactory, TransportType } from './core/transport-factory';
+import { loadPlugins, readPluginConfigFile } from './core/plugin-loader';
+import { parseSocketMode } from './transports/socket-listener';
+import { isStdioMode } from './utils/stdio-mode';
 import { program } from 'commander';
 import { readFileSync } from 'fs';
 import { join } from 'path';
 
 // Determine if we're in STDIO mode early to suppress logs
-const isStdio = process.argv.includes('stdio') || 
-                process.argv.includes('--transport') && process.argv[process.argv.indexOf('--transport') + 1] === 'stdio';
+const isStdio = isStdioMode();
 
 // Load environment variables
 dotenv.config({ quiet: isStdio });
@@ -27,48 +29,55 @@ try {
   }
 }
 
+// Collect repeatable options into an array
+const collect = (value: string, previous: string[]) => [...previous, value];
+
 // Define CLI interface
 program
   .name('@kadreio/mcp-coding-agents')
   .description('MCP Server with multiple AI coding agents for enhanced development workflows')
   .version(packageVersion)
-  .argument('[mode]', 'Transport mode (stdio or http)', 'http')
-  .option('-t, --transport <type>', 'Transport type (stdio or http)')
-  .option('-p, --port <port>', 'Port for HTTP transport', process.env.PORT || '3050')
-  .option('--host <host>', 'Host for HTTP transport', '0.0.0.0')
+  .argument('[mode]', 'Transport mode (stdio, http or websocket; comma-separate to run several)', 'http')
+  .option('-t, --transport <type>', 'Transport type (stdio, http or websocket; comma-separate to run several, e.g. stdio,http)')
+  .option('-p, --port <port>', 'Port for HTTP/WebSocket transport', process.env.PORT || '3050')
+  .option('--ws-port <port>', 'Port for the WebSocket transport (default: --port, or --port + 1 alongside HTTP)')
+  .option('--host <host>', 'Host for HTTP/WebSocket transport', '0.0.0.0')
+  .option('--socket <path>', 'Serve the HTTP transport on a Unix domain socket (or Windows named pipe) instead of a TCP port')
+  .option('--socket-mode <mode>', 'File mode of the --socket path, in octal', '660')
   .option('--no-cors', 'Disable CORS for HTTP transport')
   .option('--https', 'Enable HTTPS')
   .option('--cert <path>', 'Path to SSL certificate file')
   .option('--key <path>', 'Path to SSL private key file')
   .option('--ca <path>', 'Path to SSL CA certificate file (optional)')
   .option('--no-auth', 'Disable API authentication (for development)')
+  .option('--plugin <path|package>', 'Load agent providers, tools, resources or prompts from a module (repeatable)', collect, [])
+  .option('--plugin-dir <dir>', 'Load every module in a directory as a plugin (repeatable)', collect, [])
+  .option('--plugin-config <path>', 'JSON or YAML file listing "plugins" and "pluginDirs" to load')
   .parse(process.argv);
 
 const options = program.opts();
 const [mode] = program.args;
 
-// Determine transport type - maintain backward compatibility
-let transportType: TransportType;
+// Determine transport types - maintain backward compatibility
+let transportTypes: TransportType[] = ['http']; // default
 
-if (mode && ['stdio', 'http', 'server'].includes(mode)) {
-  if (mode === 'server') {
-    // Legacy 'server' command maps to HTTP
-    transportType = 'http';
-    console.log('Note: "server" command is deprecated. Use "http" instead.');
-  } else {
-    transportType = mode as TransportType;
+if (mode === 'server') {
+  // Legacy 'server' command maps to HTTP
+  console.log('Note: "server" command is deprecated. Use "http" instead.');
+} else if (mode || options.transport) {
+  // Validate transport types
+  try {
+    transportTypes = parseTransportTypes(mode || options.transport);
+  } catch (error) {
+    console.error((error as Error).message);
+    process.exit(1);
   }
-} else if (options.transport) {
-  transportType = options.transport as TransportType;
-} else {
-  transportType = 'http'; // default
 }
 
-// Validate transport type
-if (!['stdio', 'http'].includes(transportType)) {
-  console.error(`Invalid transport type: ${transportType}`);
-  console.error('Valid options are: stdio, http');
-  process.exit(1);
+// Alongside other transports, STDIO still owns stdout; send their console output to stderr
+if (isStdio && transportTypes.length > 1) {
+  console.log = console.error;
+  console.info = console.error;
 }
 
 async function main() {
@@ -79,27 +88,53 @@ async function main() {
       version: packageVersion,
     });
 
-    // Create transport based on type
-    const transport = await TransportFactory.createTransport(coreServer, {
-      type: transportType,
-      config: transportType === 'http' ? {
-        port: parseInt(options.port),
-        host: options.host,
+    // Load third-party plugins before any transport exposes the server
+    const pluginConfig = options.pluginConfig
+      ? readPluginConfigFile(options.pluginConfig)
+      : { plugins: [], pluginDirs: [] };
+    await loadPlugins(coreServer, {
+      plugins: [...pluginConfig.plugins, ...options.plugin],
+      pluginDirs: [...pluginConfig.pluginDirs, ...options.pluginDir],
+    });
+
+    // Network transports share the listen and TLS options
+    const port = parseInt(options.port);
+    const networkConfig = {
+      port,
+      host: options.host,
+      https: options.https,
+      certPath: options.cert,
+      keyPath: options.key,
+      caPath: options.ca,
+    };
+    const httpOnPort = transportTypes.includes('http') && !options.socket;
+    const transportConfigs = {
+      stdio: {},
+      http: {
+        ...networkConfig,
+        socketPath: options.socket,
+        socketMode: parseSocketMode(options.socketMode),
         cors: options.cors !== false,
-        https: options.https,
-        certPath: options.cert,
-        keyPath: options.key,
-        caPath: options.ca,
         claudeCodeApi: {
           auth: {
             enabled: options.auth !== false && process.env.CLAUDE_CODE_AUTH_ENABLED !== 'false'
           }
         }
-      } : {},
-    });
+      },
+      websocket: {
+        ...networkConfig,
+        port: options.wsPort ? parseInt(options.wsPort) : httpOnPort ? port + 1 : port,
+      },
+    };
+
+    // Create the transports over the same core server, so they share agents, jobs and sessions
+    const transports = await TransportFactory.createTransports(coreServer, transportTypes.map(type => ({
+      type,
+      config: transportConfigs[type],
+    })));
 
-    // Start the transport
-    await transport.start();
+    // Start the transports together; STDIO's start() only returns at shutdown
+    await Promise.all(transports.map(transport => transport.start()));
   } catch (error) {
     console.error('Failed to start server:', error);
     process.exit(1);
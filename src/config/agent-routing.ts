@@ -0,0 +1,32 @@
+import dotenv from 'dotenv';
+import { isStdioMode } from '../utils/stdio-mode';
+
+// Check if we're in STDIO mode
+const isStdio = isStdioMode();
+
+// Load environment variables
+dotenv.config({ quiet: isStdio });
+
+/**
+ * Retry and fallback policy for coding_agent_query, from environment variables
+ */
+export const agentRoutingConfig = {
+  // Agents tried in order until one succeeds; unregistered ids are skipped
+  fallbackChain: (process.env.MCP_AGENT_FALLBACK_CHAIN || 'claude,codex,gemini')
+    .split(',')
+    .map(agent => agent.trim())
+    .filter(Boolean),
+
+  // Attempts per agent for transient errors (rate limits, overload, network), including the first
+  retryAttempts: process.env.MCP_AGENT_RETRY_ATTEMPTS
+    ? parseInt(process.env.MCP_AGENT_RETRY_ATTEMPTS, 10)
+    : 3,
+
+  // Exponential backoff before each retry: base * 2^(attempt - 2), so the second attempt waits base, capped at the maximum
+  retryBaseDelayMs: process.env.MCP_AGENT_RETRY_BASE_DELAY_MS
+    ? parseInt(process.env.MCP_AGENT_RETRY_BASE_DELAY_MS, 10)
+    : 1000,
+  retryMaxDelayMs: process.env.MCP_AGENT_RETRY_MAX_DELAY_MS
+    ? parseInt(process.env.MCP_AGENT_RETRY_MAX_DELAY_MS, 10)
+    : 30000,
+};
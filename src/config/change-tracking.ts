@@ -0,0 +1,32 @@
+import dotenv from 'dotenv';
+import { isStdioMode } from '../utils/stdio-mode';
+
+// Check if we're in STDIO mode
+const isStdio = isStdioMode();
+
+// Load environment variables
+dotenv.config({ quiet: isStdio });
+
+/**
+ * Working-tree change tracking around agent runs, from environment variables
+ */
+export const changeTrackingConfig = {
+  // Snapshot the working tree before and after each agent run (request option trackChanges overrides)
+  // Opt-in: snapshots write the repository's files into .git/objects, or hash every file outside git
+  enabled: process.env.MCP_TRACK_CHANGES === 'true', // Default: false
+
+  // Unified diffs longer than this are truncated
+  maxDiffBytes: process.env.MCP_CHANGES_MAX_DIFF_BYTES
+    ? parseInt(process.env.MCP_CHANGES_MAX_DIFF_BYTES, 10)
+    : 1024 * 1024,
+
+  // Non-git directories: stop hashing after this many files
+  maxScanFiles: process.env.MCP_CHANGES_MAX_SCAN_FILES
+    ? parseInt(process.env.MCP_CHANGES_MAX_SCAN_FILES, 10)
+    : 10000,
+
+  // Non-git directories: files larger than this are compared by size and mtime instead of content
+  maxScanFileBytes: process.env.MCP_CHANGES_MAX_SCAN_FILE_BYTES
+    ? parseInt(process.env.MCP_CHANGES_MAX_SCAN_FILE_BYTES, 10)
+    : 1024 * 1024,
+};
@@ -1,8 +1,10 @@
 import dotenv from 'dotenv';
+import { McpServerCatalog, readMcpServerCatalog } from '../lib/agents/mcp-catalog';
+import { parseToolList, ToolPolicy } from '../lib/agents/tool-policy';
+import { isStdioMode } from '../utils/stdio-mode';
 
 // Check if we're in STDIO mode
-const isStdio = process.argv.includes('stdio') || 
-                process.argv.includes('--transport') && process.argv[process.argv.indexOf('--transport') + 1] === 'stdio';
+const isStdio = isStdioMode();
 
 // Load environment variables
 dotenv.config({ quiet: isStdio });
@@ -29,6 +31,15 @@ export const claudeCodeConfig = {
     pathToClaudeCodeExecutable: process.env.CLAUDE_CODE_EXECUTABLE_PATH || undefined,
   },
   
+  // Operator ceiling on Claude Code tools; request-level options can only narrow it
+  toolPolicy: {
+    allowedTools: parseToolList(process.env.CLAUDE_CODE_ALLOWED_TOOLS),
+    disallowedTools: parseToolList(process.env.CLAUDE_CODE_DISALLOWED_TOOLS),
+  } as ToolPolicy,
+  
+  // MCP servers requests may hand to Claude by name (JSON or YAML file shaped like .mcp.json)
+  mcpServerCatalog: readMcpServerCatalog(process.env.CLAUDE_CODE_MCP_SERVERS_FILE) as McpServerCatalog,
+  
   // Helper to merge request options with defaults
   mergeOptions(requestOptions: any = {}) {
     return {
@@ -50,6 +61,8 @@ export const claudeCodeConfig = {
 if (!isStdio) {
   console.log('[claude-code-config] Configuration loaded:', {
     enabled: claudeCodeConfig.enabled,
+    toolPolicy: claudeCodeConfig.toolPolicy,
+    mcpServerCatalog: Object.keys(claudeCodeConfig.mcpServerCatalog),
     defaults: {
       ...claudeCodeConfig.defaults,
       cwd: claudeCodeConfig.defaults.cwd === process.cwd() ? '<current-directory>' : claudeCodeConfig.defaults.cwd,
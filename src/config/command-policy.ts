@@ -0,0 +1,53 @@
+import dotenv from 'dotenv';
+import * as path from 'path';
+import { isStdioMode } from '../utils/stdio-mode';
+
+// Check if we're in STDIO mode
+const isStdio = isStdioMode();
+
+// Load environment variables
+dotenv.config({ quiet: isStdio });
+
+/**
+ * Split a list-valued environment variable
+ */
+function parseList(value: string | undefined, separator: string = ','): string[] {
+  if (!value) {
+    return [];
+  }
+  return value.split(separator).map(item => item.trim()).filter(Boolean);
+}
+
+// Credentials the server itself uses, never passed to executed commands
+const DEFAULT_SCRUBBED_ENV = [
+  'ANTHROPIC_API_KEY',
+  'CLAUDE_API_KEY',
+  'CLAUDE_API_KEYS',
+  'CLAUDE_ADMIN_API_KEYS',
+  'CLAUDE_API_KEY_*',
+  'OPENAI_API_KEY',
+  'GEMINI_API_KEY',
+];
+
+/**
+ * execute_command sandbox policy from environment variables
+ */
+export const commandPolicyConfig = {
+  // Command patterns: globs with * wildcards, or /regex/ (empty allow list means allow all)
+  allowCommands: parseList(process.env.EXECUTE_COMMAND_ALLOW),
+  denyCommands: parseList(process.env.EXECUTE_COMMAND_DENY),
+
+  // Directories the working directory must resolve inside (empty means anywhere)
+  allowedRoots: parseList(process.env.EXECUTE_COMMAND_ALLOWED_ROOTS, path.delimiter),
+
+  // Environment variable names (with * wildcards) removed before spawning
+  scrubEnv: [...DEFAULT_SCRUBBED_ENV, ...parseList(process.env.EXECUTE_COMMAND_SCRUB_ENV)],
+
+  // Hard caps that request options can only lower
+  maxOutputBytes: process.env.EXECUTE_COMMAND_MAX_OUTPUT_BYTES
+    ? parseInt(process.env.EXECUTE_COMMAND_MAX_OUTPUT_BYTES, 10)
+    : 1024 * 1024,
+  maxTimeout: process.env.EXECUTE_COMMAND_MAX_TIMEOUT
+    ? parseInt(process.env.EXECUTE_COMMAND_MAX_TIMEOUT, 10)
+    : 0, // 0 means no maximum
+};
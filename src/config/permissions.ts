@@ -0,0 +1,18 @@
+import dotenv from 'dotenv';
+import { isStdioMode } from '../utils/stdio-mode';
+
+// Check if we're in STDIO mode
+const isStdio = isStdioMode();
+
+// Load environment variables
+dotenv.config({ quiet: isStdio });
+
+/**
+ * Tool-use approval settings for Claude queries that do not bypass permissions
+ */
+export const permissionsConfig = {
+  // Unanswered permission requests are denied after this long
+  timeoutMs: process.env.MCP_PERMISSION_TIMEOUT_MS
+    ? parseInt(process.env.MCP_PERMISSION_TIMEOUT_MS, 10)
+    : 5 * 60 * 1000,
+};
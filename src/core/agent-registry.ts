@@ -0,0 +1,126 @@
+import type { LoggingLevel } from '@modelcontextprotocol/sdk/types.js';
+import type { PermissionHandler } from '../permissions/permission-broker';
+
+/**
+ * MCP tool definition as returned from tools/list
+ */
+export interface ToolDefinition {
+  name: string;
+  description?: string;
+  inputSchema: Record<string, unknown>;
+  outputSchema?: Record<string, unknown>;
+}
+
+/**
+ * Features an agent provider supports
+ */
+export interface AgentCapabilities {
+  streaming: boolean; // Emits notifications while running
+  cancellation: boolean; // Honors the abort signal after launch
+  resume: boolean; // Can continue a previous conversation
+}
+
+/**
+ * Per-request context handed to a provider's handler
+ */
+export interface AgentRequestContext {
+  sendNotification?: (notification: any) => Promise<void>;
+  signal?: AbortSignal;
+  log?: (level: LoggingLevel, logger: string, data: any) => void;
+  requestPermission?: PermissionHandler; // Asks the caller to approve tool uses (Claude without bypassPermissions)
+}
+
+/**
+ * A pluggable agent (or plain tool) exposed through MCP tools/list and tools/call
+ */
+export interface AgentProvider<TArgs = any> {
+  id: string; // Short agent identifier, e.g. 'claude'
+  toolName: string; // MCP tool name, e.g. 'claude_code_query'
+  kind: 'agent' | 'tool';
+  capabilities: AgentCapabilities;
+  invalidArgumentsMessage?: string;
+  getToolDefinition(): ToolDefinition | null; // null hides the tool from tools/list
+  isValidArgs(args: unknown): args is TArgs;
+  handle(args: TArgs, context: AgentRequestContext): Promise<any>;
+}
+
+/**
+ * Registry of agent providers consulted by CoreMCPServer
+ */
+export class AgentRegistry {
+  private providers: Map<string, AgentProvider> = new Map();
+
+  /**
+   * Register a provider. Ids and tool names must be unique.
+   */
+  register(provider: AgentProvider): void {
+    if (this.providers.has(provider.id)) {
+      throw new Error(`Agent provider already registered: ${provider.id}`);
+    }
+    if (this.findByToolName(provider.toolName)) {
+      throw new Error(`Tool already registered: ${provider.toolName}`);
+    }
+    this.providers.set(provider.id, provider);
+  }
+
+  /**
+   * Remove a provider by id
+   */
+  unregister(id: string): boolean {
+    return this.providers.delete(id);
+  }
+
+  /**
+   * Get a provider by id
+   */
+  get(id: string): AgentProvider | undefined {
+    return this.providers.get(id);
+  }
+
+  /**
+   * Check whether a provider id is registered
+   */
+  has(id: string): boolean {
+    return this.providers.has(id);
+  }
+
+  /**
+   * Find the provider serving an MCP tool name
+   */
+  findByToolName(toolName: string): AgentProvider | undefined {
+    for (const provider of this.providers.values()) {
+      if (provider.toolName === toolName) {
+        return provider;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * List all providers in registration order
+   */
+  list(): AgentProvider[] {
+    return Array.from(this.providers.values());
+  }
+
+  /**
+   * List only providers that are coding agents (not plain tools)
+   */
+  listAgents(): AgentProvider[] {
+    return this.list().filter(provider => provider.kind === 'agent');
+  }
+
+  /**
+   * Collect tool definitions for every enabled provider
+   */
+  getToolDefinitions(): ToolDefinition[] {
+    const tools: ToolDefinition[] = [];
+    for (const provider of this.providers.values()) {
+      const definition = provider.getToolDefinition();
+      if (definition) {
+        tools.push(definition);
+      }
+    }
+    return tools;
+  }
+}
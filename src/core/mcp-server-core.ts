@@ -1,4 +1,5 @@
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { randomUUID } from 'crypto';
 import {
   CallToolRequestSchema,
   GetPromptRequestSchema,
@@ -15,16 +16,30 @@ import {
   GetPromptRequest,
   SetLevelRequest,
   LoggingLevel,
+  ElicitResultSchema,
 } from '@modelcontextprotocol/sdk/types.js';
-import { execSync } from 'child_process';
-import { getClaudeCodeToolDefinition, handleClaudeCodeQuery, isClaudeCodeQueryArgs } from '../lib/agents/claude';
-import { getGeminiToolDefinition, handleGeminiQuery, isGeminiQueryArgs } from '../lib/agents/gemini';
-import { getCodexToolDefinition, handleCodexQuery, isCodexQueryArgs } from '../lib/agents/codex';
+import { AgentRegistry, ToolDefinition } from './agent-registry';
+import { createDefaultAgentRegistry } from '../lib/agents';
+import { JobManager, JobManagerConfig } from '../jobs/job-manager';
+import { createJobToolProviders } from '../jobs/job-tools';
+import { createCompareAgentsProvider } from '../lib/agents/compare-agents';
+import { AgentRoutingPolicy, createCodingAgentQueryProvider } from '../lib/agents/agent-router';
+import { PipelineManager, PipelineManagerConfig } from '../pipelines/pipeline-manager';
+import { createPipelineToolProvider } from '../pipelines/pipeline-tools';
+import { UsageAccounting } from '../accounting/usage-accounting';
+import { PermissionBroker, PermissionBrokerConfig, PermissionHandler } from '../permissions/permission-broker';
+import { isStdioMode } from '../utils/stdio-mode';
 import * as promptsData from '../lib/prompts.json';
 
 export interface CoreMCPServerConfig {
   name?: string;
   version?: string;
+  agentRegistry?: AgentRegistry; // Defaults to the built-in providers
+  jobs?: JobManagerConfig; // Background agent job settings
+  pipelines?: PipelineManagerConfig; // Pipeline run storage settings
+  routing?: AgentRoutingPolicy; // coding_agent_query retry and fallback policy (default: MCP_AGENT_* variables)
+  permissions?: PermissionBrokerConfig; // Tool-use approval settings
+  usageDbPath?: string; // Session database read for usage://summary (default: MCP_DATABASE_PATH or user data dir)
 }
 
 interface ResolvedServerConfig {
@@ -34,9 +49,36 @@ interface ResolvedServerConfig {
 
 export interface MCPRequestContext {
   sendNotification?: (notification: any) => Promise<void>;
+  sendRequest?: (request: any, resultSchema: any, options?: any) => Promise<any>;
   signal?: AbortSignal;
 }
 
+/**
+ * A readable MCP resource
+ */
+export interface ResourceProvider {
+  uri: string;
+  name: string;
+  description?: string;
+  mimeType?: string;
+  read(): Promise<string> | string;
+}
+
+/**
+ * A prompt template, in the same shape as lib/prompts.json entries
+ * Argument placeholders use the {argument_name} syntax
+ */
+export interface PromptDefinition {
+  name: string;
+  description?: string;
+  arguments?: Array<{
+    name: string;
+    description?: string;
+    required?: boolean;
+  }>;
+  content: string;
+}
+
 /**
  * Core MCP Server implementation containing all business logic
  * Transport-agnostic design allows for multiple transport implementations
@@ -46,6 +88,13 @@ export class CoreMCPServer {
   private config: ResolvedServerConfig;
   private isStdio: boolean;
   private currentLogLevel: LoggingLevel = 'info';
+  private agentRegistry: AgentRegistry;
+  private jobManager: JobManager;
+  private pipelineManager: PipelineManager;
+  private permissionBroker: PermissionBroker;
+  private usageAccounting: UsageAccounting;
+  private resources: Map<string, ResourceProvider> = new Map();
+  private prompts: Map<string, PromptDefinition> = new Map();
 
   constructor(config: CoreMCPServerConfig = {}) {
     // Try to get version from package.json if not provided
@@ -64,10 +113,24 @@ export class CoreMCPServer {
       name: config.name ?? '@kadreio/mcp-coding-agents',
       version: config.version ?? defaultVersion,
     };
+    this.agentRegistry = config.agentRegistry ?? createDefaultAgentRegistry();
+    this.jobManager = new JobManager(this.agentRegistry, config.jobs);
+    for (const provider of createJobToolProviders(this.jobManager)) {
+      this.agentRegistry.register(provider);
+    }
+    this.agentRegistry.register(createCompareAgentsProvider(this.agentRegistry));
+    this.agentRegistry.register(createCodingAgentQueryProvider(this.agentRegistry, config.routing));
+    this.pipelineManager = new PipelineManager(this.agentRegistry, config.pipelines);
+    this.agentRegistry.register(createPipelineToolProvider(this.pipelineManager));
+    this.permissionBroker = new PermissionBroker(config.permissions);
+    this.usageAccounting = new UsageAccounting(config.usageDbPath);
+    this.registerBuiltinResources();
+    for (const prompt of Object.values(promptsData.prompts)) {
+      this.registerPrompt(prompt);
+    }
     
     // Check if we're in STDIO mode
-    this.isStdio = process.argv.includes('stdio') || 
-                   process.argv.includes('--transport') && process.argv[process.argv.indexOf('--transport') + 1] === 'stdio';
+    this.isStdio = isStdioMode();
                    
     this.initializeServer();
   }
@@ -75,23 +138,7 @@ export class CoreMCPServer {
 
   private initializeServer(): void {
     // Initialize the MCP SDK server
-    this.server = new Server(
-      {
-        name: this.config.name,
-        version: this.config.version,
-      },
-      {
-        capabilities: {
-          tools: {},
-          resources: {},
-          prompts: {},
-          logging: {},
-        },
-      }
-    );
-
-    // Register all handlers
-    this.registerHandlers();
+    this.server = this.createServer();
     
     // Log server initialization (no sendNotification available during init)
     if (!this.isStdio) {
@@ -113,171 +160,222 @@ export class CoreMCPServer {
   }
 
   /**
-   * Register all request handlers
+   * Create another MCP SDK server answering from the same registries
+   * An SDK server talks to one transport at a time, so transports serving
+   * several independent connections create one per connection
    */
-  private registerHandlers(): void {
-    // Tools
-    this.server.setRequestHandler(ListToolsRequestSchema, this.handleListTools.bind(this));
-    this.server.setRequestHandler(CallToolRequestSchema, this.handleCallTool.bind(this));
+  public createServer(): Server {
+    const server = new Server(
+      {
+        name: this.config.name,
+        version: this.config.version,
+      },
+      {
+        capabilities: {
+          tools: {},
+          resources: {},
+          prompts: {},
+          logging: {},
+        },
+      }
+    );
 
-    // Resources
-    this.server.setRequestHandler(ListResourcesRequestSchema, this.handleListResources.bind(this));
-    this.server.setRequestHandler(ReadResourceRequestSchema, this.handleReadResource.bind(this));
+    // Decisions remembered by one client apply only to its own connection
+    const permissionScope = `mcp:${randomUUID()}`;
+    server.onclose = () => this.permissionBroker.clearScope(permissionScope);
 
-    // Prompts
-    this.server.setRequestHandler(ListPromptsRequestSchema, this.handleListPrompts.bind(this));
-    this.server.setRequestHandler(GetPromptRequestSchema, this.handleGetPrompt.bind(this));
+    // Register all handlers
+    this.registerHandlers(server, permissionScope);
+    return server;
+  }
 
-    // Logging
-    this.server.setRequestHandler(SetLevelRequestSchema, this.handleSetLoggingLevel.bind(this));
+  /**
+   * Get the agent registry consulted for tools/list and tools/call
+   * Used to register additional agent providers
+   */
+  public getAgentRegistry(): AgentRegistry {
+    return this.agentRegistry;
   }
 
   /**
-   * Handle list tools request
+   * Get the manager running background agent jobs
    */
-  private async handleListTools(_request: ListToolsRequest): Promise<{ tools: any[] }> {
-    const tools: any[] = [
-      {
-        name: 'execute_command',
-        description: 'Execute a shell command synchronously and return its output',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            command: { type: 'string', description: 'The shell command to execute' },
-            cwd: { type: 'string', description: 'Working directory for command execution (optional)' },
-            timeout: { type: 'number', description: 'Command timeout in milliseconds (optional, default: 0 which means no timeout)' },
-          },
-          required: ['command'],
-        },
-      },
-    ];
+  public getJobManager(): JobManager {
+    return this.jobManager;
+  }
+
+  /**
+   * Get the manager running multi-step pipelines
+   */
+  public getPipelineManager(): PipelineManager {
+    return this.pipelineManager;
+  }
+
+  /**
+   * Get the broker holding tool-use approvals until a client decides them
+   */
+  public getPermissionBroker(): PermissionBroker {
+    return this.permissionBroker;
+  }
+
+  /**
+   * Register an additional resource for resources/list and resources/read
+   */
+  public registerResource(resource: ResourceProvider): void {
+    if (this.resources.has(resource.uri)) {
+      throw new Error(`Resource already registered: ${resource.uri}`);
+    }
+    this.resources.set(resource.uri, resource);
+  }
 
-    // Conditionally add Claude Code tool if enabled
-    const claudeCodeTool = getClaudeCodeToolDefinition();
-    if (claudeCodeTool) {
-      tools.push(claudeCodeTool);
+  /**
+   * Register an additional prompt for prompts/list and prompts/get
+   */
+  public registerPrompt(prompt: PromptDefinition): void {
+    if (this.prompts.has(prompt.name)) {
+      throw new Error(`Prompt already registered: ${prompt.name}`);
     }
+    this.prompts.set(prompt.name, prompt);
+  }
 
-    // Add Gemini tool
-    const geminiTool = getGeminiToolDefinition();
-    tools.push(geminiTool);
+  /**
+   * List registered resources
+   */
+  public listResources(): ResourceProvider[] {
+    return Array.from(this.resources.values());
+  }
 
-    // Add Codex tool
-    const codexTool = getCodexToolDefinition();
-    tools.push(codexTool);
+  /**
+   * List registered prompts
+   */
+  public listPrompts(): PromptDefinition[] {
+    return Array.from(this.prompts.values());
+  }
 
-    return { tools };
+  /**
+   * Register the resources shipped with the server
+   */
+  private registerBuiltinResources(): void {
+    this.registerResource({
+      uri: 'config://server',
+      name: 'Server Configuration',
+      description: 'Current server configuration',
+      mimeType: 'application/json',
+      read: () => JSON.stringify({
+        name: this.config.name,
+        version: this.config.version,
+        environment: process.env.NODE_ENV || 'development',
+        port: process.env.PORT || '3050',
+      }, null, 2),
+    });
+
+    this.registerResource({
+      uri: 'stats://system',
+      name: 'System Statistics',
+      description: 'Current system statistics',
+      mimeType: 'application/json',
+      read: () => JSON.stringify({
+        uptime: process.uptime(),
+        memory: process.memoryUsage(),
+        timestamp: new Date().toISOString(),
+      }, null, 2),
+    });
+
+    this.registerResource({
+      uri: 'usage://summary',
+      name: 'Usage Summary',
+      description: 'Cost, token and turn usage of REST API sessions by API key, model and day',
+      mimeType: 'application/json',
+      read: () => JSON.stringify(this.usageAccounting.getSummary(), null, 2),
+    });
   }
 
   /**
-   * Handle call tool request
+   * Register all request handlers
    */
-  private async handleCallTool(request: CallToolRequest, extra?: MCPRequestContext): Promise<any> {
-    const { name, arguments: args } = request.params;
+  private registerHandlers(server: Server, permissionScope: string): void {
+    // Tools
+    server.setRequestHandler(ListToolsRequestSchema, this.handleListTools.bind(this));
+    server.setRequestHandler(CallToolRequestSchema, (request, extra) => this.handleCallTool(request, server, permissionScope, extra));
 
-    switch (name) {
-      case 'execute_command': {
-        const command = args?.command as string;
-        const cwd = args?.cwd as string | undefined;
-        const timeout = args?.timeout as number | undefined || 0;
+    // Resources
+    server.setRequestHandler(ListResourcesRequestSchema, this.handleListResources.bind(this));
+    server.setRequestHandler(ReadResourceRequestSchema, this.handleReadResource.bind(this));
 
-        if (!command) {
-          throw new Error('Command is required');
-        }
+    // Prompts
+    server.setRequestHandler(ListPromptsRequestSchema, this.handleListPrompts.bind(this));
+    server.setRequestHandler(GetPromptRequestSchema, this.handleGetPrompt.bind(this));
 
-        this.sendLog('debug', 'execute_command', {
-          message: 'Request received',
-          command,
-          cwd: cwd || 'current directory',
-          timeout
-        }, extra?.sendNotification);
-
-        try {
-          const startTime = Date.now();
-          const execOptions: any = {
-            encoding: 'utf8',
-            cwd: cwd || process.cwd(),
-            stdio: 'pipe',
-          };
-          
-          // Only set timeout if it's greater than 0
-          if (timeout > 0) {
-            execOptions.timeout = timeout;
-          }
-          
-          const output = execSync(command, execOptions);
-
-          const executionTime = Date.now() - startTime;
-
-          this.sendLog('info', 'execute_command', {
-            message: `Command executed successfully in ${executionTime}ms`,
-            command,
-            outputLength: output.length,
-            outputPreview: output.slice(0, 200) + (output.length > 200 ? '...' : '')
-          });
+    // Logging
+    server.setRequestHandler(SetLevelRequestSchema, this.handleSetLoggingLevel.bind(this));
+  }
 
-          return {
-            content: [
-              {
-                type: 'text',
-                text: output || 'Command executed successfully with no output',
-              },
-            ],
-          };
-        } catch (error: any) {
-          const errorMessage = error.stderr || error.message || 'Command execution failed';
-          const exitCode = error.status !== undefined ? error.status : 'unknown';
-
-          this.sendLog('error', 'execute_command', {
-            message: 'Command failed',
-            command,
-            exitCode,
-            errorMessage
-          });
+  /**
+   * Handle list tools request
+   */
+  private async handleListTools(_request: ListToolsRequest): Promise<{ tools: ToolDefinition[] }> {
+    return { tools: this.agentRegistry.getToolDefinitions() };
+  }
 
-          return {
-            content: [
-              {
-                type: 'text',
-                text: `Command failed with exit code ${exitCode}: ${errorMessage}`,
-              },
-            ],
-          };
-        }
-      }
+  /**
+   * Handle call tool request
+   */
+  private async handleCallTool(request: CallToolRequest, server: Server, permissionScope: string, extra?: MCPRequestContext): Promise<any> {
+    const { name, arguments: args } = request.params;
 
-      case 'claude_code_query': {
-        if (!isClaudeCodeQueryArgs(args)) {
-          throw new Error('Invalid arguments for claude_code_query: prompt is required');
-        }
-        this.sendLog('info', 'claude_code_query', { message: 'Processing Claude Code query', prompt: args.prompt });
-        try {
-          const result = await handleClaudeCodeQuery(args, extra?.sendNotification, extra?.signal);
-          this.sendLog('info', 'claude_code_query', { message: 'Claude Code query completed successfully' });
-          return result;
-        } catch (error: any) {
-          this.sendLog('error', 'claude_code_query', { message: 'Claude Code query failed', error: error.message });
-          throw error;
-        }
-      }
+    const provider = this.agentRegistry.findByToolName(name);
+    if (!provider) {
+      throw new Error(`Unknown tool: ${name}`);
+    }
 
-      case 'gemini_query': {
-        if (!isGeminiQueryArgs(args)) {
-          throw new Error('Invalid arguments for gemini_query: prompt is required');
-        }
-        return await handleGeminiQuery(args, extra?.signal);
-      }
+    if (!provider.isValidArgs(args)) {
+      const detail = provider.invalidArgumentsMessage ? `: ${provider.invalidArgumentsMessage}` : '';
+      throw new Error(`Invalid arguments for ${name}${detail}`);
+    }
 
-      case 'codex_query': {
-        if (!isCodexQueryArgs(args)) {
-          throw new Error('Invalid arguments for codex_query: prompt is required');
-        }
-        return await handleCodexQuery(args, extra?.sendNotification, extra?.signal);
-      }
+    return await provider.handle(args, {
+      sendNotification: extra?.sendNotification,
+      signal: extra?.signal,
+      log: (level, logger, data) => this.sendLog(level, logger, data, extra?.sendNotification),
+      requestPermission: this.createElicitationPermissionHandler(server, permissionScope, extra),
+    });
+  }
 
-      default:
-        throw new Error(`Unknown tool: ${name}`);
+  /**
+   * Ask MCP clients that support elicitation to approve tool uses
+   */
+  private createElicitationPermissionHandler(server: Server, permissionScope: string, extra?: MCPRequestContext): PermissionHandler | undefined {
+    const sendRequest = extra?.sendRequest;
+    if (!sendRequest || !server.getClientCapabilities()?.elicitation) {
+      return undefined;
     }
+
+    return prompt => this.permissionBroker.requestPermission(permissionScope, prompt, request => {
+      sendRequest({
+        method: 'elicitation/create',
+        params: {
+          message: `Allow ${request.toolName}?\n\n${JSON.stringify(request.input, null, 2)}`,
+          requestedSchema: {
+            type: 'object',
+            properties: {
+              decision: { type: 'string', enum: ['allow', 'deny'], description: 'Allow or deny this tool use' },
+              remember: { type: 'boolean', description: 'Apply this decision to later uses of the tool' },
+            },
+            required: ['decision'],
+          },
+        },
+      }, ElicitResultSchema, { signal: extra?.signal, timeout: new Date(request.expiresAt).getTime() - Date.now() })
+        .then(result => {
+          const allowed = result.action === 'accept' && result.content?.decision === 'allow';
+          this.permissionBroker.respond(request.requestId, {
+            behavior: allowed ? 'allow' : 'deny',
+            remember: result.action === 'accept' && result.content?.remember === true,
+          });
+        })
+        .catch(error => {
+          this.permissionBroker.respond(request.requestId, { behavior: 'deny', message: `Permission request failed: ${error.message}` });
+        });
+    }, extra?.signal);
   }
 
   /**
@@ -285,20 +383,12 @@ export class CoreMCPServer {
    */
   private async handleListResources(_request: ListResourcesRequest): Promise<any> {
     return {
-      resources: [
-        {
-          uri: 'config://server',
-          name: 'Server Configuration',
-          description: 'Current server configuration',
-          mimeType: 'application/json',
-        },
-        {
-          uri: 'stats://system',
-          name: 'System Statistics',
-          description: 'Current system statistics',
-          mimeType: 'application/json',
-        },
-      ],
+      resources: this.listResources().map(resource => ({
+        uri: resource.uri,
+        name: resource.name,
+        description: resource.description,
+        mimeType: resource.mimeType,
+      })),
     };
   }
 
@@ -308,48 +398,27 @@ export class CoreMCPServer {
   private async handleReadResource(request: ReadResourceRequest): Promise<any> {
     const { uri } = request.params;
 
-    switch (uri) {
-      case 'config://server':
-        return {
-          contents: [
-            {
-              uri: 'config://server',
-              mimeType: 'application/json',
-              text: JSON.stringify({
-                name: this.config.name,
-                version: this.config.version,
-                environment: process.env.NODE_ENV || 'development',
-                port: process.env.PORT || '3050',
-              }, null, 2),
-            },
-          ],
-        };
-
-      case 'stats://system':
-        return {
-          contents: [
-            {
-              uri: 'stats://system',
-              mimeType: 'application/json',
-              text: JSON.stringify({
-                uptime: process.uptime(),
-                memory: process.memoryUsage(),
-                timestamp: new Date().toISOString(),
-              }, null, 2),
-            },
-          ],
-        };
-
-      default:
-        throw new Error(`Unknown resource: ${uri}`);
+    const resource = this.resources.get(uri);
+    if (!resource) {
+      throw new Error(`Unknown resource: ${uri}`);
     }
+
+    return {
+      contents: [
+        {
+          uri,
+          mimeType: resource.mimeType,
+          text: await resource.read(),
+        },
+      ],
+    };
   }
 
   /**
    * Handle list prompts request
    */
   private async handleListPrompts(_request: ListPromptsRequest): Promise<any> {
-    const prompts = Object.values(promptsData.prompts).map(prompt => ({
+    const prompts = this.listPrompts().map(prompt => ({
       name: prompt.name,
       description: prompt.description,
       arguments: prompt.arguments
@@ -364,7 +433,7 @@ export class CoreMCPServer {
   private async handleGetPrompt(request: GetPromptRequest): Promise<any> {
     const { name, arguments: args } = request.params;
 
-    const prompt = promptsData.prompts[name as keyof typeof promptsData.prompts];
+    const prompt = this.prompts.get(name);
 
     if (!prompt) {
       throw new Error(`Unknown prompt: ${name}`);
@@ -0,0 +1,175 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { pathToFileURL } from 'url';
+import * as yaml from 'js-yaml';
+import { AgentProvider } from './agent-registry';
+import { CoreMCPServer, PromptDefinition, ResourceProvider } from './mcp-server-core';
+import { log } from '../utils/logger';
+
+/**
+ * Shape of a plugin module's export
+ * A module may export this object directly, as its default export, or as a
+ * (possibly async) factory that receives the core server and returns it.
+ */
+export interface MCPPlugin {
+  name?: string;
+  agents?: AgentProvider[];
+  tools?: AgentProvider[];
+  resources?: ResourceProvider[];
+  prompts?: PromptDefinition[];
+  register?(coreServer: CoreMCPServer): void | Promise<void>;
+}
+
+export type MCPPluginFactory = (coreServer: CoreMCPServer) => MCPPlugin | Promise<MCPPlugin>;
+
+export interface PluginLoaderOptions {
+  plugins?: string[]; // Module paths or npm package names
+  pluginDirs?: string[]; // Directories whose entries are each loaded as a plugin
+  baseDir?: string; // Base for relative paths and package resolution (default: process.cwd())
+}
+
+export interface PluginConfigFile {
+  plugins?: string[];
+  pluginDirs?: string[];
+}
+
+export interface LoadedPlugin {
+  name: string;
+  source: string;
+  agents: string[];
+  resources: string[];
+  prompts: string[];
+}
+
+const PLUGIN_FILE_EXTENSIONS = ['.js', '.cjs', '.mjs'];
+
+/**
+ * Read a JSON or YAML config file listing plugins
+ * Relative entries are resolved against the config file's directory.
+ */
+export function readPluginConfigFile(configPath: string): Required<PluginConfigFile> {
+  const resolvedPath = path.resolve(configPath);
+  const raw = fs.readFileSync(resolvedPath, 'utf-8');
+  const parsed = (/\.ya?ml$/i.test(resolvedPath) ? yaml.load(raw) : JSON.parse(raw)) as PluginConfigFile | null;
+  const baseDir = path.dirname(resolvedPath);
+
+  const resolveEntry = (entry: string) => isPathSpecifier(entry) ? path.resolve(baseDir, entry) : entry;
+
+  return {
+    plugins: (parsed?.plugins || []).map(resolveEntry),
+    pluginDirs: (parsed?.pluginDirs || []).map(dir => path.resolve(baseDir, dir)),
+  };
+}
+
+/**
+ * Load plugins and register their providers, resources and prompts with the core server
+ */
+export async function loadPlugins(coreServer: CoreMCPServer, options: PluginLoaderOptions): Promise<LoadedPlugin[]> {
+  const baseDir = options.baseDir || process.cwd();
+  const specifiers = [...(options.plugins || [])];
+
+  for (const dir of options.pluginDirs || []) {
+    specifiers.push(...listPluginDirectory(path.resolve(baseDir, dir)));
+  }
+
+  const loaded: LoadedPlugin[] = [];
+  for (const specifier of specifiers) {
+    loaded.push(await loadPlugin(coreServer, specifier, baseDir));
+  }
+  return loaded;
+}
+
+/**
+ * Load a single plugin module and register its contents
+ */
+export async function loadPlugin(coreServer: CoreMCPServer, specifier: string, baseDir: string = process.cwd()): Promise<LoadedPlugin> {
+  const modulePath = resolvePluginPath(specifier, baseDir);
+  const moduleExports = await importModule(modulePath);
+
+  let plugin: unknown = moduleExports?.default ?? moduleExports;
+  if (typeof plugin === 'function') {
+    plugin = await (plugin as MCPPluginFactory)(coreServer);
+  }
+  if (typeof plugin !== 'object' || plugin === null) {
+    throw new Error(`Plugin ${specifier} does not export a plugin object or factory`);
+  }
+
+  const { name, agents = [], tools = [], resources = [], prompts = [], register } = plugin as MCPPlugin;
+  const registry = coreServer.getAgentRegistry();
+
+  for (const provider of [...agents, ...tools]) {
+    registry.register(provider);
+  }
+  for (const resource of resources) {
+    coreServer.registerResource(resource);
+  }
+  for (const prompt of prompts) {
+    coreServer.registerPrompt(prompt);
+  }
+  if (register) {
+    await register.call(plugin, coreServer);
+  }
+
+  const result: LoadedPlugin = {
+    name: name || specifier,
+    source: modulePath,
+    agents: [...agents, ...tools].map(provider => provider.toolName),
+    resources: resources.map(resource => resource.uri),
+    prompts: prompts.map(prompt => prompt.name),
+  };
+
+  log('[plugin-loader] Plugin loaded:', result);
+
+  return result;
+}
+
+/**
+ * List loadable entries in a plugin directory: module files and package directories
+ */
+function listPluginDirectory(dir: string): string[] {
+  if (!fs.existsSync(dir)) {
+    throw new Error(`Plugin directory not found: ${dir}`);
+  }
+
+  return fs.readdirSync(dir, { withFileTypes: true })
+    .filter(entry => !entry.name.startsWith('.'))
+    .filter(entry => entry.isDirectory() || PLUGIN_FILE_EXTENSIONS.includes(path.extname(entry.name)))
+    .map(entry => path.join(dir, entry.name))
+    .sort();
+}
+
+function isPathSpecifier(specifier: string): boolean {
+  return specifier.startsWith('.') || path.isAbsolute(specifier);
+}
+
+/**
+ * Resolve a plugin specifier to a module path: file paths relative to baseDir,
+ * everything else as an npm package installed next to baseDir or this package
+ */
+function resolvePluginPath(specifier: string, baseDir: string): string {
+  if (isPathSpecifier(specifier)) {
+    return require.resolve(path.resolve(baseDir, specifier));
+  }
+
+  try {
+    return require.resolve(specifier, { paths: [baseDir, __dirname] });
+  } catch {
+    throw new Error(`Plugin package not found: ${specifier}`);
+  }
+}
+
+/**
+ * Import a module, falling back to native ESM import for modules require() cannot load
+ */
+async function importModule(modulePath: string): Promise<any> {
+  try {
+    return require(modulePath);
+  } catch (error: any) {
+    if (error.code !== 'ERR_REQUIRE_ESM') {
+      throw error;
+    }
+    // Keep a real dynamic import; TypeScript would otherwise compile it to require()
+    const nativeImport = new Function('specifier', 'return import(specifier)') as (specifier: string) => Promise<any>;
+    return nativeImport(pathToFileURL(modulePath).href);
+  }
+}
@@ -2,12 +2,27 @@ import { CoreMCPServer } from './mcp-server-core';
 import { MCPTransport } from './transport-interface';
 import { HttpTransport, HttpTransportConfig } from '../transports/http-transport';
 import { StdioTransport, StdioTransportConfig } from '../transports/stdio-transport';
+import { WebSocketTransport, WebSocketTransportConfig } from '../transports/websocket-transport';
 
-export type TransportType = 'stdio' | 'http';
+export type TransportType = 'stdio' | 'http' | 'websocket';
+
+export const TRANSPORT_TYPES: TransportType[] = ['stdio', 'http', 'websocket'];
 
 export interface TransportFactoryConfig {
   type: TransportType;
-  config?: HttpTransportConfig | StdioTransportConfig;
+  config?: HttpTransportConfig | StdioTransportConfig | WebSocketTransportConfig;
+}
+
+/**
+ * Parse a comma-separated list of transport types, e.g. "stdio,http"
+ */
+export function parseTransportTypes(value: string): TransportType[] {
+  const types = [...new Set(value.split(',').map(type => type.trim()).filter(Boolean))];
+  const invalid = types.filter(type => !TRANSPORT_TYPES.includes(type as TransportType));
+  if (types.length === 0 || invalid.length > 0) {
+    throw new Error(`Invalid transport type: ${invalid.join(', ') || value}. Valid options are: ${TRANSPORT_TYPES.join(', ')}`);
+  }
+  return types as TransportType[];
 }
 
 /**
@@ -32,6 +47,10 @@ export class TransportFactory {
         transport = new HttpTransport(coreServer, options.config as HttpTransportConfig || {});
         break;
       
+      case 'websocket':
+        transport = new WebSocketTransport(coreServer, options.config as WebSocketTransportConfig || {});
+        break;
+      
       default:
         throw new Error(`Unknown transport type: ${options.type}`);
     }
@@ -41,4 +60,18 @@ export class TransportFactory {
     
     return transport;
   }
+
+  /**
+   * Create several transports over the same core server, so they share its agents, jobs and sessions
+   */
+  static async createTransports(
+    coreServer: CoreMCPServer,
+    options: TransportFactoryConfig[]
+  ): Promise<MCPTransport[]> {
+    const transports: MCPTransport[] = [];
+    for (const transportOptions of options) {
+      transports.push(await TransportFactory.createTransport(coreServer, transportOptions));
+    }
+    return transports;
+  }
 }
\ No newline at end of file
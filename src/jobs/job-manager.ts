@@ -0,0 +1,274 @@
+import { randomUUID } from 'crypto';
+import { EventEmitter } from 'events';
+import { AgentProvider, AgentRegistry } from '../core/agent-registry';
+import { log, error as logError } from '../utils/logger';
+import { AgentJob, JobMessageRecord, JobStatus, JobStore, SQLiteJobStore } from './sqlite-job-store';
+
+export interface JobManagerConfig {
+  dbPath?: string; // Database file path (optional - uses MCP_DATABASE_PATH or user data dir)
+  maxConcurrentJobs?: number; // Default: MCP_MAX_CONCURRENT_JOBS or 10
+  store?: JobStore; // Override the SQLite store (e.g. for tests)
+}
+
+export interface JobOutput {
+  job: AgentJob;
+  messages: JobMessageRecord[];
+  nextSequence: number; // Pass as afterSequence to continue reading
+  hasMore: boolean;
+}
+
+interface RunningJob {
+  abortController: AbortController;
+  sequence: number;
+}
+
+const TERMINAL_STATUSES: JobStatus[] = ['completed', 'failed', 'cancelled'];
+
+/**
+ * Runs agent queries in the background and persists their status and messages
+ */
+export class JobManager {
+  private registry: AgentRegistry;
+  private config: JobManagerConfig;
+  private storeInstance: JobStore | null = null;
+  private running: Map<string, RunningJob> = new Map();
+  private queue: string[] = [];
+  private events: EventEmitter = new EventEmitter();
+  private maxConcurrentJobs: number;
+  private closed = false; // Set by shutdown(); agents finishing afterwards are ignored
+
+  constructor(registry: AgentRegistry, config: JobManagerConfig = {}) {
+    this.registry = registry;
+    this.config = config;
+    this.maxConcurrentJobs = config.maxConcurrentJobs
+      || (process.env.MCP_MAX_CONCURRENT_JOBS ? parseInt(process.env.MCP_MAX_CONCURRENT_JOBS, 10) : 10);
+    this.events.setMaxListeners(0);
+  }
+
+  /**
+   * Open the store on first use; jobs left running by a server process that has exited are marked failed
+   */
+  private get store(): JobStore {
+    if (!this.storeInstance) {
+      this.storeInstance = this.config.store || new SQLiteJobStore(this.config.dbPath);
+      const interrupted = this.storeInstance.failInterruptedJobs('Server restarted before the job finished');
+      if (interrupted > 0) {
+        log('[job-manager] Marked interrupted jobs as failed:', { interrupted });
+      }
+    }
+    return this.storeInstance;
+  }
+
+  /**
+   * Resolve an agent by provider id or tool name
+   */
+  resolveAgent(agent: string): AgentProvider {
+    const provider = this.registry.get(agent) || this.registry.findByToolName(agent);
+    if (!provider) {
+      throw new Error(`Unknown agent: ${agent}`);
+    }
+    return provider;
+  }
+
+  /**
+   * Start an agent query in the background
+   */
+  startJob(agent: string, args: unknown): AgentJob {
+    const provider = this.resolveAgent(agent);
+
+    if (!provider.isValidArgs(args)) {
+      const detail = provider.invalidArgumentsMessage ? `: ${provider.invalidArgumentsMessage}` : '';
+      throw new Error(`Invalid arguments for ${provider.toolName}${detail}`);
+    }
+
+    const job: AgentJob = {
+      jobId: randomUUID(),
+      agent: provider.id,
+      toolName: provider.toolName,
+      args,
+      status: 'queued',
+      createdAt: new Date().toISOString(),
+      messageCount: 0
+    };
+
+    this.store.createJob(job);
+    this.queue.push(job.jobId);
+
+    log('[job-manager] Job queued:', { jobId: job.jobId, agent: job.agent });
+
+    this.drainQueue();
+    return this.store.getJob(job.jobId) || job;
+  }
+
+  /**
+   * Get a job by ID
+   */
+  getJob(jobId: string): AgentJob | null {
+    return this.store.getJob(jobId);
+  }
+
+  /**
+   * List jobs, newest first
+   */
+  listJobs(status?: JobStatus, limit?: number): AgentJob[] {
+    return this.store.listJobs(status, limit);
+  }
+
+  /**
+   * Cancel a queued or running job
+   */
+  cancelJob(jobId: string): AgentJob | null {
+    const job = this.store.getJob(jobId);
+    if (!job) {
+      return null;
+    }
+    if (TERMINAL_STATUSES.includes(job.status)) {
+      return job;
+    }
+
+    this.queue = this.queue.filter(id => id !== jobId);
+    this.running.get(jobId)?.abortController.abort();
+    this.finishJob(jobId, { status: 'cancelled', error: 'Cancelled by client' });
+
+    log('[job-manager] Job cancelled:', { jobId });
+    return this.store.getJob(jobId);
+  }
+
+  /**
+   * Read streamed messages after a sequence number
+   * With waitMs, waits for new messages or completion before returning (long poll)
+   */
+  async getOutput(jobId: string, afterSequence: number = 0, limit: number = 100, waitMs: number = 0): Promise<JobOutput | null> {
+    let job = this.store.getJob(jobId);
+    if (!job) {
+      return null;
+    }
+
+    let messages = this.store.getMessages(jobId, afterSequence, limit);
+    if (messages.length === 0 && waitMs > 0 && !TERMINAL_STATUSES.includes(job.status)) {
+      await this.waitForActivity(jobId, waitMs);
+      job = this.store.getJob(jobId)!;
+      messages = this.store.getMessages(jobId, afterSequence, limit);
+    }
+
+    const nextSequence = messages.length > 0 ? messages[messages.length - 1].sequence : afterSequence;
+    return {
+      job,
+      messages,
+      nextSequence,
+      hasMore: nextSequence < job.messageCount
+    };
+  }
+
+  /**
+   * Abort running jobs and close the store (for graceful shutdown)
+   */
+  shutdown(): void {
+    for (const [jobId, running] of this.running) {
+      running.abortController.abort();
+      this.finishJob(jobId, { status: 'cancelled', error: 'Server shutting down' });
+    }
+    this.queue = [];
+    this.closed = true;
+    this.storeInstance?.close();
+    this.storeInstance = null;
+  }
+
+  private waitForActivity(jobId: string, waitMs: number): Promise<void> {
+    return new Promise(resolve => {
+      const done = () => {
+        clearTimeout(timer);
+        this.events.off(jobId, done);
+        resolve();
+      };
+      const timer = setTimeout(done, waitMs);
+      this.events.on(jobId, done);
+    });
+  }
+
+  private drainQueue(): void {
+    while (this.running.size < this.maxConcurrentJobs && this.queue.length > 0) {
+      const jobId = this.queue.shift()!;
+      this.runJob(jobId);
+    }
+  }
+
+  private runJob(jobId: string): void {
+    const job = this.store.getJob(jobId);
+    if (!job || job.status !== 'queued') {
+      return;
+    }
+
+    const provider = this.registry.get(job.agent);
+    if (!provider) {
+      this.finishJob(jobId, { status: 'failed', error: `Agent no longer registered: ${job.agent}` });
+      return;
+    }
+
+    const runningJob: RunningJob = { abortController: new AbortController(), sequence: 0 };
+    this.running.set(jobId, runningJob);
+    this.store.updateJob(jobId, { status: 'running', startedAt: new Date().toISOString() });
+
+    log('[job-manager] Job started:', { jobId, agent: job.agent });
+
+    // Persist every notification the agent emits as a job message
+    const sendNotification = async (notification: any) => {
+      if (this.closed) {
+        return;
+      }
+      const params = notification?.params || {};
+      let data = params.data;
+      if (typeof data === 'string') {
+        try {
+          data = JSON.parse(data);
+        } catch {
+          // Keep plain-text notifications as-is
+        }
+      }
+
+      runningJob.sequence++;
+      this.store.saveMessage(jobId, runningJob.sequence, params.level, data);
+      this.store.updateJob(jobId, { messageCount: runningJob.sequence });
+      this.events.emit(jobId);
+    };
+
+    provider.handle(job.args, {
+      sendNotification,
+      signal: runningJob.abortController.signal,
+      log: (level, logger, data) => log(`[${level}] [${logger}] [job ${jobId}]`, data),
+    })
+      .then(result => {
+        this.finishJob(jobId, {
+          status: result?.isError ? 'failed' : 'completed',
+          result
+        });
+      })
+      .catch(error => {
+        if (this.closed) {
+          return;
+        }
+        logError('[job-manager] Job failed:', { jobId, error: error?.message });
+        this.finishJob(jobId, { status: 'failed', error: error?.message || 'Unknown error' });
+      });
+  }
+
+  private finishJob(jobId: string, updates: Partial<AgentJob>): void {
+    if (this.closed) {
+      return;
+    }
+    const current = this.store.getJob(jobId);
+    if (current && TERMINAL_STATUSES.includes(current.status)) {
+      // Keep the cancellation status but record whatever the agent returned
+      if (updates.result !== undefined) {
+        this.store.updateJob(jobId, { result: updates.result });
+      }
+    } else {
+      this.store.updateJob(jobId, { ...updates, finishedAt: new Date().toISOString() });
+    }
+
+    if (this.running.delete(jobId)) {
+      this.drainQueue();
+    }
+    this.events.emit(jobId);
+  }
+}
@@ -0,0 +1,187 @@
+import type { AgentProvider } from '../core/agent-registry';
+import { JobManager } from './job-manager';
+import { JobStatus } from './sqlite-job-store';
+
+const JOB_STATUSES: JobStatus[] = ['queued', 'running', 'completed', 'failed', 'cancelled'];
+
+const NO_CAPABILITIES = { streaming: false, cancellation: false, resume: false };
+
+export interface StartAgentJobArgs {
+  agent: string;
+  args: Record<string, unknown>;
+}
+
+export interface JobIdArgs {
+  jobId: string;
+}
+
+export interface ListAgentJobsArgs {
+  status?: JobStatus;
+  limit?: number;
+}
+
+export interface GetAgentJobOutputArgs {
+  jobId: string;
+  afterSequence?: number;
+  limit?: number;
+  waitMs?: number;
+}
+
+/**
+ * Format a job tool response as JSON text plus structured content
+ */
+function jsonResult(value: object) {
+  return {
+    content: [{ type: 'text' as const, text: JSON.stringify(value, null, 2) }],
+    structuredContent: value,
+  };
+}
+
+function isJobIdArgs(args: unknown): args is JobIdArgs {
+  return typeof args === 'object' && args !== null && typeof (args as any).jobId === 'string';
+}
+
+/**
+ * Create the MCP tool providers that expose a JobManager
+ */
+export function createJobToolProviders(jobManager: JobManager): AgentProvider[] {
+  const startAgentJob: AgentProvider<StartAgentJobArgs> = {
+    id: 'start_agent_job',
+    toolName: 'start_agent_job',
+    kind: 'tool',
+    capabilities: NO_CAPABILITIES,
+    invalidArgumentsMessage: 'agent and args are required',
+    getToolDefinition: () => ({
+      name: 'start_agent_job',
+      description: 'Start an agent query in the background and return a job ID to poll',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          agent: { type: 'string', description: 'Agent id (e.g. claude, codex, gemini) or tool name (e.g. claude_code_query)' },
+          args: { type: 'object', description: 'Arguments for the agent tool, e.g. { "prompt": "..." }' },
+        },
+        required: ['agent', 'args'],
+      },
+    }),
+    isValidArgs: (args: unknown): args is StartAgentJobArgs =>
+      typeof args === 'object' && args !== null &&
+      typeof (args as any).agent === 'string' &&
+      typeof (args as any).args === 'object' && (args as any).args !== null,
+    handle: async (args) => jsonResult({ job: jobManager.startJob(args.agent, args.args) }),
+  };
+
+  const getAgentJob: AgentProvider<JobIdArgs> = {
+    id: 'get_agent_job',
+    toolName: 'get_agent_job',
+    kind: 'tool',
+    capabilities: NO_CAPABILITIES,
+    invalidArgumentsMessage: 'jobId is required',
+    getToolDefinition: () => ({
+      name: 'get_agent_job',
+      description: 'Get the status and, once finished, the result of a background agent job',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          jobId: { type: 'string', description: 'Job ID returned by start_agent_job' },
+        },
+        required: ['jobId'],
+      },
+    }),
+    isValidArgs: isJobIdArgs,
+    handle: async (args) => {
+      const job = jobManager.getJob(args.jobId);
+      if (!job) {
+        throw new Error(`Job not found: ${args.jobId}`);
+      }
+      return jsonResult({ job });
+    },
+  };
+
+  const listAgentJobs: AgentProvider<ListAgentJobsArgs> = {
+    id: 'list_agent_jobs',
+    toolName: 'list_agent_jobs',
+    kind: 'tool',
+    capabilities: NO_CAPABILITIES,
+    getToolDefinition: () => ({
+      name: 'list_agent_jobs',
+      description: 'List background agent jobs, newest first',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          status: { type: 'string', enum: JOB_STATUSES, description: 'Only list jobs with this status' },
+          limit: { type: 'number', description: 'Maximum jobs to return (default: 100)' },
+        },
+      },
+    }),
+    isValidArgs: (args: unknown): args is ListAgentJobsArgs => {
+      if (args === undefined) return true;
+      if (typeof args !== 'object' || args === null) return false;
+      const { status, limit } = args as any;
+      return (status === undefined || JOB_STATUSES.includes(status)) &&
+        (limit === undefined || typeof limit === 'number');
+    },
+    handle: async (args = {}) => {
+      const jobs = jobManager.listJobs(args.status, args.limit);
+      return jsonResult({ jobs, total: jobs.length });
+    },
+  };
+
+  const cancelAgentJob: AgentProvider<JobIdArgs> = {
+    id: 'cancel_agent_job',
+    toolName: 'cancel_agent_job',
+    kind: 'tool',
+    capabilities: NO_CAPABILITIES,
+    invalidArgumentsMessage: 'jobId is required',
+    getToolDefinition: () => ({
+      name: 'cancel_agent_job',
+      description: 'Cancel a queued or running background agent job',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          jobId: { type: 'string', description: 'Job ID returned by start_agent_job' },
+        },
+        required: ['jobId'],
+      },
+    }),
+    isValidArgs: isJobIdArgs,
+    handle: async (args) => {
+      const job = jobManager.cancelJob(args.jobId);
+      if (!job) {
+        throw new Error(`Job not found: ${args.jobId}`);
+      }
+      return jsonResult({ job });
+    },
+  };
+
+  const getAgentJobOutput: AgentProvider<GetAgentJobOutputArgs> = {
+    id: 'get_agent_job_output',
+    toolName: 'get_agent_job_output',
+    kind: 'tool',
+    capabilities: NO_CAPABILITIES,
+    invalidArgumentsMessage: 'jobId is required',
+    getToolDefinition: () => ({
+      name: 'get_agent_job_output',
+      description: 'Read messages streamed by a background agent job, optionally waiting for new ones',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          jobId: { type: 'string', description: 'Job ID returned by start_agent_job' },
+          afterSequence: { type: 'number', description: 'Only return messages after this sequence number (default: 0)' },
+          limit: { type: 'number', description: 'Maximum messages to return (default: 100)' },
+          waitMs: { type: 'number', description: 'Wait up to this many milliseconds for new messages when none are available (default: 0)' },
+        },
+        required: ['jobId'],
+      },
+    }),
+    isValidArgs: isJobIdArgs,
+    handle: async (args) => {
+      const output = await jobManager.getOutput(args.jobId, args.afterSequence, args.limit, args.waitMs);
+      if (!output) {
+        throw new Error(`Job not found: ${args.jobId}`);
+      }
+      return jsonResult(output);
+    },
+  };
+
+  return [startAgentJob, getAgentJob, listAgentJobs, cancelAgentJob, getAgentJobOutput];
+}
@@ -0,0 +1,255 @@
+import Database from 'better-sqlite3';
+import * as path from 'path';
+import * as fs from 'fs';
+import { log, error as logError } from '../utils/logger';
+import { resolveDatabasePath } from '../utils/database-path';
+import { INSTANCE_ID, isInstanceAlive } from '../utils/process-instance';
+
+export type JobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+export interface AgentJob {
+  jobId: string;
+  agent: string; // Agent provider id
+  toolName: string;
+  args: unknown;
+  status: JobStatus;
+  result?: unknown;
+  error?: string;
+  createdAt: string;
+  startedAt?: string;
+  finishedAt?: string;
+  messageCount: number;
+}
+
+export interface JobMessageRecord {
+  jobId: string;
+  sequence: number;
+  timestamp: string;
+  level?: string;
+  data: unknown;
+}
+
+export interface JobStore {
+  createJob(job: AgentJob): void;
+  getJob(jobId: string): AgentJob | null;
+  updateJob(jobId: string, updates: Partial<AgentJob>): void;
+  listJobs(status?: JobStatus, limit?: number): AgentJob[];
+
+  // Streamed messages
+  saveMessage(jobId: string, sequence: number, level: string | undefined, data: unknown): void;
+  getMessages(jobId: string, afterSequence?: number, limit?: number): JobMessageRecord[];
+
+  // Maintenance
+  failInterruptedJobs(reason: string): number; // Only jobs whose owning process has exited; call once on open
+  close(): void;
+}
+
+export class SQLiteJobStore implements JobStore {
+  private db: Database.Database;
+
+  constructor(dbPath?: string) {
+    const finalPath = resolveDatabasePath(dbPath);
+
+    // Ensure directory exists
+    const dir = path.dirname(finalPath);
+    if (!fs.existsSync(dir)) {
+      fs.mkdirSync(dir, { recursive: true });
+    }
+
+    try {
+      this.db = new Database(finalPath);
+      this.db.pragma('journal_mode = WAL');
+      this.db.pragma('synchronous = NORMAL');
+
+      this.initializeSchema();
+      log('[sqlite-job-store] Job tables initialized at:', finalPath);
+    } catch (error) {
+      logError('[sqlite-job-store] Failed to initialize database:', error);
+      throw new Error(`Job database initialization failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  private initializeSchema(): void {
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS jobs (
+        jobId TEXT PRIMARY KEY,
+        agent TEXT NOT NULL,
+        toolName TEXT NOT NULL,
+        args TEXT NOT NULL,
+        status TEXT NOT NULL CHECK (status IN ('queued', 'running', 'completed', 'failed', 'cancelled')),
+        result TEXT,
+        error TEXT,
+        createdAt TEXT NOT NULL,
+        startedAt TEXT,
+        finishedAt TEXT,
+        messageCount INTEGER DEFAULT 0,
+        owner TEXT
+      )
+    `);
+
+    // Jobs record the server process running them (see failInterruptedJobs)
+    const columns = this.db.pragma('table_info(jobs)') as Array<{name: string}>;
+    if (!columns.some((col) => col.name === 'owner')) {
+      log('[sqlite-job-store] Running migration: Adding owner column to jobs table');
+      this.db.exec(`
+        ALTER TABLE jobs ADD COLUMN owner TEXT;
+      `);
+    }
+
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS job_messages (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        jobId TEXT NOT NULL,
+        sequence INTEGER NOT NULL,
+        timestamp TEXT NOT NULL,
+        level TEXT,
+        data TEXT NOT NULL,
+        FOREIGN KEY (jobId) REFERENCES jobs(jobId) ON DELETE CASCADE
+      )
+    `);
+
+    this.db.exec(`
+      CREATE INDEX IF NOT EXISTS idx_jobs_status ON jobs(status);
+      CREATE INDEX IF NOT EXISTS idx_jobs_createdAt ON jobs(createdAt);
+      CREATE INDEX IF NOT EXISTS idx_job_messages_sequence ON job_messages(jobId, sequence);
+    `);
+  }
+
+  createJob(job: AgentJob): void {
+    const stmt = this.db.prepare(`
+      INSERT INTO jobs (jobId, agent, toolName, args, status, createdAt, messageCount, owner)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+
+    stmt.run(job.jobId, job.agent, job.toolName, JSON.stringify(job.args), job.status, job.createdAt, job.messageCount, INSTANCE_ID);
+  }
+
+  getJob(jobId: string): AgentJob | null {
+    const row = this.db.prepare('SELECT * FROM jobs WHERE jobId = ?').get(jobId) as any;
+    return row ? this.rowToJob(row) : null;
+  }
+
+  updateJob(jobId: string, updates: Partial<AgentJob>): void {
+    const fields: string[] = [];
+    const values: any[] = [];
+
+    if (updates.status !== undefined) {
+      fields.push('status = ?');
+      values.push(updates.status);
+    }
+    if (updates.result !== undefined) {
+      fields.push('result = ?');
+      values.push(JSON.stringify(updates.result));
+    }
+    if (updates.error !== undefined) {
+      fields.push('error = ?');
+      values.push(updates.error);
+    }
+    if (updates.startedAt !== undefined) {
+      fields.push('startedAt = ?');
+      values.push(updates.startedAt);
+    }
+    if (updates.finishedAt !== undefined) {
+      fields.push('finishedAt = ?');
+      values.push(updates.finishedAt);
+    }
+    if (updates.messageCount !== undefined) {
+      fields.push('messageCount = ?');
+      values.push(updates.messageCount);
+    }
+
+    if (fields.length === 0) return;
+
+    values.push(jobId);
+    this.db.prepare(`UPDATE jobs SET ${fields.join(', ')} WHERE jobId = ?`).run(...values);
+  }
+
+  listJobs(status?: JobStatus, limit: number = 100): AgentJob[] {
+    let query = 'SELECT * FROM jobs';
+    const params: any[] = [];
+
+    if (status) {
+      query += ' WHERE status = ?';
+      params.push(status);
+    }
+
+    query += ' ORDER BY createdAt DESC LIMIT ?';
+    params.push(limit);
+
+    const rows = this.db.prepare(query).all(...params) as any[];
+    return rows.map(row => this.rowToJob(row));
+  }
+
+  saveMessage(jobId: string, sequence: number, level: string | undefined, data: unknown): void {
+    const stmt = this.db.prepare(`
+      INSERT INTO job_messages (jobId, sequence, timestamp, level, data)
+      VALUES (?, ?, ?, ?, ?)
+    `);
+
+    try {
+      stmt.run(jobId, sequence, new Date().toISOString(), level || null, JSON.stringify(data));
+    } catch (error) {
+      logError('[sqlite-job-store] Failed to save message:', error);
+      // Don't throw - message storage failure must not break the job
+    }
+  }
+
+  getMessages(jobId: string, afterSequence: number = 0, limit: number = 100): JobMessageRecord[] {
+    const rows = this.db.prepare(`
+      SELECT * FROM job_messages
+      WHERE jobId = ? AND sequence > ?
+      ORDER BY sequence ASC
+      LIMIT ?
+    `).all(jobId, afterSequence, limit) as any[];
+
+    return rows.map(row => ({
+      jobId: row.jobId,
+      sequence: row.sequence,
+      timestamp: row.timestamp,
+      level: row.level || undefined,
+      data: JSON.parse(row.data)
+    }));
+  }
+
+  failInterruptedJobs(reason: string): number {
+    // Other server processes share the database; leave their jobs alone while they run
+    // Jobs from before owners were recorded have none and count as interrupted, as do jobs
+    // recorded under this process's own id (a restarted container reusing hostname and pid)
+    const owners = this.db.prepare(`
+      SELECT DISTINCT owner FROM jobs WHERE status IN ('queued', 'running')
+    `).all() as Array<{ owner: string | null }>;
+
+    const finishedAt = new Date().toISOString();
+    const stmt = this.db.prepare(`
+      UPDATE jobs SET status = 'failed', error = ?, finishedAt = ?
+      WHERE status IN ('queued', 'running') AND owner IS ?
+    `);
+    let changes = 0;
+    for (const { owner } of owners) {
+      if (owner === null || owner === INSTANCE_ID || !isInstanceAlive(owner)) {
+        changes += stmt.run(reason, finishedAt, owner).changes;
+      }
+    }
+    return changes;
+  }
+
+  close(): void {
+    this.db.close();
+  }
+
+  private rowToJob(row: any): AgentJob {
+    return {
+      jobId: row.jobId,
+      agent: row.agent,
+      toolName: row.toolName,
+      args: JSON.parse(row.args),
+      status: row.status,
+      result: row.result ? JSON.parse(row.result) : undefined,
+      error: row.error || undefined,
+      createdAt: row.createdAt,
+      startedAt: row.startedAt || undefined,
+      finishedAt: row.finishedAt || undefined,
+      messageCount: row.messageCount
+    };
+  }
+}
@@ -0,0 +1,42 @@
+import type { ChangedFile, WorkspaceChanges } from '../workspace/change-tracker';
+
+/**
+ * An agent tool result reduced to the fields every agent can report
+ */
+export interface NormalizedAgentResult {
+  response: string;
+  agentSessionId?: string; // Agent's own session ID for resuming (Claude or Codex)
+  changes?: WorkspaceChanges;
+  usage?: Record<string, number>;
+  costUsd?: number; // Reported by Claude only
+  isError: boolean;
+}
+
+/**
+ * Normalize a tool result: Claude reports `result`, Codex `message`, Gemini `response`;
+ * other agents fall back to their text content
+ */
+export function normalizeAgentResult(result: any): NormalizedAgentResult {
+  const structured = result?.structuredContent || {};
+  const text = (result?.content || [])
+    .filter((block: any) => block.type === 'text')
+    .map((block: any) => block.text)
+    .join('\n');
+
+  return {
+    response: structured.result ?? structured.message ?? structured.response ?? text,
+    agentSessionId: structured.session_id,
+    changes: structured.changes,
+    usage: structured.usage,
+    costUsd: structured.total_cost_usd,
+    isError: result?.isError === true || structured.is_error === true
+  };
+}
+
+/**
+ * Files an agent result reports as changed, from change tracking or its worktree run
+ */
+export function getChangedFiles(result: any): ChangedFile[] {
+  const structured = result?.structuredContent || {};
+  return structured.changes?.files ?? structured.worktree?.files ?? [];
+}
@@ -0,0 +1,311 @@
+import type { AgentProvider, AgentRegistry, AgentRequestContext } from '../../core/agent-registry';
+import { agentRoutingConfig } from '../../config/agent-routing';
+import { log } from '../../utils/logger';
+import type { WorkspaceChanges } from '../workspace/change-tracker';
+import { normalizeAgentResult } from './agent-result';
+
+/**
+ * transient: worth retrying the same agent (rate limits, overload, network)
+ * unavailable: the agent cannot run here (CLI missing, tool disabled); move to the next agent
+ * permanent: retrying or switching agents would not help (bad options, task failure)
+ */
+export type AgentErrorClass = 'transient' | 'unavailable' | 'permanent';
+
+const TRANSIENT_ERROR_PATTERN = /rate.?limit|too many requests|\b429\b|overloaded|\b529\b|\b50[234]\b|temporarily unavailable|ECONNRESET|ETIMEDOUT|ECONNREFUSED|EAI_AGAIN|socket hang up|network error/i;
+const UNAVAILABLE_ERROR_PATTERN = /command not found|ENOENT|not installed|tool is disabled|no longer registered/i;
+
+export interface AgentRoutingPolicy {
+  fallbackChain: string[];
+  retryAttempts: number;
+  retryBaseDelayMs: number;
+  retryMaxDelayMs: number;
+}
+
+export interface CodingAgentQueryArgs {
+  prompt: string;
+  agents?: string[]; // Fallback chain for this request (default: MCP_AGENT_FALLBACK_CHAIN)
+  cwd?: string;
+  timeout?: number; // Per-attempt timeout in milliseconds
+  retryAttempts?: number; // Attempts per agent for transient errors
+  agentOptions?: Record<string, Record<string, unknown>>; // Extra tool options keyed by agent id
+}
+
+/**
+ * One try of one agent
+ */
+export interface RouteAttempt {
+  agent: string;
+  attempt: number;
+  status: 'success' | 'error';
+  durationMs: number;
+  errorClass?: AgentErrorClass;
+  error?: string;
+}
+
+export interface CodingAgentQueryOutput {
+  agent?: string; // Agent that served the request (absent when every agent failed)
+  response: string;
+  sessionId?: string;
+  usage?: Record<string, number>;
+  costUsd?: number;
+  changes?: WorkspaceChanges;
+  attempts: RouteAttempt[];
+}
+
+export interface CodingAgentQueryResult {
+  content: Array<{ type: 'text'; text: string }>;
+  structuredContent: CodingAgentQueryOutput;
+  isError?: boolean;
+}
+
+/**
+ * Classify an agent error message as transient, unavailable or permanent
+ */
+export function classifyAgentError(message: string): AgentErrorClass {
+  if (UNAVAILABLE_ERROR_PATTERN.test(message)) {
+    return 'unavailable';
+  }
+  if (TRANSIENT_ERROR_PATTERN.test(message)) {
+    return 'transient';
+  }
+  return 'permanent';
+}
+
+/**
+ * Backoff before the given retry (attempt 2 waits the base delay, then doubles)
+ */
+export function getRetryDelay(attempt: number, policy: Pick<AgentRoutingPolicy, 'retryBaseDelayMs' | 'retryMaxDelayMs'>): number {
+  return Math.min(policy.retryMaxDelayMs, policy.retryBaseDelayMs * 2 ** (attempt - 2));
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise(resolve => {
+    const timer = setTimeout(done, ms);
+    function done() {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', done);
+      resolve();
+    }
+    signal?.addEventListener('abort', done);
+  });
+}
+
+/**
+ * Type guard to check if an object is valid CodingAgentQueryArgs
+ */
+export function isCodingAgentQueryArgs(args: unknown): args is CodingAgentQueryArgs {
+  if (typeof args !== 'object' || args === null) {
+    return false;
+  }
+  const { prompt, agents, cwd, timeout, retryAttempts, agentOptions } = args as Record<string, unknown>;
+  return (
+    typeof prompt === 'string' && prompt.length > 0 &&
+    (agents === undefined || (Array.isArray(agents) && agents.length > 0 && agents.every(agent => typeof agent === 'string'))) &&
+    (cwd === undefined || typeof cwd === 'string') &&
+    (timeout === undefined || (typeof timeout === 'number' && timeout >= 0)) &&
+    (retryAttempts === undefined || (Number.isInteger(retryAttempts) && (retryAttempts as number) >= 1)) &&
+    (agentOptions === undefined || (typeof agentOptions === 'object' && agentOptions !== null && !Array.isArray(agentOptions)))
+  );
+}
+
+/**
+ * Get the tool definition for coding_agent_query
+ */
+export function getCodingAgentQueryToolDefinition(agentIds: string[], policy: AgentRoutingPolicy) {
+  return {
+    name: 'coding_agent_query',
+    description: 'Send a prompt to the first available coding agent, retrying transient errors (rate limits, overload) with backoff and falling back to the next agent in the chain; reports which agent served the request',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        prompt: { type: 'string', description: 'The prompt to send' },
+        agents: {
+          type: 'array',
+          items: { type: 'string', enum: agentIds },
+          description: `Agents to try, in order (default: ${policy.fallbackChain.join(', ')})`
+        },
+        cwd: { type: 'string', description: 'Working directory for the agent (default: server working directory)' },
+        timeout: { type: 'number', description: 'Per-attempt timeout in milliseconds (default: 0 which means no timeout)' },
+        retryAttempts: { type: 'number', description: `Attempts per agent for transient errors, including the first (default: ${policy.retryAttempts})` },
+        agentOptions: {
+          type: 'object',
+          description: 'Extra options for individual agents, keyed by agent id (e.g. {"codex": {"model": "gpt-5"}})',
+          additionalProperties: { type: 'object' }
+        }
+      },
+      required: ['prompt'],
+    },
+    outputSchema: {
+      type: 'object',
+      properties: {
+        agent: { type: 'string' },
+        response: { type: 'string' },
+        sessionId: { type: 'string' },
+        usage: { type: 'object' },
+        costUsd: { type: 'number' },
+        changes: { type: 'object' },
+        attempts: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              agent: { type: 'string' },
+              attempt: { type: 'number' },
+              status: { type: 'string', enum: ['success', 'error'] },
+              durationMs: { type: 'number' },
+              errorClass: { type: 'string', enum: ['transient', 'unavailable', 'permanent'] },
+              error: { type: 'string' }
+            },
+            required: ['agent', 'attempt', 'status', 'durationMs']
+          }
+        }
+      },
+      required: ['response', 'attempts'],
+    },
+  };
+}
+
+/**
+ * Handle coding_agent_query: walk the fallback chain, retrying transient errors per agent
+ */
+export async function handleCodingAgentQuery(
+  args: CodingAgentQueryArgs,
+  registry: AgentRegistry,
+  policy: AgentRoutingPolicy = agentRoutingConfig,
+  context: AgentRequestContext = {}
+): Promise<CodingAgentQueryResult> {
+  const available = registry.listAgents().map(provider => provider.id);
+  let chain: string[];
+  if (args.agents) {
+    chain = Array.from(new Set(args.agents));
+    const unknown = chain.filter(agent => !available.includes(agent));
+    if (unknown.length > 0) {
+      throw new Error(`Unknown agent(s): ${unknown.join(', ')}. Available: ${available.join(', ')}`);
+    }
+  } else {
+    chain = policy.fallbackChain.filter(agent => available.includes(agent));
+    if (chain.length === 0) {
+      throw new Error(`No agent in the fallback chain is registered: ${policy.fallbackChain.join(', ')}`);
+    }
+  }
+
+  const maxAttempts = args.retryAttempts ?? policy.retryAttempts;
+  const attempts: RouteAttempt[] = [];
+
+  const notify = (event: string, data: Record<string, unknown>) => {
+    context.sendNotification?.({
+      method: 'notifications/message',
+      params: {
+        level: event === 'attempt_failed' ? 'warning' : 'info',
+        logger: 'coding_agent_query',
+        data: JSON.stringify({ type: 'coding_agent_route', event, ...data, timestamp: new Date().toISOString() })
+      }
+    }).catch(() => {
+      // Client may not support notifications; attempts are still reported in the result
+    });
+  };
+
+  const query = async (provider: AgentProvider) => {
+    const toolArgs = {
+      prompt: args.prompt,
+      options: {
+        ...args.agentOptions?.[provider.id],
+        ...(args.cwd && { cwd: args.cwd }),
+        ...(args.timeout !== undefined && { timeout: args.timeout })
+      }
+    };
+    if (!provider.isValidArgs(toolArgs)) {
+      throw new Error(`Invalid arguments for ${provider.toolName}: ${provider.invalidArgumentsMessage || 'invalid arguments'}`);
+    }
+    return provider.handle(toolArgs, context);
+  };
+
+  let lastError = 'No agent attempted';
+  for (const [index, agent] of chain.entries()) {
+    const provider = registry.get(agent)!;
+
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+      if (attempt > 1) {
+        await sleep(getRetryDelay(attempt, policy), context.signal);
+      }
+      if (context.signal?.aborted) {
+        return buildRouteResult({ response: 'Query cancelled by user', attempts }, true);
+      }
+
+      notify('attempt_started', { agent, attempt });
+      const startTime = Date.now();
+      let errorMessage: string;
+      try {
+        const result = await query(provider);
+        const normalized = normalizeAgentResult(result);
+        if (!normalized.isError) {
+          attempts.push({ agent, attempt, status: 'success', durationMs: Date.now() - startTime });
+          log('[coding_agent_query] Request served:', { agent, attempts: attempts.length });
+          return buildRouteResult({
+            agent,
+            response: normalized.response,
+            ...(normalized.agentSessionId && { sessionId: normalized.agentSessionId }),
+            ...(normalized.usage && { usage: normalized.usage }),
+            ...(normalized.costUsd !== undefined && { costUsd: normalized.costUsd }),
+            ...(normalized.changes && { changes: normalized.changes }),
+            attempts
+          }, false);
+        }
+        errorMessage = normalized.response || `${agent} returned an error`;
+      } catch (error: any) {
+        errorMessage = error?.message || String(error);
+      }
+
+      const errorClass = classifyAgentError(errorMessage);
+      attempts.push({ agent, attempt, status: 'error', durationMs: Date.now() - startTime, errorClass, error: errorMessage });
+      notify('attempt_failed', { agent, attempt, errorClass, error: errorMessage });
+      log('[coding_agent_query] Attempt failed:', { agent, attempt, errorClass, error: errorMessage });
+      lastError = errorMessage;
+
+      if (context.signal?.aborted || errorClass === 'permanent') {
+        return buildRouteResult({ response: errorMessage, attempts }, true);
+      }
+      if (errorClass === 'unavailable') {
+        break;
+      }
+    }
+
+    if (index < chain.length - 1) {
+      notify('fallback', { from: agent, to: chain[index + 1] });
+    }
+  }
+
+  return buildRouteResult({ response: `All agents failed. Last error: ${lastError}`, attempts }, true);
+}
+
+function buildRouteResult(output: CodingAgentQueryOutput, isError: boolean): CodingAgentQueryResult {
+  const failures = output.attempts.filter(attempt => attempt.status === 'error');
+  const summary = output.agent
+    ? `Served by: ${output.agent}${failures.length > 0 ? ` (after ${failures.length} failed attempt${failures.length === 1 ? '' : 's'})` : ''}`
+    : `Attempts: ${failures.map(attempt => `${attempt.agent}#${attempt.attempt} ${attempt.errorClass}`).join(', ') || 'none'}`;
+
+  return {
+    content: [{ type: 'text', text: `${output.response}\n\n${summary}` }],
+    structuredContent: output,
+    ...(isError && { isError: true })
+  };
+}
+
+/**
+ * Create the coding_agent_query provider, routing across the agents in registry
+ */
+export function createCodingAgentQueryProvider(
+  registry: AgentRegistry,
+  policy: AgentRoutingPolicy = agentRoutingConfig
+): AgentProvider<CodingAgentQueryArgs> {
+  return {
+    id: 'coding_agent_query',
+    toolName: 'coding_agent_query',
+    kind: 'tool',
+    capabilities: { streaming: true, cancellation: true, resume: false },
+    invalidArgumentsMessage: 'prompt is required; agents must be a non-empty array of agent ids; retryAttempts must be a positive integer',
+    getToolDefinition: () => getCodingAgentQueryToolDefinition(registry.listAgents().map(provider => provider.id), policy),
+    isValidArgs: isCodingAgentQueryArgs,
+    handle: (args, context) => handleCodingAgentQuery(args, registry, policy, context),
+  };
+}
@@ -3,6 +3,14 @@ import { exec } from 'child_process';
 import { promisify } from 'util';
 import { claudeCodeConfig } from '../../config/claude-code';
 import { log, error as logError } from '../../utils/logger';
+import type { AgentProvider } from '../../core/agent-registry';
+import { describeWorktreeRun, IsolationMode, runInWorktree, WorktreeRunSummary } from '../workspace/worktree';
+import { formatChangesContent, trackChanges, WorkspaceChanges } from '../workspace/change-tracker';
+import { changeTrackingConfig } from '../../config/change-tracking';
+import type { PermissionHandler } from '../../permissions/permission-broker';
+import { openPermissionBridge, PERMISSION_MCP_SERVER_NAME, PermissionBridge } from '../../permissions/permission-bridge';
+import { getMcpServersError, resolveMcpServers } from './mcp-catalog';
+import { createPolicyPermissionHandler, getToolPolicyError, resolveToolPolicy } from './tool-policy';
 import type { 
   SDKMessage, 
   Options, 
@@ -50,6 +58,12 @@ export interface ClaudeCodeQueryOptions {
   sessionId?: string;
   timeout?: number;
   pathToClaudeCodeExecutable?: string;
+  isolation?: IsolationMode;
+  trackChanges?: boolean;
+  allowedTools?: string[]; // Tool rules such as "Read", "Bash(git diff:*)" or "Edit(src/**)"; must stay within CLAUDE_CODE_ALLOWED_TOOLS
+  disallowedTools?: string[]; // Added to CLAUDE_CODE_DISALLOWED_TOOLS
+  mcpServers?: string[]; // Names from the CLAUDE_CODE_MCP_SERVERS_FILE catalog
+  forkSession?: boolean; // With sessionId: continue in a new Claude session, leaving the resumed one as it was
 }
 
 export interface ClaudeCodeQueryArgs {
@@ -77,11 +91,137 @@ export interface ClaudeCodeNotification {
   };
 }
 
+export type ClaudeCodeResultSubtype =
+  | SDKResultMessage['subtype']
+  | 'cancelled'
+  | 'timeout'
+  | 'error';
+
+/**
+ * Structured payload returned as structuredContent by claude_code_query
+ */
+export interface ClaudeCodeStructuredResult {
+  result: string;
+  session_id: string | null;
+  subtype: ClaudeCodeResultSubtype;
+  is_error: boolean;
+  error?: string;
+  num_turns?: number;
+  duration_ms?: number;
+  total_cost_usd?: number;
+  usage?: SDKResultMessage['usage'];
+  worktree?: WorktreeRunSummary;
+  changes?: WorkspaceChanges;
+}
+
 export interface ClaudeCodeResult {
   content: Array<{
     type: 'text';
     text: string;
   }>;
+  structuredContent: ClaudeCodeStructuredResult;
+  isError?: boolean;
+}
+
+/**
+ * JSON schema for ClaudeCodeStructuredResult, declared as the tool's outputSchema
+ */
+const claudeCodeOutputSchema = {
+  type: 'object',
+  properties: {
+    result: { type: 'string', description: 'Final result text, or the error message if the query failed' },
+    session_id: { type: ['string', 'null'], description: 'Claude session ID to pass as options.sessionId to continue the conversation' },
+    subtype: {
+      type: 'string',
+      enum: ['success', 'error_max_turns', 'error_during_execution', 'cancelled', 'timeout', 'error'],
+      description: 'How the query ended'
+    },
+    is_error: { type: 'boolean' },
+    error: { type: 'string' },
+    num_turns: { type: 'number' },
+    duration_ms: { type: 'number' },
+    total_cost_usd: { type: 'number' },
+    usage: {
+      type: 'object',
+      description: 'Token usage reported by the Claude API',
+      properties: {
+        input_tokens: { type: 'number' },
+        output_tokens: { type: 'number' },
+        cache_creation_input_tokens: { type: 'number' },
+        cache_read_input_tokens: { type: 'number' }
+      }
+    },
+    worktree: {
+      type: 'object',
+      description: 'Branch holding the changes when isolation is "worktree"',
+      properties: {
+        branch: { type: 'string' },
+        baseCommit: { type: 'string' },
+        commit: { type: ['string', 'null'] },
+        files: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: { status: { type: 'string' }, path: { type: 'string' } }
+          }
+        }
+      }
+    },
+    changes: {
+      type: 'object',
+      description: 'Files changed in the working tree during the query, with a unified diff for git repositories',
+      properties: {
+        mode: { type: 'string', enum: ['git', 'scan'] },
+        files: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: { status: { type: 'string' }, path: { type: 'string' } }
+          }
+        },
+        diff: { type: 'string' },
+        diffTruncated: { type: 'boolean' }
+      }
+    }
+  },
+  required: ['result', 'session_id', 'subtype', 'is_error']
+};
+
+/**
+ * Build the tool result: structured payload plus a human-readable text block
+ */
+function buildClaudeCodeResult(structured: ClaudeCodeStructuredResult): ClaudeCodeResult {
+  const lines = [structured.result];
+  if (structured.session_id) {
+    lines.push('', `Session ID: ${structured.session_id}`);
+  }
+  if (structured.worktree) {
+    lines.push(describeWorktreeRun(structured.worktree));
+  }
+
+  return {
+    content: [
+      {
+        type: 'text',
+        text: lines.join('\n')
+      },
+      ...(structured.changes ? formatChangesContent(structured.changes) : [])
+    ],
+    structuredContent: structured,
+    ...(structured.is_error && { isError: true })
+  };
+}
+
+/**
+ * Find the Claude session ID on the first message that carries one
+ */
+function findClaudeSessionId(messages: SDKMessage[]): string | null {
+  for (const msg of messages) {
+    if ('session_id' in msg) {
+      return msg.session_id;
+    }
+  }
+  return null;
 }
 
 /**
@@ -139,15 +279,44 @@ export function getClaudeCodeToolDefinition() {
               type: 'string',
               description: 'Session ID from a previous Claude Code query to continue the conversation'
             },
+            forkSession: {
+              type: 'boolean',
+              description: 'With sessionId, continue in a new session and leave the resumed one unchanged, so it can be branched again'
+            },
             timeout: {
               type: 'number',
               description: 'Query timeout in milliseconds (default: 0 which means no timeout)'
+            },
+            isolation: {
+              type: 'string',
+              enum: ['none', 'worktree'],
+              description: 'Run in a dedicated git worktree and branch of the cwd repository; changes are committed to that branch (default: none)'
+            },
+            trackChanges: {
+              type: 'boolean',
+              description: `Report the files changed during the query and their diff (default: ${changeTrackingConfig.enabled})`
+            },
+            allowedTools: {
+              type: 'array',
+              items: { type: 'string' },
+              description: `Only let Claude use these tools, as Tool or Tool(specifier) rules, e.g. "Read", "Bash(npm test:*)", "Edit(src/**)", "mcp__github"${claudeCodeConfig.toolPolicy.allowedTools ? ` (must stay within: ${claudeCodeConfig.toolPolicy.allowedTools.join(', ')})` : ''}`
+            },
+            disallowedTools: {
+              type: 'array',
+              items: { type: 'string' },
+              description: `Tools Claude may not use, in the same rule syntax${claudeCodeConfig.toolPolicy.disallowedTools ? ` (always blocked: ${claudeCodeConfig.toolPolicy.disallowedTools.join(', ')})` : ''}`
+            },
+            mcpServers: {
+              type: 'array',
+              items: { type: 'string', ...(Object.keys(claudeCodeConfig.mcpServerCatalog).length > 0 && { enum: Object.keys(claudeCodeConfig.mcpServerCatalog) }) },
+              description: 'MCP servers from the operator catalog that Claude can use during the query; their tools are named mcp__<server>__<tool>'
             }
           }
         }
       },
       required: ['prompt'],
     },
+    outputSchema: claudeCodeOutputSchema,
   };
 }
 
@@ -157,7 +326,8 @@ export function getClaudeCodeToolDefinition() {
 export async function handleClaudeCodeQuery(
   args: ClaudeCodeQueryArgs,
   sendNotification?: (notification: ClaudeCodeNotification) => Promise<void>,
-  signal?: AbortSignal
+  signal?: AbortSignal,
+  requestPermission?: PermissionHandler
 ): Promise<ClaudeCodeResult> {
   // Dynamic import for ES module compatibility
   if (!claudeQuery) {
@@ -176,9 +346,34 @@ export async function handleClaudeCodeQuery(
     throw new Error('Prompt is required for Claude Code query');
   }
   
+  const toolPolicyError = getToolPolicyError(requestOptions as Record<string, unknown>, claudeCodeConfig.toolPolicy);
+  if (toolPolicyError) {
+    throw new Error(`Invalid options for claude_code_query: ${toolPolicyError}`);
+  }
+  const mcpServersError = getMcpServersError(requestOptions.mcpServers, claudeCodeConfig.mcpServerCatalog);
+  if (mcpServersError) {
+    throw new Error(`Invalid options for claude_code_query: ${mcpServersError}`);
+  }
+  
   // Merge request options with configured defaults
   const mergedOptions = claudeCodeConfig.mergeOptions(requestOptions);
   
+  // Re-run this query inside a throwaway worktree
+  if (requestOptions.isolation === 'worktree') {
+    const { result, worktree } = await runInWorktree(mergedOptions.cwd, 'claude', cwd =>
+      handleClaudeCodeQuery({ prompt, options: { ...requestOptions, cwd, isolation: 'none' } }, sendNotification, signal, requestPermission)
+    );
+    return buildClaudeCodeResult({ ...result.structuredContent, worktree });
+  }
+  
+  // Snapshot the working tree around the query to report what it changed
+  if (requestOptions.trackChanges ?? changeTrackingConfig.enabled) {
+    const { result, changes } = await trackChanges(mergedOptions.cwd, () =>
+      handleClaudeCodeQuery({ prompt, options: { ...requestOptions, trackChanges: false } }, sendNotification, signal, requestPermission)
+    );
+    return changes ? buildClaudeCodeResult({ ...result.structuredContent, changes }) : result;
+  }
+  
   // Determine pathToClaudeCodeExecutable
   let pathToClaudeCodeExecutable = mergedOptions.pathToClaudeCodeExecutable;
   
@@ -208,6 +403,36 @@ export async function handleClaudeCodeQuery(
     // Clean up sessionId - remove any surrounding quotes
     const cleanSessionId = requestOptions.sessionId.replace(/^["']|["']$/g, '');
     queryOptions.resume = cleanSessionId;
+    // SDKs without the fork option ignore it; their CLI already continues a resumed session under a new ID
+    if (requestOptions.forkSession) {
+      (queryOptions as Partial<Options> & { forkSession?: boolean }).forkSession = true;
+    }
+  }
+  
+  // Apply the operator's tool ceiling narrowed by the request
+  const toolPolicy = resolveToolPolicy(claudeCodeConfig.toolPolicy, requestOptions);
+  if (toolPolicy.allowedTools) {
+    queryOptions.allowedTools = toolPolicy.allowedTools;
+    // bypassPermissions and acceptEdits approve tool uses without asking, skipping the allow list's
+    // specifiers (e.g. Edit(src/**)), so ask the policy instead
+    if (queryOptions.permissionMode === 'bypassPermissions' || queryOptions.permissionMode === 'acceptEdits') {
+      queryOptions.permissionMode = 'default';
+    }
+  }
+  if (toolPolicy.disallowedTools) {
+    queryOptions.disallowedTools = toolPolicy.disallowedTools;
+  }
+  
+  if (requestOptions.mcpServers && requestOptions.mcpServers.length > 0) {
+    queryOptions.mcpServers = resolveMcpServers(requestOptions.mcpServers, claudeCodeConfig.mcpServerCatalog);
+  }
+  
+  // Route tool-use approvals through the policy and back to the caller instead of failing them
+  let permissionBridge: PermissionBridge | null = null;
+  if ((requestPermission || toolPolicy.allowedTools) && queryOptions.permissionMode !== 'bypassPermissions') {
+    permissionBridge = await openPermissionBridge(createPolicyPermissionHandler(toolPolicy, mergedOptions.cwd, requestPermission));
+    queryOptions.mcpServers = { ...queryOptions.mcpServers, [PERMISSION_MCP_SERVER_NAME]: permissionBridge.mcpServer };
+    queryOptions.permissionPromptToolName = permissionBridge.permissionPromptToolName;
   }
   
   // Response configuration no longer needed since we only return the final result
@@ -219,7 +444,8 @@ export async function handleClaudeCodeQuery(
   
   log(`[claude_code_query] ${requestOptions.sessionId ? 'Resuming' : 'Starting'} query session ${sessionId}:`, {
     prompt: prompt.substring(0, 100) + '...',
-    options: queryOptions,
+    // Server configs carry tokens (permission bridge headers, catalog env and headers)
+    options: { ...queryOptions, mcpServers: queryOptions.mcpServers && Object.keys(queryOptions.mcpServers) },
     isResume: !!requestOptions.sessionId,
     nodeExecutable: process.execPath,
     PATH: process.env.PATH?.substring(0, 200) + '...',
@@ -306,66 +532,56 @@ export async function handleClaudeCodeQuery(
     
     // Extract result from the last message if it's a result type
     const lastMessage = messages[messages.length - 1];
-    let result;
+    let structured: ClaudeCodeStructuredResult;
     // Only check aborted signal if we actually broke out of the loop due to cancellation
     if (signal?.aborted && messages.length === 0) {
-      result = {
-        success: false,
-        summary: 'Query cancelled by user',
+      structured = {
+        result: 'Query cancelled by user',
+        session_id: null,
+        subtype: 'cancelled',
+        is_error: true,
         error: 'cancelled'
       };
     } else if (lastMessage?.type === 'result') {
       const resultMessage = lastMessage as SDKResultMessage;
-      result = {
-        success: !resultMessage.is_error,
-        summary: resultMessage.subtype === 'success' ? (resultMessage as any).result : 'Query completed',
-        error: resultMessage.is_error ? resultMessage.subtype : undefined
+      structured = {
+        result: resultMessage.subtype === 'success' ? resultMessage.result : 'Query completed',
+        session_id: resultMessage.session_id,
+        subtype: resultMessage.subtype,
+        is_error: resultMessage.is_error,
+        ...(resultMessage.is_error && { error: resultMessage.subtype }),
+        num_turns: resultMessage.num_turns,
+        duration_ms: resultMessage.duration_ms,
+        total_cost_usd: resultMessage.total_cost_usd,
+        usage: resultMessage.usage
+      };
+    } else {
+      structured = {
+        result: '',
+        session_id: findClaudeSessionId(messages),
+        subtype: 'success',
+        is_error: false
       };
     }
-    
-    log(`[claude_code_query] Query completed:`, {
-      sessionId,
-      totalMessages: messages.length,
-      result
-    });
-    
-    // Extract session_id from any message that has it
-    let claudeSessionId = null;
-    for (const msg of messages) {
-      if ('session_id' in msg) {
-        claudeSessionId = (msg as any).session_id;
-        break;
-      }
-    }
-    
-    // Build response object with result and session_id
-    const response = {
-      result: result?.summary || 'Query completed but no result text was available',
-      session_id: claudeSessionId
-    };
-    
-    // If we don't have a result summary, try to get the last assistant message
-    if (!result?.summary) {
+
+    // If we don't have a result text, try to get the last assistant message
+    if (!structured.result) {
       const lastAssistantMessage = messages
         .filter((m): m is SDKAssistantMessage => m.type === 'assistant')
         .pop();
-      
-      if (lastAssistantMessage) {
-        const textContent = lastAssistantMessage.message.content?.find((c: any) => c.type === 'text');
-        if (textContent?.text) {
-          response.result = textContent.text;
-        }
-      }
+
+      const textContent = lastAssistantMessage?.message.content?.find((c: any) => c.type === 'text') as { text?: string } | undefined;
+      structured.result = textContent?.text || 'Query completed but no result text was available';
     }
-    
-    return {
-      content: [
-        {
-          type: 'text',
-          text: JSON.stringify(response)
-        }
-      ]
-    };
+
+    log(`[claude_code_query] Query completed:`, {
+      sessionId,
+      totalMessages: messages.length,
+      subtype: structured.subtype,
+      isError: structured.is_error
+    });
+
+    return buildClaudeCodeResult(structured);
     
   } catch (error: any) {
     // Clear timeout if it was set
@@ -382,15 +598,6 @@ export async function handleClaudeCodeQuery(
       errorName: error.name
     });
     
-    // Extract session_id from any message that has it
-    let claudeSessionId = null;
-    for (const msg of messages) {
-      if ('session_id' in msg) {
-        claudeSessionId = (msg as any).session_id;
-        break;
-      }
-    }
-    
     // Return error with session_id
     const errorMessage = isTimeout 
       ? `Query timed out after ${timeout}ms` 
@@ -398,16 +605,38 @@ export async function handleClaudeCodeQuery(
         ? 'Query cancelled by user' 
         : `Query failed: ${error.message}`;
     
-    return {
-      content: [
-        {
-          type: 'text',
-          text: JSON.stringify({
-            error: errorMessage,
-            session_id: claudeSessionId
-          })
-        }
-      ]
-    };
+    return buildClaudeCodeResult({
+      result: errorMessage,
+      session_id: findClaudeSessionId(messages),
+      subtype: isTimeout ? 'timeout' : isCancellation ? 'cancelled' : 'error',
+      is_error: true,
+      error: errorMessage
+    });
+  } finally {
+    permissionBridge?.close();
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Built-in provider for the claude_code_query tool
+ */
+export const claudeCodeProvider: AgentProvider<ClaudeCodeQueryArgs> = {
+  id: 'claude',
+  toolName: 'claude_code_query',
+  kind: 'agent',
+  capabilities: { streaming: true, cancellation: true, resume: true },
+  invalidArgumentsMessage: 'prompt is required',
+  getToolDefinition: getClaudeCodeToolDefinition,
+  isValidArgs: isClaudeCodeQueryArgs,
+  async handle(args, context) {
+    context.log?.('info', 'claude_code_query', { message: 'Processing Claude Code query', prompt: args.prompt });
+    try {
+      const result = await handleClaudeCodeQuery(args, context.sendNotification, context.signal, context.requestPermission);
+      context.log?.('info', 'claude_code_query', { message: 'Claude Code query completed successfully' });
+      return result;
+    } catch (error: any) {
+      context.log?.('error', 'claude_code_query', { message: 'Claude Code query failed', error: error.message });
+      throw error;
+    }
+  },
+};
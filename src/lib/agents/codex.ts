@@ -1,12 +1,49 @@
 import { log, error as logError } from '../../utils/logger';
 import { spawn } from 'child_process';
 import { randomUUID } from 'crypto';
+import type { AgentProvider } from '../../core/agent-registry';
+import { describeWorktreeRun, IsolationMode, runInWorktree } from '../workspace/worktree';
+import { formatChangesContent, trackChanges, WorkspaceChanges } from '../workspace/change-tracker';
+import { changeTrackingConfig } from '../../config/change-tracking';
+
+export const CODEX_SANDBOX_MODES = ['read-only', 'workspace-write', 'danger-full-access'] as const;
+export const CODEX_APPROVAL_POLICIES = ['untrusted', 'on-failure', 'on-request', 'never'] as const;
+
+export type CodexSandboxMode = typeof CODEX_SANDBOX_MODES[number];
+export type CodexApprovalPolicy = typeof CODEX_APPROVAL_POLICIES[number];
+
+export interface CodexQueryOptions {
+  timeout?: number; // Timeout in milliseconds
+  cwd?: string; // Working directory (default: server cwd)
+  model?: string;
+  sandbox?: CodexSandboxMode; // With approvalPolicy, replaces --full-auto
+  approvalPolicy?: CodexApprovalPolicy;
+  profile?: string; // Profile from ~/.codex/config.toml
+  config?: Record<string, string | number | boolean>; // -c key=value overrides
+  images?: string[]; // Image files attached to the prompt
+  resume?: string; // Codex session id to continue
+  isolation?: IsolationMode;
+  trackChanges?: boolean;
+}
 
 export interface CodexQueryArgs {
   prompt: string;
-  options?: {
-    timeout?: number; // Timeout in milliseconds
-  };
+  options?: CodexQueryOptions;
+}
+
+export interface CodexTokenUsage {
+  input_tokens: number;
+  cached_input_tokens?: number;
+  output_tokens: number;
+  reasoning_output_tokens?: number;
+  total_tokens: number;
+}
+
+export interface CodexStructuredResult {
+  message: string;
+  session_id?: string;
+  usage?: CodexTokenUsage;
+  changes?: WorkspaceChanges;
 }
 
 export interface CodexResult {
@@ -14,6 +51,7 @@ export interface CodexResult {
     type: 'text';
     text: string;
   }>;
+  structuredContent?: Partial<CodexStructuredResult>;
 }
 
 export interface CodexNotification {
@@ -36,6 +74,112 @@ export function isCodexQueryArgs(args: unknown): args is CodexQueryArgs {
   );
 }
 
+/**
+ * Validate codex_query options, returning an error message or null
+ */
+export function getCodexOptionsError(options: unknown): string | null {
+  if (options === undefined) {
+    return null;
+  }
+  if (typeof options !== 'object' || options === null || Array.isArray(options)) {
+    return 'options must be an object';
+  }
+
+  const { timeout, cwd, model, sandbox, approvalPolicy, profile, config, images, resume } = options as Record<string, unknown>;
+  if (timeout !== undefined && (typeof timeout !== 'number' || timeout < 0)) {
+    return 'timeout must be a non-negative number';
+  }
+  for (const [name, value] of Object.entries({ cwd, model, profile, resume })) {
+    if (value !== undefined && (typeof value !== 'string' || !value)) {
+      return `${name} must be a non-empty string`;
+    }
+  }
+  if (sandbox !== undefined && !(CODEX_SANDBOX_MODES as readonly unknown[]).includes(sandbox)) {
+    return `sandbox must be one of: ${CODEX_SANDBOX_MODES.join(', ')}`;
+  }
+  if (approvalPolicy !== undefined && !(CODEX_APPROVAL_POLICIES as readonly unknown[]).includes(approvalPolicy)) {
+    return `approvalPolicy must be one of: ${CODEX_APPROVAL_POLICIES.join(', ')}`;
+  }
+  if (config !== undefined) {
+    if (typeof config !== 'object' || config === null || Array.isArray(config)) {
+      return 'config must be an object';
+    }
+    for (const [key, value] of Object.entries(config)) {
+      if (!key || !['string', 'number', 'boolean'].includes(typeof value)) {
+        return `config.${key} must be a string, number or boolean`;
+      }
+    }
+  }
+  if (images !== undefined && (!Array.isArray(images) || images.some(image => typeof image !== 'string' || !image))) {
+    return 'images must be an array of file paths';
+  }
+  return null;
+}
+
+/**
+ * Format a config override value as TOML (strings quoted, other values as-is)
+ */
+function formatConfigValue(value: string | number | boolean): string {
+  return typeof value === 'string' ? JSON.stringify(value) : String(value);
+}
+
+/**
+ * Build the codex argv for a query (passed to spawn without a shell)
+ */
+export function buildCodexArgs(prompt: string, options: CodexQueryOptions = {}): string[] {
+  const args = ['exec', '--json'];
+
+  if (options.sandbox || options.approvalPolicy) {
+    if (options.sandbox) {
+      args.push('--sandbox', options.sandbox);
+    }
+    if (options.approvalPolicy) {
+      args.push('-c', `approval_policy=${formatConfigValue(options.approvalPolicy)}`);
+    }
+  } else {
+    args.push('--full-auto');
+  }
+
+  if (options.cwd) {
+    args.push('--cd', options.cwd);
+  }
+  if (options.model) {
+    args.push('--model', options.model);
+  }
+  if (options.profile) {
+    args.push('--profile', options.profile);
+  }
+  for (const [key, value] of Object.entries(options.config || {})) {
+    args.push('-c', `${key}=${formatConfigValue(value)}`);
+  }
+  for (const image of options.images || []) {
+    args.push('--image', image);
+  }
+
+  if (options.resume) {
+    args.push('resume', options.resume);
+  }
+  args.push(prompt);
+  return args;
+}
+
+/**
+ * Token usage from a token_count event (flat in older Codex versions, under info in newer ones)
+ */
+function parseTokenUsage(msg: any): CodexTokenUsage | undefined {
+  const usage = msg.info?.total_token_usage ?? msg;
+  if (typeof usage?.input_tokens !== 'number' || typeof usage?.output_tokens !== 'number') {
+    return undefined;
+  }
+  return {
+    input_tokens: usage.input_tokens,
+    ...(typeof usage.cached_input_tokens === 'number' ? { cached_input_tokens: usage.cached_input_tokens } : {}),
+    output_tokens: usage.output_tokens,
+    ...(typeof usage.reasoning_output_tokens === 'number' ? { reasoning_output_tokens: usage.reasoning_output_tokens } : {}),
+    total_tokens: typeof usage.total_tokens === 'number' ? usage.total_tokens : usage.input_tokens + usage.output_tokens
+  };
+}
+
 /**
  * Get the tool definition for Codex query
  */
@@ -57,12 +201,80 @@ export function getCodexToolDefinition() {
             timeout: {
               type: 'number',
               description: 'Command timeout in milliseconds (default: 0 which means no timeout)'
+            },
+            cwd: {
+              type: 'string',
+              description: 'Working directory for Codex (default: server working directory)'
+            },
+            model: {
+              type: 'string',
+              description: 'Model for Codex to use (default: Codex configuration)'
+            },
+            sandbox: {
+              type: 'string',
+              enum: [...CODEX_SANDBOX_MODES],
+              description: 'Sandbox policy for model-generated commands (default: workspace-write via --full-auto)'
+            },
+            approvalPolicy: {
+              type: 'string',
+              enum: [...CODEX_APPROVAL_POLICIES],
+              description: 'When Codex asks for approval before running commands (default: on-failure via --full-auto)'
+            },
+            profile: {
+              type: 'string',
+              description: 'Configuration profile from ~/.codex/config.toml'
+            },
+            config: {
+              type: 'object',
+              description: 'Configuration overrides passed as -c key=value (e.g. {"model_reasoning_effort": "high"})',
+              additionalProperties: { type: ['string', 'number', 'boolean'] }
+            },
+            images: {
+              type: 'array',
+              items: { type: 'string' },
+              description: 'Image files to attach to the prompt'
+            },
+            resume: {
+              type: 'string',
+              description: 'Codex session ID to continue (returned as session_id by a previous query)'
+            },
+            isolation: {
+              type: 'string',
+              enum: ['none', 'worktree'],
+              description: 'Run in a dedicated git worktree and branch of the cwd repository; changes are committed to that branch (default: none)'
+            },
+            trackChanges: {
+              type: 'boolean',
+              description: `Report the files changed during the query and their diff (default: ${changeTrackingConfig.enabled})`
             }
           }
         }
       },
       required: ['prompt'],
     },
+    outputSchema: {
+      type: 'object',
+      properties: {
+        message: { type: 'string', description: 'Final agent message' },
+        session_id: { type: 'string', description: 'Codex session ID for options.resume' },
+        usage: {
+          type: 'object',
+          description: 'Token usage reported by Codex for the session',
+          properties: {
+            input_tokens: { type: 'number' },
+            cached_input_tokens: { type: 'number' },
+            output_tokens: { type: 'number' },
+            reasoning_output_tokens: { type: 'number' },
+            total_tokens: { type: 'number' }
+          }
+        },
+        changes: {
+          type: 'object',
+          description: 'Files changed during the query (when change tracking is enabled)'
+        }
+      },
+      required: ['message']
+    },
   };
 }
 
@@ -81,6 +293,36 @@ export async function handleCodexQuery(
     throw new Error('Prompt is required for Codex query');
   }
 
+  const optionsError = getCodexOptionsError(args.options);
+  if (optionsError) {
+    throw new Error(`Invalid options for codex_query: ${optionsError}`);
+  }
+
+  // Re-run this query inside a throwaway worktree
+  if (options.isolation === 'worktree') {
+    const { result, worktree } = await runInWorktree(options.cwd || process.cwd(), 'codex', cwd =>
+      handleCodexQuery({ prompt, options: { ...options, cwd, isolation: 'none' } }, sendNotification, signal)
+    );
+    return {
+      ...result,
+      content: [...result.content, { type: 'text', text: describeWorktreeRun(worktree) }]
+    };
+  }
+
+  // Snapshot the working tree around the query to report what it changed
+  if (options.trackChanges ?? changeTrackingConfig.enabled) {
+    const { result, changes } = await trackChanges(options.cwd || process.cwd(), () =>
+      handleCodexQuery({ prompt, options: { ...options, trackChanges: false } }, sendNotification, signal)
+    );
+    if (!changes) {
+      return result;
+    }
+    return {
+      content: [...result.content, ...formatChangesContent(changes)],
+      structuredContent: { ...result.structuredContent, changes }
+    };
+  }
+
   const sessionId = randomUUID();
   log(`[codex_query] Starting query session ${sessionId} with prompt: ${prompt.substring(0, 100)}...`);
 
@@ -94,12 +336,15 @@ export async function handleCodexQuery(
 
       const startTime = Date.now();
       let agentMessage: string | null = null;
+      let codexSessionId: string | undefined = options.resume;
+      let usage: CodexTokenUsage | undefined;
       let buffer = '';
       let messageCount = 0;
       let timeoutHandle: NodeJS.Timeout | null = null;
 
       // Spawn the codex process
-      const codexProcess = spawn('codex', ['exec', '--json', '--full-auto', prompt], {
+      const codexProcess = spawn('codex', buildCodexArgs(prompt, options), {
+        cwd: options.cwd,
         env: { ...process.env },
         stdio: ['ignore', 'pipe', 'pipe']
       });
@@ -139,6 +384,12 @@ export async function handleCodexQuery(
             const parsed = JSON.parse(line);
             messageCount++;
 
+            if (parsed.msg?.type === 'session_configured' && parsed.msg.session_id) {
+              codexSessionId = parsed.msg.session_id;
+            } else if (parsed.msg?.type === 'token_count') {
+              usage = parseTokenUsage(parsed.msg) ?? usage;
+            }
+
             // Check if this is an agent_message
             if (parsed.msg && parsed.msg.type === 'agent_message') {
               agentMessage = parsed.msg.message;
@@ -190,13 +441,19 @@ export async function handleCodexQuery(
           reject(new Error('Codex query was cancelled'));
         } else if (code === 0 || agentMessage) {
           // Success - return the agent message or a default message
+          const message = agentMessage || 'Codex completed without an agent message';
           resolve({
             content: [
               {
                 type: 'text',
-                text: agentMessage || 'Codex completed without an agent message'
+                text: codexSessionId ? `${message}\n\nSession ID: ${codexSessionId}` : message
               }
-            ]
+            ],
+            structuredContent: {
+              message,
+              ...(codexSessionId ? { session_id: codexSessionId } : {}),
+              ...(usage ? { usage } : {})
+            }
           });
         } else {
           reject(new Error(`Codex process exited with code ${code}`));
@@ -221,4 +478,18 @@ export async function handleCodexQuery(
       reject(error);
     }
   });
-}
\ No newline at end of file
+}
+
+/**
+ * Built-in provider for the codex_query tool
+ */
+export const codexProvider: AgentProvider<CodexQueryArgs> = {
+  id: 'codex',
+  toolName: 'codex_query',
+  kind: 'agent',
+  capabilities: { streaming: true, cancellation: true, resume: true },
+  invalidArgumentsMessage: 'prompt is required',
+  getToolDefinition: getCodexToolDefinition,
+  isValidArgs: isCodexQueryArgs,
+  handle: (args, context) => handleCodexQuery(args, context.sendNotification, context.signal),
+};
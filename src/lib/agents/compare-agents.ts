@@ -0,0 +1,302 @@
+import { randomUUID } from 'crypto';
+import type { AgentProvider, AgentRegistry, AgentRequestContext } from '../../core/agent-registry';
+import { log } from '../../utils/logger';
+import type { ChangedFile } from '../workspace/change-tracker';
+import { runInTempCopy } from '../workspace/temp-copy';
+import { runInWorktree } from '../workspace/worktree';
+import { getChangedFiles, normalizeAgentResult } from './agent-result';
+
+export const COMPARE_ISOLATION_MODES = ['none', 'worktree', 'copy'] as const;
+
+export type CompareIsolation = typeof COMPARE_ISOLATION_MODES[number];
+
+export interface CompareAgentsArgs {
+  prompt: string;
+  agents?: string[]; // Agent ids (default: every registered agent)
+  cwd?: string;
+  isolation?: CompareIsolation;
+  timeout?: number; // Per-agent timeout in milliseconds
+  agentOptions?: Record<string, Record<string, unknown>>; // Extra tool options keyed by agent id
+}
+
+/**
+ * One agent's answer in a comparison
+ */
+export interface AgentComparison {
+  agent: string;
+  status: 'success' | 'error';
+  durationMs: number;
+  response: string;
+  costUsd?: number;
+  usage?: Record<string, number>;
+  sessionId?: string;
+  changedFiles: ChangedFile[];
+  worktree?: { branch: string; commit: string | null }; // isolation "worktree" only
+  error?: string;
+}
+
+export interface CompareAgentsOutput {
+  compareId: string;
+  isolation: CompareIsolation;
+  results: AgentComparison[];
+}
+
+export interface CompareAgentsResult {
+  content: Array<{ type: 'text'; text: string }>;
+  structuredContent: CompareAgentsOutput;
+  isError?: boolean;
+}
+
+/**
+ * Type guard to check if an object is valid CompareAgentsArgs
+ */
+export function isCompareAgentsArgs(args: unknown): args is CompareAgentsArgs {
+  if (typeof args !== 'object' || args === null) {
+    return false;
+  }
+  const { prompt, agents, cwd, isolation, timeout, agentOptions } = args as Record<string, unknown>;
+  return (
+    typeof prompt === 'string' && prompt.length > 0 &&
+    (agents === undefined || (Array.isArray(agents) && agents.length > 0 && agents.every(agent => typeof agent === 'string'))) &&
+    (cwd === undefined || typeof cwd === 'string') &&
+    (isolation === undefined || (COMPARE_ISOLATION_MODES as readonly unknown[]).includes(isolation)) &&
+    (timeout === undefined || (typeof timeout === 'number' && timeout >= 0)) &&
+    (agentOptions === undefined || (typeof agentOptions === 'object' && agentOptions !== null && !Array.isArray(agentOptions)))
+  );
+}
+
+/**
+ * Get the tool definition for compare_agents
+ */
+export function getCompareAgentsToolDefinition(agentIds: string[]) {
+  return {
+    name: 'compare_agents',
+    description: 'Run the same prompt on several coding agents in parallel and compare their answers, timing, cost and changed files',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        prompt: { type: 'string', description: 'The prompt to send to every agent' },
+        agents: {
+          type: 'array',
+          items: { type: 'string', enum: agentIds },
+          description: `Agents to compare (default: ${agentIds.join(', ')})`
+        },
+        cwd: { type: 'string', description: 'Working directory for the agents (default: server working directory)' },
+        isolation: {
+          type: 'string',
+          enum: [...COMPARE_ISOLATION_MODES],
+          description: 'Give each agent its own workspace: a git worktree and branch (kept if files changed) or a temporary copy of cwd without node_modules and .git, deleted afterwards (default: none)'
+        },
+        timeout: { type: 'number', description: 'Per-agent timeout in milliseconds (default: 0 which means no timeout)' },
+        agentOptions: {
+          type: 'object',
+          description: 'Extra options for individual agents, keyed by agent id (e.g. {"codex": {"model": "gpt-5"}})',
+          additionalProperties: { type: 'object' }
+        }
+      },
+      required: ['prompt'],
+    },
+    outputSchema: {
+      type: 'object',
+      properties: {
+        compareId: { type: 'string' },
+        isolation: { type: 'string', enum: [...COMPARE_ISOLATION_MODES] },
+        results: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              agent: { type: 'string' },
+              status: { type: 'string', enum: ['success', 'error'] },
+              durationMs: { type: 'number' },
+              response: { type: 'string' },
+              costUsd: { type: 'number' },
+              usage: { type: 'object' },
+              sessionId: { type: 'string' },
+              changedFiles: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  properties: { status: { type: 'string' }, path: { type: 'string' } }
+                }
+              },
+              worktree: {
+                type: 'object',
+                properties: { branch: { type: 'string' }, commit: { type: ['string', 'null'] } }
+              },
+              error: { type: 'string' }
+            },
+            required: ['agent', 'status', 'durationMs', 'response', 'changedFiles']
+          }
+        }
+      },
+      required: ['compareId', 'isolation', 'results'],
+    },
+  };
+}
+
+/**
+ * Side-by-side text report of a comparison
+ */
+export function formatComparison(results: AgentComparison[]): string {
+  return results.map(result => {
+    const details = [`${result.status} in ${(result.durationMs / 1000).toFixed(1)}s`];
+    if (result.costUsd !== undefined) {
+      details.push(`$${result.costUsd.toFixed(4)}`);
+    }
+    if (result.worktree?.commit) {
+      details.push(`branch ${result.worktree.branch}`);
+    }
+
+    const files = result.changedFiles.length > 0
+      ? ['Changed files:', ...result.changedFiles.map(file => `  ${file.status} ${file.path}`)].join('\n')
+      : 'Changed files: none';
+
+    return [`## ${result.agent} (${details.join(', ')})`, result.error || result.response, files].join('\n\n');
+  }).join('\n\n');
+}
+
+/**
+ * Handle compare_agents: dispatch the prompt to every selected agent in parallel
+ */
+export async function handleCompareAgents(
+  args: CompareAgentsArgs,
+  registry: AgentRegistry,
+  context: AgentRequestContext = {}
+): Promise<CompareAgentsResult> {
+  const available = registry.listAgents().map(provider => provider.id);
+  const agents = Array.from(new Set(args.agents ?? available));
+  const unknown = agents.filter(agent => !available.includes(agent));
+  if (unknown.length > 0) {
+    throw new Error(`Unknown agent(s): ${unknown.join(', ')}. Available: ${available.join(', ')}`);
+  }
+
+  const compareId = randomUUID();
+  const isolation = args.isolation || 'none';
+  const baseCwd = args.cwd || process.cwd();
+  log('[compare_agents] Starting comparison:', { compareId, agents, isolation });
+
+  const notify = (agent: string, event: 'started' | 'message' | 'completed', data: Record<string, unknown> = {}) => {
+    context.sendNotification?.({
+      method: 'notifications/message',
+      params: {
+        level: 'info',
+        logger: 'compare_agents',
+        data: JSON.stringify({
+          type: 'compare_agents_progress',
+          compareId,
+          agent,
+          event,
+          ...data,
+          timestamp: new Date().toISOString()
+        })
+      }
+    }).catch(() => {
+      // Client may not support notifications; results are still returned
+    });
+  };
+
+  const runAgent = async (agent: string): Promise<AgentComparison> => {
+    const provider = registry.get(agent)!;
+    const startTime = Date.now();
+    notify(agent, 'started');
+
+    // Tag the agent's own notifications with the agent they came from
+    const agentContext: AgentRequestContext = {
+      signal: context.signal,
+      sendNotification: context.sendNotification && (async (notification: any) => {
+        let message = notification?.params?.data;
+        if (typeof message === 'string') {
+          try {
+            message = JSON.parse(message);
+          } catch {
+            // Keep plain-text notifications as-is
+          }
+        }
+        notify(agent, 'message', { message });
+      })
+    };
+    const query = (cwd?: string) => {
+      const toolArgs = {
+        prompt: args.prompt,
+        options: {
+          ...args.agentOptions?.[agent],
+          ...(cwd && { cwd }),
+          ...(args.timeout !== undefined && { timeout: args.timeout })
+        }
+      };
+      if (!provider.isValidArgs(toolArgs)) {
+        throw new Error(`Invalid arguments for ${provider.toolName}: ${provider.invalidArgumentsMessage || 'invalid arguments'}`);
+      }
+      return provider.handle(toolArgs, agentContext);
+    };
+
+    let comparison: AgentComparison;
+    try {
+      let result: any;
+      let worktree: AgentComparison['worktree'];
+      if (isolation === 'worktree') {
+        const run = await runInWorktree(baseCwd, agent, query);
+        result = run.result;
+        worktree = { branch: run.worktree.branch, commit: run.worktree.commit };
+      } else if (isolation === 'copy') {
+        result = await runInTempCopy(baseCwd, agent, query);
+      } else {
+        result = await query(args.cwd);
+      }
+
+      const normalized = normalizeAgentResult(result);
+      comparison = {
+        agent,
+        status: normalized.isError ? 'error' : 'success',
+        durationMs: Date.now() - startTime,
+        response: normalized.response,
+        ...(normalized.costUsd !== undefined && { costUsd: normalized.costUsd }),
+        ...(normalized.usage && { usage: normalized.usage }),
+        ...(normalized.agentSessionId && { sessionId: normalized.agentSessionId }),
+        changedFiles: getChangedFiles(result),
+        ...(worktree && { worktree })
+      };
+    } catch (error: any) {
+      comparison = {
+        agent,
+        status: 'error',
+        durationMs: Date.now() - startTime,
+        response: '',
+        changedFiles: [],
+        error: error.message || String(error)
+      };
+    }
+
+    notify(agent, 'completed', { status: comparison.status, durationMs: comparison.durationMs });
+    return comparison;
+  };
+
+  const results = await Promise.all(agents.map(runAgent));
+  log('[compare_agents] Comparison finished:', {
+    compareId,
+    results: results.map(result => ({ agent: result.agent, status: result.status, durationMs: result.durationMs }))
+  });
+
+  return {
+    content: [{ type: 'text', text: formatComparison(results) }],
+    structuredContent: { compareId, isolation, results },
+    ...(results.every(result => result.status === 'error') && { isError: true })
+  };
+}
+
+/**
+ * Create the compare_agents provider, dispatching to the agents in registry
+ */
+export function createCompareAgentsProvider(registry: AgentRegistry): AgentProvider<CompareAgentsArgs> {
+  return {
+    id: 'compare_agents',
+    toolName: 'compare_agents',
+    kind: 'tool',
+    capabilities: { streaming: true, cancellation: true, resume: false },
+    invalidArgumentsMessage: 'prompt is required; agents must be a non-empty array of agent ids',
+    getToolDefinition: () => getCompareAgentsToolDefinition(registry.listAgents().map(provider => provider.id)),
+    isValidArgs: isCompareAgentsArgs,
+    handle: (args, context) => handleCompareAgents(args, registry, context),
+  };
+}
@@ -1,18 +1,56 @@
 import { log, error as logError } from '../../utils/logger';
-import { execSync } from 'child_process';
+import { spawn } from 'child_process';
+import { randomUUID } from 'crypto';
+import type { AgentProvider } from '../../core/agent-registry';
+import { formatChangesContent, trackChanges, WorkspaceChanges } from '../workspace/change-tracker';
+import { changeTrackingConfig } from '../../config/change-tracking';
+
+// Grace period between SIGTERM and SIGKILL when stopping the gemini process
+const KILL_GRACE_PERIOD_MS = 5000;
+
+export const GEMINI_APPROVAL_MODES = ['default', 'auto_edit', 'yolo'] as const;
+
+export type GeminiApprovalMode = typeof GEMINI_APPROVAL_MODES[number];
 
 export interface GeminiQueryArgs {
   prompt: string;
   options?: {
     timeout?: number; // Timeout in milliseconds
+    cwd?: string; // Working directory (default: server cwd)
+    model?: string;
+    sandbox?: boolean;
+    approvalMode?: GeminiApprovalMode; // Default: yolo (non-interactive runs cannot prompt)
+    trackChanges?: boolean;
   };
 }
 
+export interface GeminiStructuredResult {
+  response: string;
+  queryId: string;
+  model?: string;
+  exitCode: number | null;
+  durationMs: number;
+  cancelled: boolean;
+  timedOut: boolean;
+  error?: string;
+  changes?: WorkspaceChanges;
+}
+
 export interface GeminiResult {
   content: Array<{
     type: 'text';
     text: string;
   }>;
+  structuredContent?: Partial<GeminiStructuredResult>;
+  isError?: boolean;
+}
+
+export interface GeminiNotification {
+  method: string;
+  params: {
+    level: string;
+    data: string;
+  };
 }
 
 /**
@@ -27,13 +65,42 @@ export function isGeminiQueryArgs(args: unknown): args is GeminiQueryArgs {
   );
 }
 
+/**
+ * Validate gemini_query options, returning an error message or null
+ */
+export function getGeminiOptionsError(options: unknown): string | null {
+  if (options === undefined) {
+    return null;
+  }
+  if (typeof options !== 'object' || options === null || Array.isArray(options)) {
+    return 'options must be an object';
+  }
+
+  const { timeout, cwd, model, sandbox, approvalMode } = options as Record<string, unknown>;
+  if (timeout !== undefined && (typeof timeout !== 'number' || timeout < 0)) {
+    return 'timeout must be a non-negative number';
+  }
+  for (const [name, value] of Object.entries({ cwd, model })) {
+    if (value !== undefined && (typeof value !== 'string' || !value)) {
+      return `${name} must be a non-empty string`;
+    }
+  }
+  if (sandbox !== undefined && typeof sandbox !== 'boolean') {
+    return 'sandbox must be a boolean';
+  }
+  if (approvalMode !== undefined && !(GEMINI_APPROVAL_MODES as readonly unknown[]).includes(approvalMode)) {
+    return `approvalMode must be one of: ${GEMINI_APPROVAL_MODES.join(', ')}`;
+  }
+  return null;
+}
+
 /**
  * Get the tool definition for Gemini query
  */
 export function getGeminiToolDefinition() {
   return {
     name: 'gemini_query',
-    description: 'Execute a query using the Gemini CLI tool',
+    description: 'Execute a query using the Gemini CLI tool with real-time streaming',
     inputSchema: {
       type: 'object',
       properties: {
@@ -48,20 +115,78 @@ export function getGeminiToolDefinition() {
             timeout: {
               type: 'number',
               description: 'Command timeout in milliseconds (default: 0 which means no timeout)'
+            },
+            cwd: {
+              type: 'string',
+              description: 'Working directory for Gemini (default: server working directory)'
+            },
+            model: {
+              type: 'string',
+              description: 'Gemini model to use (default: Gemini CLI default)'
+            },
+            sandbox: {
+              type: 'boolean',
+              description: 'Run Gemini tools in the Gemini CLI sandbox (default: false)'
+            },
+            approvalMode: {
+              type: 'string',
+              enum: [...GEMINI_APPROVAL_MODES],
+              description: 'Tool approval mode: default, auto_edit (approve edits only) or yolo (approve everything) (default: yolo)'
+            },
+            trackChanges: {
+              type: 'boolean',
+              description: `Report the files changed during the query and their diff (default: ${changeTrackingConfig.enabled})`
             }
           }
         }
       },
       required: ['prompt'],
     },
+    outputSchema: {
+      type: 'object',
+      properties: {
+        response: { type: 'string', description: 'Gemini output' },
+        queryId: { type: 'string' },
+        model: { type: 'string' },
+        exitCode: { type: ['number', 'null'], description: 'Process exit code, null if killed by a signal' },
+        durationMs: { type: 'number' },
+        cancelled: { type: 'boolean' },
+        timedOut: { type: 'boolean' },
+        error: { type: 'string' },
+        changes: {
+          type: 'object',
+          description: 'Files changed during the query (when change tracking is enabled)'
+        }
+      },
+      required: ['response', 'queryId', 'exitCode', 'durationMs', 'cancelled', 'timedOut'],
+    },
   };
 }
 
 /**
- * Handle Gemini query execution via shell command
+ * Build the gemini argv for a query (passed to spawn without a shell)
+ */
+export function buildGeminiArgs(prompt: string, options: NonNullable<GeminiQueryArgs['options']> = {}): string[] {
+  // One argv entry, so a prompt starting with "-" is not read as a flag
+  const args = [`--prompt=${prompt}`, '--approval-mode', options.approvalMode || 'yolo'];
+  if (options.model) {
+    args.push('--model', options.model);
+  }
+  if (options.sandbox) {
+    args.push('--sandbox');
+  }
+  return args;
+}
+
+// Gemini CLI status line printed before the response
+const CREDENTIALS_LINE = /^Loaded cached credentials\.\s*$/;
+
+/**
+ * Handle Gemini query execution via the gemini CLI with streaming
  */
 export async function handleGeminiQuery(
   args: GeminiQueryArgs,
+  sendNotification?: (notification: GeminiNotification) => Promise<void>,
   signal?: AbortSignal
 ): Promise<GeminiResult> {
   const { prompt, options = {} } = args;
@@ -71,82 +196,201 @@ export async function handleGeminiQuery(
     throw new Error('Prompt is required for Gemini query');
   }
 
-  log(`[gemini_query] Executing query with prompt: ${prompt.substring(0, 100)}...`);
+  const optionsError = getGeminiOptionsError(args.options);
+  if (optionsError) {
+    throw new Error(`Invalid options for gemini_query: ${optionsError}`);
+  }
 
-  try {
-    // Check if cancelled before execution
-    if (signal?.aborted) {
-      throw new Error('Query cancelled before execution');
+  // Snapshot the working tree around the query to report what it changed
+  if (options.trackChanges ?? changeTrackingConfig.enabled) {
+    const { result, changes } = await trackChanges(options.cwd || process.cwd(), () =>
+      handleGeminiQuery({ prompt, options: { ...options, trackChanges: false } }, sendNotification, signal)
+    );
+    if (!changes) {
+      return result;
     }
+    return {
+      ...result,
+      content: [...result.content, ...formatChangesContent(changes)],
+      structuredContent: { ...result.structuredContent, changes }
+    };
+  }
 
+  // Check if cancelled before execution
+  if (signal?.aborted) {
+    throw new Error('Query cancelled before execution');
+  }
+
+  const queryId = randomUUID();
+  log(`[gemini_query] Starting query ${queryId} with prompt: ${prompt.substring(0, 100)}...`);
+
+  return new Promise((resolve) => {
     const startTime = Date.now();
-    
-    // Execute the gemini command with the prompt
-    // Using -p flag to pass the prompt
-    const command = `gemini -p -y "${prompt.replace(/"/g, '\\"')}"`;
-    
-    log(`[gemini_query] Executing command: gemini -p"..."`);
-    
-    const execOptions: any = {
-      encoding: 'utf8',
-      stdio: 'pipe'
+    const lines: string[] = [];
+    let stderr = '';
+    let buffer = '';
+    let sequence = 0;
+    let cancelled = false;
+    let timedOut = false;
+    let settled = false;
+    let timeoutHandle: NodeJS.Timeout | null = null;
+    let killHandle: NodeJS.Timeout | null = null;
+
+    // argv, not a shell string: the prompt is never interpreted by a shell.
+    // Own process group so tool subprocesses are killed with it
+    const geminiProcess = spawn('gemini', buildGeminiArgs(prompt, options), {
+      cwd: options.cwd,
+      env: { ...process.env },
+      stdio: ['ignore', 'pipe', 'pipe'],
+      detached: process.platform !== 'win32'
+    });
+
+    log(`[gemini_query] Spawned gemini process with PID: ${geminiProcess.pid}`);
+
+    const killProcess = (killSignal: NodeJS.Signals) => {
+      if (geminiProcess.pid === undefined || geminiProcess.exitCode !== null || geminiProcess.signalCode !== null) {
+        return;
+      }
+      try {
+        if (process.platform !== 'win32') {
+          process.kill(-geminiProcess.pid, killSignal);
+        } else {
+          geminiProcess.kill(killSignal);
+        }
+      } catch {
+        // Process already exited
+      }
     };
-    
-    // Only set timeout if it's greater than 0
-    if (timeout > 0) {
-      execOptions.timeout = timeout;
-    }
-    
-    const output = execSync(command, execOptions);
 
-    const executionTime = Date.now() - startTime;
-    
-    // Remove "Loaded cached credentials." from the output
-    const cleanOutput = output.replace(/Loaded cached credentials\.\s*/g, '').trim();
-    
-    log(`[gemini_query] Command executed successfully in ${executionTime}ms`);
-    log(`[gemini_query] Output length: ${cleanOutput.length} characters`);
+    const stopProcess = () => {
+      killProcess('SIGTERM');
+      killHandle = setTimeout(() => killProcess('SIGKILL'), KILL_GRACE_PERIOD_MS);
+    };
 
-    return {
-      content: [
-        {
-          type: 'text',
-          text: cleanOutput || 'No response from Gemini'
+    const onAbort = () => {
+      log(`[gemini_query] Cancellation requested for query ${queryId}`);
+      cancelled = true;
+      stopProcess();
+    };
+
+    const handleLine = (line: string) => {
+      if (CREDENTIALS_LINE.test(line)) return;
+      lines.push(line);
+      if (!sendNotification) return;
+
+      sequence++;
+      sendNotification({
+        method: 'notifications/message',
+        params: {
+          level: 'info',
+          data: JSON.stringify({
+            type: 'gemini_message',
+            queryId,
+            line,
+            timestamp: new Date().toISOString(),
+            sequence
+          })
         }
-      ]
+      }).catch(error => {
+        logError(`[gemini_query] Failed to send notification:`, error);
+      });
     };
-    
-  } catch (error: any) {
-    const isCancellation = error.name === 'AbortError' || signal?.aborted;
-    const isTimeout = error.code === 'ETIMEDOUT';
-    
-    logError(`[gemini_query] Query ${isCancellation ? 'cancelled' : 'failed'}:`, {
-      error: error.message,
-      errorName: error.name,
-      errorCode: error.code
+
+    const finish = (exitCode: number | null, failure?: string) => {
+      if (settled) return;
+      settled = true;
+      if (timeoutHandle) clearTimeout(timeoutHandle);
+      if (killHandle) clearTimeout(killHandle);
+      signal?.removeEventListener('abort', onAbort);
+
+      if (buffer) {
+        handleLine(buffer);
+        buffer = '';
+      }
+
+      const response = lines.join('\n').trim();
+      const durationMs = Date.now() - startTime;
+
+      let error: string | undefined;
+      if (cancelled) {
+        error = 'Gemini query was cancelled';
+      } else if (timedOut) {
+        error = `Gemini query timed out after ${timeout}ms`;
+      } else if (failure) {
+        error = failure;
+      } else if (exitCode !== 0) {
+        error = stderr.trim()
+          ? `Gemini error: ${stderr.trim()}`
+          : `Gemini process exited with code ${exitCode}`;
+      }
+
+      log(`[gemini_query] Query ${queryId} ${error ? 'failed' : 'completed'} in ${durationMs}ms`, {
+        exitCode,
+        lines: lines.length
+      });
+
+      const structured: GeminiStructuredResult = {
+        response,
+        queryId,
+        ...(options.model ? { model: options.model } : {}),
+        exitCode,
+        durationMs,
+        cancelled,
+        timedOut,
+        ...(error ? { error } : {})
+      };
+
+      resolve({
+        content: [{ type: 'text', text: error || response || 'No response from Gemini' }],
+        structuredContent: structured,
+        ...(error ? { isError: true } : {})
+      });
+    };
+
+    geminiProcess.stdout.setEncoding('utf8');
+    geminiProcess.stdout.on('data', (data: string) => {
+      buffer += data;
+      const complete = buffer.split('\n');
+      buffer = complete.pop() || ''; // Keep incomplete line in buffer
+      complete.forEach(handleLine);
     });
 
-    let errorMessage: string;
-    
-    if (isCancellation) {
-      errorMessage = 'Gemini query was cancelled';
-    } else if (isTimeout) {
-      errorMessage = `Gemini query timed out after ${timeout}ms`;
-    } else if (error.code === 'ENOENT') {
-      errorMessage = 'Gemini command not found. Please ensure gemini CLI is installed and in PATH';
-    } else if (error.stderr) {
-      errorMessage = `Gemini error: ${error.stderr}`;
-    } else {
-      errorMessage = `Gemini query failed: ${error.message}`;
+    geminiProcess.stderr.setEncoding('utf8');
+    geminiProcess.stderr.on('data', (data: string) => {
+      stderr += data;
+      logError(`[gemini_query] Stderr: ${data}`);
+    });
+
+    if (timeout > 0) {
+      timeoutHandle = setTimeout(() => {
+        log(`[gemini_query] Timeout reached after ${timeout}ms`);
+        timedOut = true;
+        stopProcess();
+      }, timeout);
     }
 
-    return {
-      content: [
-        {
-          type: 'text',
-          text: errorMessage
-        }
-      ]
-    };
-  }
-}
\ No newline at end of file
+    signal?.addEventListener('abort', onAbort);
+
+    geminiProcess.on('close', (code) => finish(code));
+    geminiProcess.on('error', (error: any) => {
+      logError(`[gemini_query] Process error:`, error);
+      finish(null, error.code === 'ENOENT'
+        ? 'Gemini command not found. Please ensure gemini CLI is installed and in PATH'
+        : `Gemini query failed: ${error.message}`);
+    });
+  });
+}
+
+/**
+ * Built-in provider for the gemini_query tool
+ */
+export const geminiProvider: AgentProvider<GeminiQueryArgs> = {
+  id: 'gemini',
+  toolName: 'gemini_query',
+  kind: 'agent',
+  capabilities: { streaming: true, cancellation: true, resume: false },
+  invalidArgumentsMessage: 'prompt is required',
+  getToolDefinition: getGeminiToolDefinition,
+  isValidArgs: isGeminiQueryArgs,
+  handle: (args, context) => handleGeminiQuery(args, context.sendNotification, context.signal),
+};
@@ -0,0 +1,26 @@
+import { AgentProvider, AgentRegistry } from '../../core/agent-registry';
+import { executeCommandProvider } from '../tools/execute-command';
+import { claudeCodeProvider } from './claude';
+import { geminiProvider } from './gemini';
+import { codexProvider } from './codex';
+
+/**
+ * Providers shipped with this package, in tools/list order
+ */
+export const builtinAgentProviders: AgentProvider[] = [
+  executeCommandProvider,
+  claudeCodeProvider,
+  geminiProvider,
+  codexProvider,
+];
+
+/**
+ * Create a registry pre-populated with the built-in providers
+ */
+export function createDefaultAgentRegistry(): AgentRegistry {
+  const registry = new AgentRegistry();
+  for (const provider of builtinAgentProviders) {
+    registry.register(provider);
+  }
+  return registry;
+}
@@ -0,0 +1,152 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as yaml from 'js-yaml';
+import type { McpServerConfig } from '@anthropic-ai/claude-code';
+import { PERMISSION_MCP_SERVER_NAME } from '../../permissions/permission-bridge';
+
+/**
+ * An MCP server Claude queries may be given, as defined by the operator
+ */
+export type McpCatalogEntry = McpServerConfig & { description?: string };
+
+/**
+ * Operator-managed MCP servers, keyed by the name requests refer to them by
+ */
+export type McpServerCatalog = Record<string, McpCatalogEntry>;
+
+/**
+ * What clients see of a catalog entry (no commands, environment or headers)
+ */
+export interface McpCatalogSummary {
+  name: string;
+  type: 'stdio' | 'sse' | 'http';
+  description?: string;
+}
+
+const SERVER_NAME_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+const isStringRecord = (value: unknown) =>
+  typeof value === 'object' && value !== null && !Array.isArray(value) &&
+  Object.values(value).every(item => typeof item === 'string');
+
+/**
+ * Replace ${VAR} with the environment variable so secrets stay out of the catalog file
+ */
+function expandEnv(value: string): string {
+  return value.replace(/\$\{([A-Za-z_][A-Za-z0-9_]*)\}/g, (_, name) => process.env[name] ?? '');
+}
+
+function expandEntry(entry: McpCatalogEntry): McpCatalogEntry {
+  const expandRecord = (record?: Record<string, string>) =>
+    record && Object.fromEntries(Object.entries(record).map(([key, value]) => [key, expandEnv(value)]));
+
+  if (entry.type === 'http' || entry.type === 'sse') {
+    return { ...entry, url: expandEnv(entry.url), ...(entry.headers && { headers: expandRecord(entry.headers) }) };
+  }
+  return {
+    ...entry,
+    command: expandEnv(entry.command),
+    ...(entry.args && { args: entry.args.map(expandEnv) }),
+    ...(entry.env && { env: expandRecord(entry.env) })
+  };
+}
+
+/**
+ * Validate one catalog entry, returning an error message or null
+ */
+function getCatalogEntryError(name: string, entry: unknown): string | null {
+  if (!SERVER_NAME_PATTERN.test(name)) {
+    return `server name "${name}" may only contain letters, digits, "_" and "-"`;
+  }
+  if (name === PERMISSION_MCP_SERVER_NAME) {
+    return `server name "${name}" is reserved`;
+  }
+  if (typeof entry !== 'object' || entry === null || Array.isArray(entry)) {
+    return `server "${name}" must be an object`;
+  }
+  const { type, command, args, env, url, headers, description } = entry as Record<string, unknown>;
+  if (description !== undefined && typeof description !== 'string') {
+    return `server "${name}" description must be a string`;
+  }
+  if (type === 'http' || type === 'sse') {
+    if (typeof url !== 'string' || !url) {
+      return `server "${name}" needs a url`;
+    }
+    return headers === undefined || isStringRecord(headers) ? null : `server "${name}" headers must map names to strings`;
+  }
+  if (type !== undefined && type !== 'stdio') {
+    return `server "${name}" type must be stdio, http or sse`;
+  }
+  if (typeof command !== 'string' || !command) {
+    return `server "${name}" needs a command`;
+  }
+  if (args !== undefined && !(Array.isArray(args) && args.every(arg => typeof arg === 'string'))) {
+    return `server "${name}" args must be an array of strings`;
+  }
+  return env === undefined || isStringRecord(env) ? null : `server "${name}" env must map names to strings`;
+}
+
+/**
+ * Read an MCP server catalog from a JSON or YAML file shaped like Claude's .mcp.json:
+ * { "mcpServers": { "<name>": { "command": ... } | { "type": "http", "url": ... } } }
+ * Strings may reference environment variables as ${VAR}.
+ */
+export function readMcpServerCatalog(catalogPath: string | undefined): McpServerCatalog {
+  if (!catalogPath) {
+    return {};
+  }
+  const resolvedPath = path.resolve(catalogPath);
+  const raw = fs.readFileSync(resolvedPath, 'utf-8');
+  const parsed = (/\.ya?ml$/i.test(resolvedPath) ? yaml.load(raw) : JSON.parse(raw)) as { mcpServers?: Record<string, unknown> } | null;
+
+  const catalog: McpServerCatalog = {};
+  for (const [name, entry] of Object.entries(parsed?.mcpServers || {})) {
+    const entryError = getCatalogEntryError(name, entry);
+    if (entryError) {
+      throw new Error(`Invalid MCP server catalog ${resolvedPath}: ${entryError}`);
+    }
+    catalog[name] = expandEntry(entry as McpCatalogEntry);
+  }
+  return catalog;
+}
+
+/**
+ * List catalog entries without their connection details
+ */
+export function listMcpCatalog(catalog: McpServerCatalog): McpCatalogSummary[] {
+  return Object.entries(catalog).map(([name, entry]) => ({
+    name,
+    type: entry.type || 'stdio',
+    ...(entry.description && { description: entry.description })
+  }));
+}
+
+/**
+ * Check that a requested mcpServers list only names catalog servers, returning an error message or null
+ */
+export function getMcpServersError(requested: unknown, catalog: McpServerCatalog): string | null {
+  if (requested === undefined) {
+    return null;
+  }
+  if (!Array.isArray(requested) || !requested.every(name => typeof name === 'string')) {
+    return 'mcpServers must be an array of server names';
+  }
+  const unknown = requested.find(name => !Object.prototype.hasOwnProperty.call(catalog, name));
+  if (unknown !== undefined) {
+    const available = Object.keys(catalog);
+    return `mcpServers entry "${unknown}" is not in the server catalog (available: ${available.length > 0 ? available.join(', ') : 'none'})`;
+  }
+  return null;
+}
+
+/**
+ * Claude query mcpServers for the requested catalog names
+ */
+export function resolveMcpServers(names: string[], catalog: McpServerCatalog): Record<string, McpServerConfig> {
+  const servers: Record<string, McpServerConfig> = {};
+  for (const name of names) {
+    const { description: _description, ...config } = catalog[name];
+    servers[name] = config as McpServerConfig;
+  }
+  return servers;
+}
@@ -0,0 +1,248 @@
+import * as path from 'path';
+import type { PermissionHandler } from '../../permissions/permission-broker';
+import { splitCommandSegments } from '../tools/command-policy';
+
+/**
+ * Claude Code tool restrictions, in Claude Code's permission rule syntax:
+ * "Tool" or "Tool(specifier)", e.g. "Bash(git diff:*)", "Edit(src/**)", "WebFetch(domain:example.com)", "mcp__github"
+ */
+export interface ToolPolicy {
+  allowedTools?: string[];
+  disallowedTools?: string[];
+}
+
+interface ToolRule {
+  tool: string;
+  specifier?: string;
+}
+
+// Input field holding the path a file tool operates on
+const PATH_INPUT_FIELDS: Record<string, string> = {
+  Read: 'file_path',
+  Edit: 'file_path',
+  MultiEdit: 'file_path',
+  Write: 'file_path',
+  NotebookEdit: 'notebook_path',
+  Glob: 'path',
+  Grep: 'path',
+  LS: 'path'
+};
+
+const TOOL_RULE_PATTERN = /^([A-Za-z][\w-]*)(?:\((.+)\))?$/;
+
+// Substitutions run commands that a prefix rule never sees
+const COMMAND_SUBSTITUTION_PATTERN = /`|\$\(|[<>]\(/;
+
+/**
+ * Parse "Tool" or "Tool(specifier)"; returns null for malformed rules
+ */
+function parseToolRule(rule: string): ToolRule | null {
+  const match = TOOL_RULE_PATTERN.exec(rule.trim());
+  return match ? { tool: match[1], ...(match[2] !== undefined && { specifier: match[2] }) } : null;
+}
+
+/**
+ * Split a comma-separated rule list, keeping commas inside parentheses
+ */
+export function parseToolList(value: string | undefined): string[] | undefined {
+  if (!value) {
+    return undefined;
+  }
+  const rules: string[] = [];
+  let depth = 0;
+  let current = '';
+  for (const char of value) {
+    if (char === ',' && depth === 0) {
+      rules.push(current);
+      current = '';
+      continue;
+    }
+    depth += char === '(' ? 1 : char === ')' ? -1 : 0;
+    current += char;
+  }
+  rules.push(current);
+  return rules.map(rule => rule.trim()).filter(Boolean);
+}
+
+function globToRegExp(glob: string): RegExp {
+  let source = '';
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === '*' && glob[i + 1] === '*') {
+      source += '.*';
+      i++;
+      if (glob[i + 1] === '/') i++; // "**/" also matches no directories
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Does a Bash command start with prefix? Chained commands ("a; b", "a && b", "a | b") match only
+ * when every command in the chain does, and commands with substitutions never match
+ */
+function matchesCommandPrefix(prefix: string, command: string): boolean {
+  if (COMMAND_SUBSTITUTION_PATTERN.test(command)) {
+    return false;
+  }
+  const segments = splitCommandSegments(command);
+  return segments.length > 0 && segments.every(segment => segment.startsWith(prefix));
+}
+
+/**
+ * Does a specifier accept value? Bash-style "prefix:*" matches by prefix, file tools match globs,
+ * "domain:host" matches WebFetch hosts, anything else must be equal
+ */
+function matchesSpecifier(tool: string, specifier: string, value: string): boolean {
+  if (specifier.endsWith(':*')) {
+    const prefix = specifier.slice(0, -2);
+    return tool === 'Bash' ? matchesCommandPrefix(prefix, value) : value.startsWith(prefix);
+  }
+  if (tool in PATH_INPUT_FIELDS) {
+    return globToRegExp(specifier).test(value);
+  }
+  return specifier === value;
+}
+
+/**
+ * The value of a tool use a rule specifier is compared against
+ */
+function getRuleSubject(toolName: string, input: Record<string, unknown>, cwd: string): string | undefined {
+  if (toolName === 'Bash') {
+    return typeof input.command === 'string' ? input.command.trim() : undefined;
+  }
+  if (toolName === 'WebFetch') {
+    try {
+      return `domain:${new URL(String(input.url)).hostname}`;
+    } catch {
+      return undefined;
+    }
+  }
+  const field = PATH_INPUT_FIELDS[toolName];
+  if (field) {
+    const value = typeof input[field] === 'string' ? input[field] as string : cwd;
+    // Rules are written relative to the working directory
+    const relative = path.relative(cwd, path.resolve(cwd, value));
+    return relative.split(path.sep).join('/') || '.';
+  }
+  return undefined;
+}
+
+/**
+ * Does rule cover a tool use? "mcp__server" covers every tool of that MCP server
+ */
+export function matchesToolRule(rule: string, toolName: string, input: Record<string, unknown> = {}, cwd: string = process.cwd()): boolean {
+  const parsed = parseToolRule(rule);
+  if (!parsed) {
+    return false;
+  }
+  if (parsed.tool !== toolName && !(parsed.tool.startsWith('mcp__') && toolName.startsWith(`${parsed.tool}__`))) {
+    return false;
+  }
+  if (parsed.specifier === undefined) {
+    return true;
+  }
+  const subject = getRuleSubject(toolName, input, cwd);
+  return subject !== undefined && matchesSpecifier(toolName, parsed.specifier, subject);
+}
+
+/**
+ * Is a requested rule within a ceiling rule? The ceiling must name the same tool and either
+ * have no specifier or accept the requested specifier itself
+ */
+function coversRule(ceiling: string, requested: string): boolean {
+  const outer = parseToolRule(ceiling);
+  const inner = parseToolRule(requested);
+  if (!outer || !inner) {
+    return false;
+  }
+  if (outer.tool !== inner.tool && !(outer.tool.startsWith('mcp__') && inner.tool.startsWith(`${outer.tool}__`))) {
+    return false;
+  }
+  if (outer.specifier === undefined) {
+    return true;
+  }
+  return inner.specifier !== undefined && matchesSpecifier(inner.tool, outer.specifier, inner.specifier.replace(/:\*$/, ''));
+}
+
+/**
+ * Validate tool lists and check that requested allowedTools stay within the ceiling,
+ * returning an error message or null
+ */
+export function getToolPolicyError(requested: Record<string, unknown>, ceiling: ToolPolicy = {}): string | null {
+  for (const field of ['allowedTools', 'disallowedTools'] as const) {
+    const value = requested[field];
+    if (value === undefined) continue;
+    if (!Array.isArray(value) || !value.every(rule => typeof rule === 'string')) {
+      return `${field} must be an array of strings`;
+    }
+    const malformed = value.find(rule => !parseToolRule(rule));
+    if (malformed !== undefined) {
+      return `${field} entry "${malformed}" must look like Tool or Tool(specifier)`;
+    }
+  }
+
+  const allowed = requested.allowedTools as string[] | undefined;
+  if (allowed && ceiling.allowedTools) {
+    const widening = allowed.find(rule => !ceiling.allowedTools!.some(outer => coversRule(outer, rule)));
+    if (widening !== undefined) {
+      return `allowedTools entry "${widening}" is not permitted by the server (allowed: ${ceiling.allowedTools.join(', ')})`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Combine the operator ceiling with request options: requested allowedTools replace the ceiling's
+ * (after getToolPolicyError has checked they narrow it) and disallowed lists add up
+ */
+export function resolveToolPolicy(ceiling: ToolPolicy, requested: ToolPolicy): ToolPolicy {
+  const allowedTools = requested.allowedTools ?? ceiling.allowedTools;
+  const disallowedTools = Array.from(new Set([...(ceiling.disallowedTools ?? []), ...(requested.disallowedTools ?? [])]));
+  return {
+    ...(allowedTools && { allowedTools }),
+    ...(disallowedTools.length > 0 && { disallowedTools })
+  };
+}
+
+/**
+ * Whether a tool use passes the policy, with the reason when it does not
+ */
+export function checkToolUse(
+  policy: ToolPolicy,
+  toolName: string,
+  input: Record<string, unknown>,
+  cwd: string
+): { allowed: true } | { allowed: false; reason: string } {
+  // A chained Bash command is blocked when any command in the chain is
+  const commands = toolName === 'Bash' && typeof input.command === 'string' ? splitCommandSegments(input.command) : [];
+  const denied = policy.disallowedTools?.find(rule => matchesToolRule(rule, toolName, input, cwd)
+    || commands.some(command => matchesToolRule(rule, toolName, { ...input, command }, cwd)));
+  if (denied) {
+    return { allowed: false, reason: `${toolName} is blocked by the server rule ${denied}` };
+  }
+  if (policy.allowedTools && !policy.allowedTools.some(rule => matchesToolRule(rule, toolName, input, cwd))) {
+    return { allowed: false, reason: `${toolName} is not in the allowed tools for this query` };
+  }
+  return { allowed: true };
+}
+
+/**
+ * Permission handler that denies tool uses outside the policy before asking the caller;
+ * tool uses the policy allows are approved when there is no caller to ask
+ */
+export function createPolicyPermissionHandler(policy: ToolPolicy, cwd: string, requestPermission?: PermissionHandler): PermissionHandler {
+  return async prompt => {
+    const check = checkToolUse(policy, prompt.toolName, prompt.input, cwd);
+    if (!check.allowed) {
+      return { behavior: 'deny', message: check.reason };
+    }
+    return requestPermission ? requestPermission(prompt) : { behavior: 'allow' };
+  };
+}
@@ -0,0 +1,205 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+export interface CommandPolicy {
+  allowCommands: string[];
+  denyCommands: string[];
+  allowedRoots: string[];
+  scrubEnv: string[];
+  maxOutputBytes: number;
+  maxTimeout: number; // 0 means no maximum
+}
+
+export type CommandPolicyRule = 'deny' | 'allow' | 'cwd';
+
+/**
+ * Raised when a command or working directory is rejected by the policy
+ */
+export class CommandPolicyViolationError extends Error {
+  constructor(public readonly rule: CommandPolicyRule, message: string) {
+    super(message);
+    this.name = 'CommandPolicyViolationError';
+  }
+}
+
+/**
+ * Compile a command pattern: /regex/ is used as-is, anything else is a glob
+ * where * matches any run of characters and the whole command must match
+ */
+function compilePattern(pattern: string): RegExp {
+  const regexMatch = pattern.match(/^\/(.+)\/([a-z]*)$/);
+  if (regexMatch) {
+    return new RegExp(regexMatch[1], regexMatch[2]);
+  }
+  const escaped = pattern.replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*');
+  return new RegExp(`^${escaped}$`);
+}
+
+/**
+ * Split a shell string into the individual commands it chains together
+ */
+export function splitCommandSegments(command: string): string[] {
+  return command
+    .split(/\|\||&&|;|\n|\||(?<![>&])&(?![>&])/)
+    .map(segment => segment.trim())
+    .filter(Boolean);
+}
+
+// Commands that run the rest of their arguments as another command
+const WRAPPER_COMMANDS = new Set(['sudo', 'env', 'exec', 'command', 'nohup']);
+
+/**
+ * Reduce a command segment to the command it runs: "/bin/rm x", "sudo rm x" and "FOO=1 rm x" become "rm x"
+ */
+export function normalizeCommandSegment(segment: string): string {
+  const words = segment.split(/\s+/).filter(Boolean);
+  const commandWord = (word: string) => path.posix.basename(word.replace(/['"\\]/g, ''));
+
+  let index = 0;
+  while (index < words.length) {
+    if (/^[A-Za-z_][A-Za-z0-9_]*=/.test(words[index])) {
+      index++;
+    } else if (WRAPPER_COMMANDS.has(commandWord(words[index]))) {
+      index++;
+      while (index < words.length && words[index].startsWith('-')) {
+        index++;
+      }
+    } else {
+      break;
+    }
+  }
+
+  if (index >= words.length) {
+    return words.join(' ');
+  }
+  return [commandWord(words[index]), ...words.slice(index + 1)].join(' ');
+}
+
+// Shells that run a command string given with -c, or the commands piped into them
+const SHELL_COMMANDS = new Set(['sh', 'bash', 'dash', 'zsh', 'ksh', 'ash', 'fish']);
+
+/**
+ * Whether a normalized segment runs commands the deny list cannot see: eval, "sh -c ..." or "... | sh"
+ */
+function runsHiddenCommands(segment: string): boolean {
+  const [commandWord, ...args] = segment.split(' ');
+  if (commandWord === 'eval') {
+    return true;
+  }
+  if (!SHELL_COMMANDS.has(commandWord)) {
+    return false;
+  }
+  return args.some(arg => /^-[A-Za-z]*c[A-Za-z]*$/.test(arg)) || args.every(arg => arg.startsWith('-'));
+}
+
+/**
+ * Check a command string against the allow and deny lists
+ *
+ * Deny patterns only see the command line, so shells given -c or stdin and eval are
+ * rejected outright; scripts and other interpreters (python -c, ...) are not inspected
+ */
+export function checkCommand(command: string, policy: CommandPolicy): void {
+  if (policy.denyCommands.length === 0 && policy.allowCommands.length === 0) {
+    return;
+  }
+
+  // Substitutions can hide arbitrary commands from the segment checks
+  if (/`|\$\(|[<>]\(/.test(command)) {
+    throw new CommandPolicyViolationError(
+      policy.allowCommands.length > 0 ? 'allow' : 'deny',
+      'Command substitution is not permitted when a command policy is configured'
+    );
+  }
+
+  const segments = splitCommandSegments(command);
+  const normalized = segments.map(normalizeCommandSegment);
+  const candidates = [command.trim(), ...segments, ...normalized];
+
+  const hidden = policy.denyCommands.length > 0 && normalized.find(runsHiddenCommands);
+  if (hidden) {
+    throw new CommandPolicyViolationError(
+      'deny',
+      `Shell command strings and eval are not permitted when a deny list is configured: ${hidden}`
+    );
+  }
+
+  for (const pattern of policy.denyCommands) {
+    const regex = compilePattern(pattern);
+    const match = candidates.find(candidate => regex.test(candidate));
+    if (match) {
+      throw new CommandPolicyViolationError('deny', `Command matches denied pattern "${pattern}": ${match}`);
+    }
+  }
+
+  if (policy.allowCommands.length === 0) {
+    return;
+  }
+
+  const allowed = policy.allowCommands.map(compilePattern);
+  for (const segment of segments) {
+    if (!allowed.some(regex => regex.test(segment))) {
+      throw new CommandPolicyViolationError('allow', `Command is not in the allow list: ${segment}`);
+    }
+  }
+}
+
+/**
+ * Resolve symlinks for paths that exist so roots cannot be escaped through links
+ */
+function realPath(target: string): string {
+  try {
+    return fs.realpathSync(target);
+  } catch {
+    return path.resolve(target);
+  }
+}
+
+/**
+ * Resolve the working directory and check it lies inside a permitted root
+ */
+export function resolveWorkingDirectory(cwd: string | undefined, policy: CommandPolicy): string {
+  const resolved = realPath(path.resolve(cwd || process.cwd()));
+
+  if (policy.allowedRoots.length === 0) {
+    return resolved;
+  }
+
+  const inside = policy.allowedRoots.some(root => {
+    const relative = path.relative(realPath(root), resolved);
+    return relative === '' || (!relative.startsWith('..') && !path.isAbsolute(relative));
+  });
+
+  if (!inside) {
+    throw new CommandPolicyViolationError(
+      'cwd',
+      `Working directory ${resolved} is outside the permitted roots: ${policy.allowedRoots.join(', ')}`
+    );
+  }
+
+  return resolved;
+}
+
+/**
+ * Copy an environment without the variables the policy scrubs
+ */
+export function scrubEnvironment(env: NodeJS.ProcessEnv, policy: CommandPolicy): NodeJS.ProcessEnv {
+  const patterns = policy.scrubEnv.map(compilePattern);
+  const scrubbed: NodeJS.ProcessEnv = {};
+  for (const [name, value] of Object.entries(env)) {
+    if (!patterns.some(regex => regex.test(name))) {
+      scrubbed[name] = value;
+    }
+  }
+  return scrubbed;
+}
+
+/**
+ * Clamp a requested limit to the policy maximum (0 means unlimited on either side)
+ */
+export function clampLimit(requested: number | undefined, maximum: number): number {
+  const value = requested && requested > 0 ? requested : 0;
+  if (maximum <= 0) {
+    return value;
+  }
+  return value > 0 ? Math.min(value, maximum) : maximum;
+}
@@ -0,0 +1,338 @@
+import { spawn } from 'child_process';
+import { randomUUID } from 'crypto';
+import type { AgentProvider, AgentRequestContext } from '../../core/agent-registry';
+import { commandPolicyConfig } from '../../config/command-policy';
+import {
+  CommandPolicy,
+  CommandPolicyViolationError,
+  checkCommand,
+  clampLimit,
+  resolveWorkingDirectory,
+  scrubEnvironment,
+} from './command-policy';
+
+// Grace period between SIGTERM and SIGKILL when stopping a command
+const KILL_GRACE_PERIOD_MS = 5000;
+
+export interface ExecuteCommandArgs {
+  command: string;
+  cwd?: string;
+  timeout?: number; // Timeout in milliseconds
+  maxOutputBytes?: number; // Cap on captured output per stream
+}
+
+export interface ExecuteCommandOutput {
+  commandId: string;
+  exitCode: number | null;
+  signal: string | null;
+  stdout: string;
+  stderr: string;
+  durationMs: number;
+  timedOut: boolean;
+  cancelled: boolean;
+  stdoutTruncated: boolean;
+  stderrTruncated: boolean;
+}
+
+export interface ExecuteCommandResult {
+  content: Array<{
+    type: 'text';
+    text: string;
+  }>;
+  structuredContent?: ExecuteCommandOutput;
+  isError: boolean;
+}
+
+/**
+ * Type guard to check if an object is valid ExecuteCommandArgs
+ */
+export function isExecuteCommandArgs(args: unknown): args is ExecuteCommandArgs {
+  return (
+    typeof args === 'object' &&
+    args !== null &&
+    'command' in args &&
+    typeof (args as any).command === 'string' &&
+    (args as any).command.length > 0
+  );
+}
+
+/**
+ * Get the tool definition for execute_command
+ */
+export function getExecuteCommandToolDefinition() {
+  return {
+    name: 'execute_command',
+    description: 'Execute a shell command, streaming stdout/stderr as notifications, and return a structured result',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        command: { type: 'string', description: 'The shell command to execute' },
+        cwd: { type: 'string', description: 'Working directory for command execution (optional)' },
+        timeout: {
+          type: 'number',
+          description: commandPolicyConfig.maxTimeout > 0
+            ? `Command timeout in milliseconds (optional, default and maximum: ${commandPolicyConfig.maxTimeout})`
+            : 'Command timeout in milliseconds (optional, default: 0 which means no timeout)'
+        },
+        maxOutputBytes: { type: 'number', description: `Maximum bytes of stdout and of stderr to capture (optional, default and maximum: ${commandPolicyConfig.maxOutputBytes})` },
+      },
+      required: ['command'],
+    },
+    outputSchema: {
+      type: 'object',
+      properties: {
+        commandId: { type: 'string' },
+        exitCode: { type: ['number', 'null'], description: 'Process exit code, null if killed by a signal' },
+        signal: { type: ['string', 'null'], description: 'Signal that terminated the process, if any' },
+        stdout: { type: 'string' },
+        stderr: { type: 'string' },
+        durationMs: { type: 'number' },
+        timedOut: { type: 'boolean' },
+        cancelled: { type: 'boolean' },
+        stdoutTruncated: { type: 'boolean' },
+        stderrTruncated: { type: 'boolean' },
+      },
+      required: ['commandId', 'exitCode', 'signal', 'stdout', 'stderr', 'durationMs', 'timedOut', 'cancelled', 'stdoutTruncated', 'stderrTruncated'],
+    },
+  };
+}
+
+/**
+ * Capture stream output up to a byte limit
+ */
+class OutputBuffer {
+  private chunks: string[] = [];
+  private remaining: number;
+  truncated = false;
+
+  constructor(maxBytes: number) {
+    this.remaining = maxBytes;
+  }
+
+  /**
+   * Append a chunk, returning the part that fit (empty once the limit is hit)
+   */
+  append(chunk: string): string {
+    if (this.remaining <= 0) {
+      this.truncated = true;
+      return '';
+    }
+
+    const size = Buffer.byteLength(chunk);
+    let accepted = chunk;
+    if (size > this.remaining) {
+      accepted = Buffer.from(chunk).subarray(0, this.remaining).toString();
+      this.truncated = true;
+    }
+
+    this.remaining -= Buffer.byteLength(accepted);
+    this.chunks.push(accepted);
+    return accepted;
+  }
+
+  toString(): string {
+    return this.chunks.join('');
+  }
+}
+
+/**
+ * Handle execute_command execution without blocking the event loop
+ */
+export async function handleExecuteCommand(
+  args: ExecuteCommandArgs,
+  context: AgentRequestContext = {},
+  policy: CommandPolicy = commandPolicyConfig
+): Promise<ExecuteCommandResult> {
+  const { command } = args;
+  const timeout = clampLimit(args.timeout, policy.maxTimeout);
+  const maxOutputBytes = clampLimit(args.maxOutputBytes, policy.maxOutputBytes) || Infinity;
+  const { sendNotification, signal } = context;
+  const commandId = randomUUID();
+
+  context.log?.('debug', 'execute_command', {
+    message: 'Request received',
+    command,
+    cwd: args.cwd || 'current directory',
+    timeout
+  });
+
+  let cwd: string;
+  try {
+    checkCommand(command, policy);
+    cwd = resolveWorkingDirectory(args.cwd, policy);
+  } catch (error) {
+    if (error instanceof CommandPolicyViolationError) {
+      context.log?.('warning', 'execute_command', { message: 'Command rejected by policy', command, rule: error.rule });
+      return {
+        content: [{ type: 'text', text: `Command policy violation (${error.rule}): ${error.message}` }],
+        isError: true,
+      };
+    }
+    throw error;
+  }
+
+  if (signal?.aborted) {
+    throw new Error('Command cancelled before execution');
+  }
+
+  return new Promise((resolve) => {
+    const startTime = Date.now();
+    const stdout = new OutputBuffer(maxOutputBytes);
+    const stderr = new OutputBuffer(maxOutputBytes);
+    let sequence = 0;
+    let timedOut = false;
+    let cancelled = false;
+    let settled = false;
+    let timeoutHandle: NodeJS.Timeout | null = null;
+    let killHandle: NodeJS.Timeout | null = null;
+
+    // Run in its own process group so the whole shell pipeline can be killed
+    const child = spawn(command, {
+      cwd,
+      env: scrubEnvironment(process.env, policy),
+      shell: true,
+      stdio: ['ignore', 'pipe', 'pipe'],
+      detached: process.platform !== 'win32',
+    });
+
+    const killChild = (killSignal: NodeJS.Signals) => {
+      if (child.pid === undefined) {
+        return;
+      }
+      try {
+        if (process.platform !== 'win32') {
+          // Signal the group even once the shell has exited: its background jobs can still hold the pipes open
+          process.kill(-child.pid, killSignal);
+        } else if (child.exitCode === null && child.signalCode === null) {
+          child.kill(killSignal);
+        }
+      } catch {
+        // Process group already exited
+      }
+    };
+
+    const stopChild = () => {
+      killChild('SIGTERM');
+      killHandle = setTimeout(() => killChild('SIGKILL'), KILL_GRACE_PERIOD_MS);
+    };
+
+    const onAbort = () => {
+      cancelled = true;
+      context.log?.('info', 'execute_command', { message: 'Cancellation requested', commandId, command });
+      stopChild();
+    };
+
+    const cleanup = () => {
+      if (timeoutHandle) clearTimeout(timeoutHandle);
+      if (killHandle) clearTimeout(killHandle);
+      signal?.removeEventListener('abort', onAbort);
+    };
+
+    const finish = (exitCode: number | null, exitSignal: string | null, failure?: string) => {
+      if (settled) return;
+      settled = true;
+      cleanup();
+
+      const output: ExecuteCommandOutput = {
+        commandId,
+        exitCode,
+        signal: exitSignal,
+        stdout: stdout.toString(),
+        stderr: failure ? stderr.toString() + failure : stderr.toString(),
+        durationMs: Date.now() - startTime,
+        timedOut,
+        cancelled,
+        stdoutTruncated: stdout.truncated,
+        stderrTruncated: stderr.truncated,
+      };
+      const succeeded = exitCode === 0 && !failure;
+
+      let text: string;
+      if (succeeded) {
+        text = output.stdout || 'Command executed successfully with no output';
+      } else if (timedOut) {
+        text = `Command timed out after ${timeout}ms`;
+      } else if (cancelled) {
+        text = 'Command cancelled';
+      } else {
+        const exitDescription = exitCode !== null ? exitCode : exitSignal || 'unknown';
+        text = `Command failed with exit code ${exitDescription}: ${output.stderr || output.stdout}`;
+      }
+      if (output.stdoutTruncated || output.stderrTruncated) {
+        text += `\n[output truncated at ${maxOutputBytes} bytes]`;
+      }
+
+      context.log?.(succeeded ? 'info' : 'error', 'execute_command', {
+        message: succeeded ? `Command executed successfully in ${output.durationMs}ms` : 'Command failed',
+        command,
+        exitCode,
+        signal: exitSignal,
+        timedOut,
+        cancelled,
+        outputLength: output.stdout.length,
+      });
+
+      resolve({
+        content: [{ type: 'text', text }],
+        structuredContent: output,
+        isError: !succeeded,
+      });
+    };
+
+    const forward = (stream: 'stdout' | 'stderr', buffer: OutputBuffer) => (data: string) => {
+      const chunk = buffer.append(data);
+      if (!chunk || !sendNotification) return;
+
+      sequence++;
+      sendNotification({
+        method: 'notifications/message',
+        params: {
+          level: 'info',
+          logger: 'execute_command',
+          data: JSON.stringify({
+            type: 'command_output',
+            commandId,
+            stream,
+            chunk,
+            timestamp: new Date().toISOString(),
+            sequence
+          })
+        }
+      }).catch(() => {
+        // Client may not support notifications; output is still returned in the result
+      });
+    };
+
+    child.stdout.setEncoding('utf8');
+    child.stderr.setEncoding('utf8');
+    child.stdout.on('data', forward('stdout', stdout));
+    child.stderr.on('data', forward('stderr', stderr));
+
+    if (timeout > 0) {
+      timeoutHandle = setTimeout(() => {
+        timedOut = true;
+        context.log?.('warning', 'execute_command', { message: `Timeout reached after ${timeout}ms`, commandId, command });
+        stopChild();
+      }, timeout);
+    }
+
+    signal?.addEventListener('abort', onAbort);
+
+    child.on('close', (code, exitSignal) => finish(code, exitSignal));
+    child.on('error', (error: any) => finish(null, null, error.message || 'Command execution failed'));
+  });
+}
+
+/**
+ * Built-in provider for the execute_command tool
+ */
+export const executeCommandProvider: AgentProvider<ExecuteCommandArgs> = {
+  id: 'execute_command',
+  toolName: 'execute_command',
+  kind: 'tool',
+  capabilities: { streaming: true, cancellation: true, resume: false },
+  invalidArgumentsMessage: 'command is required',
+  getToolDefinition: getExecuteCommandToolDefinition,
+  isValidArgs: isExecuteCommandArgs,
+  handle: (args, context) => handleExecuteCommand(args, context),
+};
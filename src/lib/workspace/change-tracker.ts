@@ -0,0 +1,210 @@
+import { execFile } from 'child_process';
+import { createHash, randomUUID } from 'crypto';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { promisify } from 'util';
+import { changeTrackingConfig } from '../../config/change-tracking';
+import { log, error as logError } from '../../utils/logger';
+
+const execFileAsync = promisify(execFile);
+
+export interface ChangedFile {
+  status: string; // git name-status code: A, M, D, R100...
+  path: string;
+}
+
+/**
+ * What an agent run changed in its working tree
+ */
+export interface WorkspaceChanges {
+  mode: 'git' | 'scan'; // scan: non-git directory, changed files only
+  files: ChangedFile[];
+  diff: string; // Unified diff (empty in scan mode)
+  diffTruncated: boolean;
+}
+
+export type WorkspaceSnapshot =
+  | { mode: 'git'; root: string; tree: string }
+  | { mode: 'scan'; root: string; hashes: Map<string, string> };
+
+const SCAN_SKIP_DIRS = new Set(['.git', 'node_modules']);
+
+async function git(cwd: string, args: string[], env?: NodeJS.ProcessEnv): Promise<string> {
+  const { stdout } = await execFileAsync('git', args, { cwd, env, maxBuffer: 256 * 1024 * 1024 });
+  return stdout;
+}
+
+/**
+ * Record the working tree as a git tree object, using a temporary index
+ * so the repository's own index and history are left untouched
+ */
+async function snapshotGit(root: string): Promise<WorkspaceSnapshot> {
+  const indexFile = path.join(os.tmpdir(), `mcp-changes-${randomUUID()}.index`);
+  const env = { ...process.env, GIT_INDEX_FILE: indexFile };
+
+  try {
+    // Seed from the real index so unchanged files are not rehashed
+    const realIndex = path.resolve(root, (await git(root, ['rev-parse', '--git-path', 'index'])).trim());
+    if (fs.existsSync(realIndex)) {
+      fs.copyFileSync(realIndex, indexFile);
+    }
+
+    await git(root, ['add', '--all'], env);
+    const tree = (await git(root, ['write-tree'], env)).trim();
+    return { mode: 'git', root, tree };
+  } finally {
+    fs.rmSync(indexFile, { force: true });
+  }
+}
+
+/**
+ * Fingerprint a file by content hash, or by size and mtime when it is larger than maxScanFileBytes
+ * Returns null for files that disappeared while scanning
+ */
+async function fingerprintFile(file: string): Promise<string | null> {
+  try {
+    const stats = await fs.promises.stat(file);
+    if (stats.size > changeTrackingConfig.maxScanFileBytes) {
+      return `${stats.size}:${stats.mtimeMs}`;
+    }
+    return createHash('sha1').update(await fs.promises.readFile(file)).digest('hex');
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Fingerprint every file under root (non-git directories)
+ */
+async function snapshotScan(root: string): Promise<WorkspaceSnapshot> {
+  const hashes = new Map<string, string>();
+  const pending = [''];
+
+  while (pending.length > 0 && hashes.size < changeTrackingConfig.maxScanFiles) {
+    const dir = pending.pop()!;
+    for (const entry of await fs.promises.readdir(path.join(root, dir), { withFileTypes: true })) {
+      const relative = path.join(dir, entry.name);
+      if (entry.isDirectory()) {
+        if (!SCAN_SKIP_DIRS.has(entry.name)) {
+          pending.push(relative);
+        }
+      } else if (entry.isFile()) {
+        const fingerprint = await fingerprintFile(path.join(root, relative));
+        if (fingerprint) {
+          hashes.set(relative, fingerprint);
+        }
+      }
+    }
+  }
+
+  return { mode: 'scan', root, hashes };
+}
+
+/**
+ * Snapshot the working tree containing cwd: the whole repository for git directories, else cwd itself
+ */
+export async function takeSnapshot(cwd: string): Promise<WorkspaceSnapshot> {
+  let root: string | null = null;
+  try {
+    root = (await git(cwd, ['rev-parse', '--show-toplevel'])).trim();
+  } catch {
+    // Not a git repository (or git is not installed)
+  }
+
+  return root ? snapshotGit(root) : snapshotScan(cwd);
+}
+
+/**
+ * Compare two snapshots of the same working tree
+ */
+export async function diffSnapshots(before: WorkspaceSnapshot, after: WorkspaceSnapshot): Promise<WorkspaceChanges> {
+  if (before.mode === 'git' && after.mode === 'git') {
+    const nameStatus = await git(after.root, ['diff', '--name-status', '-M', before.tree, after.tree]);
+    const fullDiff = await git(after.root, ['diff', '-M', before.tree, after.tree]);
+    const diffBuffer = Buffer.from(fullDiff);
+    const diffTruncated = diffBuffer.length > changeTrackingConfig.maxDiffBytes;
+
+    return {
+      mode: 'git',
+      files: nameStatus
+        .split('\n')
+        .filter(line => line.trim())
+        .map(line => {
+          const [status, ...paths] = line.split('\t');
+          return { status, path: paths[paths.length - 1] };
+        }),
+      diff: diffTruncated ? diffBuffer.subarray(0, changeTrackingConfig.maxDiffBytes).toString() : fullDiff,
+      diffTruncated
+    };
+  }
+
+  if (before.mode === 'scan' && after.mode === 'scan') {
+    const files: ChangedFile[] = [];
+    for (const [file, hash] of after.hashes) {
+      const previous = before.hashes.get(file);
+      if (previous === undefined) {
+        files.push({ status: 'A', path: file });
+      } else if (previous !== hash) {
+        files.push({ status: 'M', path: file });
+      }
+    }
+    for (const file of before.hashes.keys()) {
+      if (!after.hashes.has(file)) {
+        files.push({ status: 'D', path: file });
+      }
+    }
+
+    files.sort((a, b) => a.path.localeCompare(b.path));
+    return { mode: 'scan', files, diff: '', diffTruncated: false };
+  }
+
+  throw new Error('Cannot compare snapshots of different kinds');
+}
+
+/**
+ * Snapshot cwd around an agent run and report what it changed
+ * Changes are null when the working tree could not be snapshotted
+ */
+export async function trackChanges<T>(
+  cwd: string,
+  run: () => Promise<T>
+): Promise<{ result: T; changes: WorkspaceChanges | null }> {
+  let before: WorkspaceSnapshot | null = null;
+  try {
+    before = await takeSnapshot(cwd);
+  } catch (error) {
+    logError('[change-tracker] Failed to snapshot working tree, running without change tracking:', error);
+  }
+
+  const result = await run();
+  if (!before) {
+    return { result, changes: null };
+  }
+
+  try {
+    const changes = await diffSnapshots(before, await takeSnapshot(cwd));
+    log('[change-tracker] Run changed files:', { cwd, mode: changes.mode, files: changes.files.length });
+    return { result, changes };
+  } catch (error) {
+    logError('[change-tracker] Failed to compute changes:', error);
+    return { result, changes: null };
+  }
+}
+
+/**
+ * Changed-files list for text tool results
+ */
+export function describeChanges(changes: WorkspaceChanges): string {
+  if (changes.files.length === 0) {
+    return 'Changed files: none';
+  }
+  return ['Changed files:', ...changes.files.map(file => `  ${file.status} ${file.path}`)].join('\n');
+}
+
+/**
+ * Text content block listing the changed files; the diff is only in structuredContent.changes
+ */
+export function formatChangesContent(changes: WorkspaceChanges): Array<{ type: 'text'; text: string }> {
+  return [{ type: 'text', text: describeChanges(changes) }];
+}
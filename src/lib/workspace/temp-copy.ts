@@ -0,0 +1,36 @@
+import { randomUUID } from 'crypto';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { log, error as logError } from '../../utils/logger';
+
+// Dependency directories are large and reinstallable, and the repository history is not needed
+// to edit files, so copies leave them out
+const COPY_SKIP_DIRS = new Set(['node_modules', '.git']);
+
+/**
+ * Copy cwd into a temporary directory (without node_modules and .git)
+ */
+export async function createTempCopy(cwd: string, label: string): Promise<string> {
+  const copyPath = path.join(os.tmpdir(), `mcp-copy-${label}-${randomUUID().slice(0, 8)}`);
+  await fs.promises.cp(cwd, copyPath, {
+    recursive: true,
+    filter: source => !COPY_SKIP_DIRS.has(path.basename(source))
+  });
+  log('[temp-copy] Created copy:', { source: cwd, path: copyPath });
+  return copyPath;
+}
+
+/**
+ * Run an agent in a throwaway copy of cwd, removing the copy afterwards
+ */
+export async function runInTempCopy<T>(cwd: string, label: string, run: (copyCwd: string) => Promise<T>): Promise<T> {
+  const copyPath = await createTempCopy(cwd, label);
+  try {
+    return await run(copyPath);
+  } finally {
+    await fs.promises.rm(copyPath, { recursive: true, force: true }).catch(error => {
+      logError('[temp-copy] Failed to remove copy:', error);
+    });
+  }
+}
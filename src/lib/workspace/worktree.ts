@@ -0,0 +1,206 @@
+import { execFile } from 'child_process';
+import { randomUUID } from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { promisify } from 'util';
+import envPaths from 'env-paths';
+import { log, error as logError } from '../../utils/logger';
+import type { ChangedFile } from './change-tracker';
+
+const execFileAsync = promisify(execFile);
+
+export type IsolationMode = 'none' | 'worktree';
+
+/**
+ * A git worktree created for one agent session
+ */
+export interface WorktreeInfo {
+  id: string;
+  repoRoot: string; // Repository the worktree was created from
+  path: string; // Worktree root
+  cwd: string; // Working directory inside the worktree (mirrors the requested cwd)
+  branch: string;
+  baseCommit: string;
+  createdAt: string;
+}
+
+export interface WorktreeChanges {
+  files: ChangedFile[];
+  diff: string;
+}
+
+export interface WorktreeRunSummary {
+  branch: string;
+  baseCommit: string;
+  commit: string | null; // Commit with the agent's changes, null if nothing changed
+  files: ChangedFile[];
+}
+
+const COMMIT_IDENTITY = ['-c', 'user.name=mcp-coding-agents', '-c', 'user.email=mcp-coding-agents@localhost'];
+
+async function git(cwd: string, args: string[]): Promise<string> {
+  const { stdout } = await execFileAsync('git', args, { cwd, maxBuffer: 64 * 1024 * 1024 });
+  return stdout;
+}
+
+/**
+ * Directory holding worktrees: MCP_WORKTREE_DIR or the user data directory
+ */
+export function resolveWorktreeRoot(): string {
+  if (process.env.MCP_WORKTREE_DIR) {
+    return process.env.MCP_WORKTREE_DIR;
+  }
+  const paths = envPaths('mcp-coding-agents', { suffix: '' });
+  return path.join(paths.data, 'worktrees');
+}
+
+/**
+ * Create a worktree and branch off HEAD of the repository containing cwd
+ */
+export async function createWorktree(cwd: string, label: string): Promise<WorktreeInfo> {
+  let repoRoot: string;
+  try {
+    repoRoot = (await git(cwd, ['rev-parse', '--show-toplevel'])).trim();
+  } catch {
+    throw new Error(`Worktree isolation requires a git repository: ${cwd}`);
+  }
+
+  const baseCommit = (await git(repoRoot, ['rev-parse', 'HEAD'])).trim();
+  const id = randomUUID().slice(0, 8);
+  const branch = `mcp/${label}-${id}`;
+  const worktreePath = path.join(resolveWorktreeRoot(), `${path.basename(repoRoot)}-${label}-${id}`);
+
+  fs.mkdirSync(path.dirname(worktreePath), { recursive: true });
+  await git(repoRoot, ['worktree', 'add', '-b', branch, worktreePath, baseCommit]);
+
+  // Keep the agent in the same subdirectory it asked for
+  const relative = path.relative(fs.realpathSync(repoRoot), fs.realpathSync(cwd));
+  const info: WorktreeInfo = {
+    id,
+    repoRoot,
+    path: worktreePath,
+    cwd: path.join(worktreePath, relative),
+    branch,
+    baseCommit,
+    createdAt: new Date().toISOString()
+  };
+
+  log('[worktree] Created worktree:', { branch, path: worktreePath, baseCommit });
+  return info;
+}
+
+/**
+ * Changed files and unified diff of the worktree against its base commit,
+ * including uncommitted and untracked files
+ */
+export async function getWorktreeChanges(worktree: WorktreeInfo): Promise<WorktreeChanges> {
+  // Mark untracked files as intent-to-add so they appear in the diff
+  await git(worktree.path, ['add', '--all', '--intent-to-add']);
+
+  const nameStatus = await git(worktree.path, ['diff', '--name-status', worktree.baseCommit]);
+  const diff = await git(worktree.path, ['diff', worktree.baseCommit]);
+
+  const files = nameStatus
+    .split('\n')
+    .filter(line => line.trim())
+    .map(line => {
+      const [status, ...rest] = line.split('\t');
+      return { status, path: rest[rest.length - 1] };
+    });
+
+  return { files, diff };
+}
+
+/**
+ * Commit everything in the worktree to its branch
+ * Returns the new commit, or null if there was nothing to commit
+ */
+export async function commitWorktree(worktree: WorktreeInfo, message: string): Promise<string | null> {
+  await git(worktree.path, ['add', '--all']);
+  const status = await git(worktree.path, ['status', '--porcelain']);
+  if (!status.trim()) {
+    return null;
+  }
+
+  await git(worktree.path, [...COMMIT_IDENTITY, 'commit', '--no-verify', '-m', message]);
+  return (await git(worktree.path, ['rev-parse', 'HEAD'])).trim();
+}
+
+/**
+ * Commit the worktree's changes and merge its branch into the branch checked out in the repository
+ */
+export async function mergeWorktree(worktree: WorktreeInfo, message?: string): Promise<{ commit: string; files: WorktreeChanges['files'] }> {
+  const { files } = await getWorktreeChanges(worktree);
+  await commitWorktree(worktree, message || `Agent changes from ${worktree.branch}`);
+
+  try {
+    await git(worktree.repoRoot, [...COMMIT_IDENTITY, 'merge', '--no-ff', '--no-edit', worktree.branch]);
+  } catch (error: any) {
+    await git(worktree.repoRoot, ['merge', '--abort']).catch(() => undefined);
+    throw new Error(`Failed to merge ${worktree.branch}: ${(error.stderr || error.stdout || error.message).trim()}`);
+  }
+
+  const commit = (await git(worktree.repoRoot, ['rev-parse', 'HEAD'])).trim();
+  log('[worktree] Merged worktree:', { branch: worktree.branch, commit });
+  return { commit, files };
+}
+
+/**
+ * Remove the worktree directory, and its branch unless keepBranch is set
+ */
+export async function removeWorktree(worktree: WorktreeInfo, keepBranch: boolean = false): Promise<void> {
+  try {
+    await git(worktree.repoRoot, ['worktree', 'remove', '--force', worktree.path]);
+  } catch (error) {
+    logError('[worktree] Failed to remove worktree, pruning:', error);
+    fs.rmSync(worktree.path, { recursive: true, force: true });
+    await git(worktree.repoRoot, ['worktree', 'prune']).catch(() => undefined);
+  }
+
+  if (!keepBranch) {
+    await git(worktree.repoRoot, ['branch', '-D', worktree.branch]).catch(error => {
+      logError('[worktree] Failed to delete branch:', error);
+    });
+  }
+
+  log('[worktree] Removed worktree:', { branch: worktree.branch, keepBranch });
+}
+
+/**
+ * Run an agent in a throwaway worktree of the repository containing cwd
+ * Changes are committed to the worktree's branch, which is kept only if something changed
+ */
+export async function runInWorktree<T>(
+  cwd: string,
+  label: string,
+  run: (worktreeCwd: string) => Promise<T>
+): Promise<{ result: T; worktree: WorktreeRunSummary }> {
+  const worktree = await createWorktree(cwd, label);
+  let commit: string | null = null;
+
+  try {
+    const result = await run(worktree.cwd);
+    const { files } = await getWorktreeChanges(worktree);
+    commit = await commitWorktree(worktree, `${label} run in ${worktree.branch}`);
+    return {
+      result,
+      worktree: { branch: worktree.branch, baseCommit: worktree.baseCommit, commit, files }
+    };
+  } catch (error) {
+    // Keep partial work from failed runs on the branch
+    commit = await commitWorktree(worktree, `${label} run in ${worktree.branch} (failed)`).catch(() => null);
+    throw error;
+  } finally {
+    await removeWorktree(worktree, commit !== null);
+  }
+}
+
+/**
+ * One-line description of a worktree run for text tool results
+ */
+export function describeWorktreeRun(worktree: WorktreeRunSummary): string {
+  if (!worktree.commit) {
+    return 'Worktree: no files changed';
+  }
+  return `Worktree: ${worktree.files.length} file(s) changed, committed ${worktree.commit.slice(0, 12)} on branch ${worktree.branch}`;
+}
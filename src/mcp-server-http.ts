@@ -234,7 +234,7 @@ function createMCPServer(): Server {
         if (!isGeminiQueryArgs(args)) {
           throw new Error('Invalid arguments for gemini_query: prompt is required');
         }
-        return await handleGeminiQuery(args, extra?.signal);
+        return await handleGeminiQuery(args, extra?.sendNotification, extra?.signal);
       }
       
       case 'codex_query': {
@@ -0,0 +1,168 @@
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { CallToolRequestSchema, ListToolsRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+import { randomBytes } from 'crypto';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import type { McpHttpServerConfig } from '@anthropic-ai/claude-code';
+import { log, error as logError } from '../utils/logger';
+import type { PermissionDecision, PermissionHandler } from './permission-broker';
+
+// Claude addresses MCP tools as mcp__<server>__<tool>
+export const PERMISSION_MCP_SERVER_NAME = 'permissions';
+export const PERMISSION_TOOL_NAME = 'approve';
+
+/**
+ * MCP settings that route one Claude query's permission prompts to a handler
+ */
+export interface PermissionBridge {
+  mcpServer: McpHttpServerConfig;
+  permissionPromptToolName: string;
+  close(): void;
+}
+
+// Loopback server shared by every query; each query authenticates with its own token
+let bridgeServer: http.Server | null = null;
+let bridgeStarting: Promise<number> | null = null;
+const handlers: Map<string, PermissionHandler> = new Map();
+
+/**
+ * Shape Claude expects back from a permission prompt tool
+ */
+function toPromptResult(decision: PermissionDecision, input: Record<string, unknown>) {
+  const payload = decision.behavior === 'allow'
+    ? { behavior: 'allow', updatedInput: decision.updatedInput ?? input }
+    : { behavior: 'deny', message: decision.message || 'Denied by client' };
+  return { content: [{ type: 'text' as const, text: JSON.stringify(payload) }] };
+}
+
+function createPromptServer(handler: PermissionHandler): Server {
+  const server = new Server(
+    { name: 'mcp-coding-agents-permissions', version: '1.0.0' },
+    { capabilities: { tools: {} } }
+  );
+
+  server.setRequestHandler(ListToolsRequestSchema, async () => ({
+    tools: [{
+      name: PERMISSION_TOOL_NAME,
+      description: 'Ask the client that started this query to approve a tool use',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          tool_name: { type: 'string' },
+          input: { type: 'object' },
+          tool_use_id: { type: 'string' }
+        },
+        required: ['tool_name', 'input']
+      }
+    }]
+  }));
+
+  server.setRequestHandler(CallToolRequestSchema, async (request) => {
+    if (request.params.name !== PERMISSION_TOOL_NAME) {
+      throw new Error(`Unknown tool: ${request.params.name}`);
+    }
+    const args = (request.params.arguments || {}) as Record<string, any>;
+    const input = (args.input && typeof args.input === 'object') ? args.input : {};
+    try {
+      const decision = await handler({
+        toolName: String(args.tool_name),
+        input,
+        ...(typeof args.tool_use_id === 'string' && { toolUseId: args.tool_use_id })
+      });
+      return toPromptResult(decision, input);
+    } catch (error) {
+      logError('[permission-bridge] Permission handler failed:', error);
+      return toPromptResult({ behavior: 'deny', message: 'Permission check failed' }, input);
+    }
+  });
+
+  return server;
+}
+
+async function handleBridgeRequest(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+  const token = (req.headers.authorization || '').replace(/^Bearer /, '');
+  const handler = handlers.get(token);
+  if (!handler) {
+    res.writeHead(401).end();
+    return;
+  }
+  if (req.method !== 'POST') {
+    res.writeHead(405, { Allow: 'POST' }).end();
+    return;
+  }
+
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    chunks.push(chunk as Buffer);
+  }
+
+  // Stateless: a fresh server and transport per request
+  const server = createPromptServer(handler);
+  const transport = new StreamableHTTPServerTransport({ sessionIdGenerator: undefined, enableJsonResponse: true });
+  res.on('close', () => {
+    transport.close();
+    server.close();
+  });
+  await server.connect(transport);
+  await transport.handleRequest(req, res, JSON.parse(Buffer.concat(chunks).toString('utf8') || 'null'));
+}
+
+function startBridgeServer(): Promise<number> {
+  if (!bridgeStarting) {
+    bridgeStarting = new Promise((resolve, reject) => {
+      const server = http.createServer((req, res) => {
+        handleBridgeRequest(req, res).catch(error => {
+          logError('[permission-bridge] Request failed:', error);
+          if (!res.headersSent) {
+            res.writeHead(500).end();
+          }
+        });
+      });
+      server.on('error', reject);
+      server.listen(0, '127.0.0.1', () => {
+        // Do not keep the process alive for the bridge alone
+        server.unref();
+        bridgeServer = server;
+        const { port } = server.address() as AddressInfo;
+        log('[permission-bridge] Listening on loopback port:', port);
+        resolve(port);
+      });
+    });
+  }
+  return bridgeStarting;
+}
+
+/**
+ * Route one query's permission prompts to handler until close() is called
+ */
+export async function openPermissionBridge(handler: PermissionHandler): Promise<PermissionBridge> {
+  const port = await startBridgeServer();
+  const token = randomBytes(24).toString('hex');
+  handlers.set(token, handler);
+
+  return {
+    mcpServer: {
+      type: 'http',
+      url: `http://127.0.0.1:${port}/mcp`,
+      headers: { Authorization: `Bearer ${token}` }
+    },
+    permissionPromptToolName: `mcp__${PERMISSION_MCP_SERVER_NAME}__${PERMISSION_TOOL_NAME}`,
+    close: () => {
+      handlers.delete(token);
+    }
+  };
+}
+
+/**
+ * Stop the loopback server (for graceful shutdown and tests)
+ */
+export async function closePermissionBridgeServer(): Promise<void> {
+  const server = bridgeServer;
+  bridgeServer = null;
+  bridgeStarting = null;
+  handlers.clear();
+  if (server) {
+    await new Promise<void>(resolve => server.close(() => resolve()));
+  }
+}
@@ -0,0 +1,189 @@
+import { randomUUID } from 'crypto';
+import { permissionsConfig } from '../config/permissions';
+import { log } from '../utils/logger';
+import { PermissionBehavior, PermissionRule, PermissionStore, SQLitePermissionStore } from './sqlite-permission-store';
+
+/**
+ * A tool use Claude asks to approve
+ */
+export interface PermissionPrompt {
+  toolName: string;
+  input: Record<string, unknown>;
+  toolUseId?: string;
+}
+
+export interface PermissionDecision {
+  behavior: PermissionBehavior;
+  updatedInput?: Record<string, unknown>; // allow only: replaces the tool input
+  message?: string; // deny only: reason shown to Claude
+}
+
+/**
+ * Asks the caller of a query to approve a tool use
+ */
+export type PermissionHandler = (prompt: PermissionPrompt) => Promise<PermissionDecision>;
+
+/**
+ * A permission prompt waiting for a decision
+ */
+export interface PermissionRequest extends PermissionPrompt {
+  requestId: string;
+  scope: string; // Session ID for REST sessions, "mcp:<uuid>" per MCP connection
+  createdAt: string;
+  expiresAt: string;
+}
+
+export interface PermissionResponse extends PermissionDecision {
+  remember?: boolean; // Apply this behavior to later requests for the same tool in the scope
+}
+
+export interface PermissionBrokerConfig {
+  dbPath?: string; // Database file path (optional - uses MCP_DATABASE_PATH or user data dir)
+  store?: PermissionStore; // Override the SQLite store (e.g. for tests)
+  timeoutMs?: number; // Deny unanswered requests after this long (default: MCP_PERMISSION_TIMEOUT_MS)
+}
+
+interface PendingRequest {
+  request: PermissionRequest;
+  resolve: (decision: PermissionDecision) => void;
+}
+
+/**
+ * Holds permission prompts until a client decides them, remembering decisions per scope
+ */
+export class PermissionBroker {
+  private config: PermissionBrokerConfig;
+  private storeInstance: PermissionStore | null = null;
+  private pending: Map<string, PendingRequest> = new Map();
+
+  constructor(config: PermissionBrokerConfig = {}) {
+    this.config = config;
+  }
+
+  private get store(): PermissionStore {
+    if (!this.storeInstance) {
+      this.storeInstance = this.config.store || new SQLitePermissionStore(this.config.dbPath);
+    }
+    return this.storeInstance;
+  }
+
+  /**
+   * Decide a prompt from a remembered rule, or surface it and wait for respond()
+   * Requests are denied when they time out or signal aborts
+   */
+  requestPermission(
+    scope: string,
+    prompt: PermissionPrompt,
+    surface: (request: PermissionRequest) => void,
+    signal?: AbortSignal
+  ): Promise<PermissionDecision> {
+    const rule = this.store.getRule(scope, prompt.toolName);
+    if (rule) {
+      log('[permission-broker] Applying remembered decision:', { scope, toolName: prompt.toolName, behavior: rule.behavior });
+      return Promise.resolve(rule.behavior === 'allow'
+        ? { behavior: 'allow' }
+        : { behavior: 'deny', message: `${prompt.toolName} was denied earlier in this session` });
+    }
+    if (signal?.aborted) {
+      return Promise.resolve({ behavior: 'deny', message: 'Query cancelled' });
+    }
+
+    const timeoutMs = this.config.timeoutMs ?? permissionsConfig.timeoutMs;
+    const now = Date.now();
+    const request: PermissionRequest = {
+      requestId: randomUUID(),
+      scope,
+      ...prompt,
+      createdAt: new Date(now).toISOString(),
+      expiresAt: new Date(now + timeoutMs).toISOString()
+    };
+
+    return new Promise(resolve => {
+      const finish = (decision: PermissionDecision) => {
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', onAbort);
+        this.pending.delete(request.requestId);
+        resolve(decision);
+      };
+      const onAbort = () => finish({ behavior: 'deny', message: 'Query cancelled' });
+      const timer = setTimeout(() => {
+        log('[permission-broker] Permission request timed out:', { requestId: request.requestId, toolName: request.toolName });
+        finish({ behavior: 'deny', message: `No permission decision within ${timeoutMs}ms` });
+      }, timeoutMs);
+
+      signal?.addEventListener('abort', onAbort);
+      this.pending.set(request.requestId, { request, resolve: finish });
+      log('[permission-broker] Permission requested:', { requestId: request.requestId, scope, toolName: request.toolName });
+      surface(request);
+    });
+  }
+
+  /**
+   * Decide a pending request; returns null if it is unknown, already decided or expired
+   */
+  respond(requestId: string, response: PermissionResponse): PermissionRequest | null {
+    const pending = this.pending.get(requestId);
+    if (!pending) {
+      return null;
+    }
+
+    if (response.remember) {
+      this.store.saveRule({
+        scope: pending.request.scope,
+        toolName: pending.request.toolName,
+        behavior: response.behavior,
+        createdAt: new Date().toISOString()
+      });
+    }
+
+    log('[permission-broker] Permission decided:', { requestId, behavior: response.behavior, remember: !!response.remember });
+    pending.resolve(response.behavior === 'allow'
+      ? { behavior: 'allow', ...(response.updatedInput && { updatedInput: response.updatedInput }) }
+      : { behavior: 'deny', message: response.message || 'Denied by client' });
+    return pending.request;
+  }
+
+  /**
+   * Get a pending request
+   */
+  getPending(requestId: string): PermissionRequest | null {
+    return this.pending.get(requestId)?.request ?? null;
+  }
+
+  /**
+   * List pending requests in a scope, oldest first
+   */
+  listPending(scope: string): PermissionRequest[] {
+    return Array.from(this.pending.values())
+      .map(pending => pending.request)
+      .filter(request => request.scope === scope);
+  }
+
+  /**
+   * List remembered decisions in a scope
+   */
+  listRules(scope: string): PermissionRule[] {
+    return this.store.listRules(scope);
+  }
+
+  /**
+   * Deny pending requests and forget remembered decisions in a scope (e.g. when a session ends)
+   */
+  clearScope(scope: string): void {
+    for (const request of this.listPending(scope)) {
+      this.pending.get(request.requestId)?.resolve({ behavior: 'deny', message: 'Session ended' });
+    }
+    this.store.deleteRules(scope);
+  }
+
+  /**
+   * Deny every pending request and close the store (for graceful shutdown)
+   */
+  shutdown(): void {
+    for (const pending of Array.from(this.pending.values())) {
+      pending.resolve({ behavior: 'deny', message: 'Server shutting down' });
+    }
+    this.storeInstance?.close();
+    this.storeInstance = null;
+  }
+}
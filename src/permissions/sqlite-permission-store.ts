@@ -0,0 +1,84 @@
+import Database from 'better-sqlite3';
+import * as path from 'path';
+import * as fs from 'fs';
+import { log, error as logError } from '../utils/logger';
+import { resolveDatabasePath } from '../utils/database-path';
+
+export type PermissionBehavior = 'allow' | 'deny';
+
+/**
+ * A remembered decision: every request for toolName in scope gets behavior without asking
+ */
+export interface PermissionRule {
+  scope: string;
+  toolName: string;
+  behavior: PermissionBehavior;
+  createdAt: string;
+}
+
+export interface PermissionStore {
+  getRule(scope: string, toolName: string): PermissionRule | null;
+  saveRule(rule: PermissionRule): void;
+  listRules(scope: string): PermissionRule[];
+  deleteRules(scope: string): number;
+  close(): void;
+}
+
+export class SQLitePermissionStore implements PermissionStore {
+  private db: Database.Database;
+
+  constructor(dbPath?: string) {
+    const finalPath = resolveDatabasePath(dbPath);
+
+    // Ensure directory exists
+    const dir = path.dirname(finalPath);
+    if (!fs.existsSync(dir)) {
+      fs.mkdirSync(dir, { recursive: true });
+    }
+
+    try {
+      this.db = new Database(finalPath);
+      this.db.pragma('journal_mode = WAL');
+      this.db.pragma('synchronous = NORMAL');
+
+      this.db.exec(`
+        CREATE TABLE IF NOT EXISTS permission_rules (
+          scope TEXT NOT NULL,
+          toolName TEXT NOT NULL,
+          behavior TEXT NOT NULL CHECK (behavior IN ('allow', 'deny')),
+          createdAt TEXT NOT NULL,
+          PRIMARY KEY (scope, toolName)
+        )
+      `);
+      log('[sqlite-permission-store] Permission tables initialized at:', finalPath);
+    } catch (error) {
+      logError('[sqlite-permission-store] Failed to initialize database:', error);
+      throw new Error(`Permission database initialization failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  getRule(scope: string, toolName: string): PermissionRule | null {
+    const row = this.db.prepare('SELECT * FROM permission_rules WHERE scope = ? AND toolName = ?').get(scope, toolName) as any;
+    return row || null;
+  }
+
+  saveRule(rule: PermissionRule): void {
+    this.db.prepare(`
+      INSERT INTO permission_rules (scope, toolName, behavior, createdAt)
+      VALUES (?, ?, ?, ?)
+      ON CONFLICT (scope, toolName) DO UPDATE SET behavior = excluded.behavior, createdAt = excluded.createdAt
+    `).run(rule.scope, rule.toolName, rule.behavior, rule.createdAt);
+  }
+
+  listRules(scope: string): PermissionRule[] {
+    return this.db.prepare('SELECT * FROM permission_rules WHERE scope = ? ORDER BY toolName ASC').all(scope) as PermissionRule[];
+  }
+
+  deleteRules(scope: string): number {
+    return this.db.prepare('DELETE FROM permission_rules WHERE scope = ?').run(scope).changes;
+  }
+
+  close(): void {
+    this.db.close();
+  }
+}
@@ -0,0 +1,171 @@
+import * as yaml from 'js-yaml';
+
+const STEP_ID_PATTERN = /^[A-Za-z][\w-]*$/;
+const DEFAULT_MAX_STEP_RUNS = 20;
+const MAX_RETRY_ATTEMPTS = 10;
+
+/**
+ * One step of a pipeline: a call to an agent or tool
+ */
+export interface PipelineStep {
+  id: string;
+  agent: string; // Agent provider id or tool name, e.g. claude, codex, gemini, execute_command
+  args: Record<string, unknown>; // Tool arguments; strings may reference {{ input.x }} and {{ steps.<id>.output }}
+  retry?: {
+    attempts: number; // Total attempts, including the first
+    delayMs?: number;
+  };
+  onSuccess?: string; // Step id to run next, or "end" (default: the following step)
+  onFailure?: string; // Step id to run next, "continue" or "fail" (default: fail)
+}
+
+/**
+ * A declarative multi-step workflow across agents
+ */
+export interface PipelineDefinition {
+  name?: string;
+  description?: string;
+  input?: Record<string, unknown>; // Default input values
+  maxStepRuns?: number; // Guards branches that loop back (default: 20)
+  steps: PipelineStep[];
+}
+
+/**
+ * Thrown when a pipeline definition cannot be parsed or is invalid
+ */
+export class PipelineDefinitionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PipelineDefinitionError';
+  }
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Validate a parsed pipeline definition, returning an error message or null
+ */
+export function getPipelineDefinitionError(value: unknown): string | null {
+  if (!isPlainObject(value)) {
+    return 'Pipeline must be an object';
+  }
+  if (value.name !== undefined && typeof value.name !== 'string') {
+    return 'name must be a string';
+  }
+  if (value.input !== undefined && !isPlainObject(value.input)) {
+    return 'input must be an object';
+  }
+  if (value.maxStepRuns !== undefined && (!Number.isInteger(value.maxStepRuns) || (value.maxStepRuns as number) < 1)) {
+    return 'maxStepRuns must be a positive integer';
+  }
+  if (!Array.isArray(value.steps) || value.steps.length === 0) {
+    return 'steps must be a non-empty array';
+  }
+
+  const ids = new Set<string>();
+  for (const [index, step] of value.steps.entries()) {
+    if (!isPlainObject(step)) {
+      return `steps[${index}] must be an object`;
+    }
+    if (typeof step.id !== 'string' || !STEP_ID_PATTERN.test(step.id)) {
+      return `steps[${index}].id must start with a letter and contain only letters, digits, _ and -`;
+    }
+    if (ids.has(step.id)) {
+      return `Duplicate step id: ${step.id}`;
+    }
+    ids.add(step.id);
+    if (typeof step.agent !== 'string' || !step.agent) {
+      return `Step ${step.id}: agent is required`;
+    }
+    if (!isPlainObject(step.args)) {
+      return `Step ${step.id}: args must be an object`;
+    }
+    if (step.retry !== undefined) {
+      const retry = step.retry as Record<string, unknown>;
+      if (!isPlainObject(retry) || !Number.isInteger(retry.attempts) ||
+          (retry.attempts as number) < 1 || (retry.attempts as number) > MAX_RETRY_ATTEMPTS) {
+        return `Step ${step.id}: retry.attempts must be an integer from 1 to ${MAX_RETRY_ATTEMPTS}`;
+      }
+      if (retry.delayMs !== undefined && (typeof retry.delayMs !== 'number' || retry.delayMs < 0)) {
+        return `Step ${step.id}: retry.delayMs must be a non-negative number`;
+      }
+    }
+  }
+
+  for (const step of value.steps as PipelineStep[]) {
+    if (step.onSuccess !== undefined && step.onSuccess !== 'end' && !ids.has(step.onSuccess)) {
+      return `Step ${step.id}: onSuccess must be a step id or "end"`;
+    }
+    if (step.onFailure !== undefined && !['continue', 'fail'].includes(step.onFailure) && !ids.has(step.onFailure)) {
+      return `Step ${step.id}: onFailure must be a step id, "continue" or "fail"`;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Parse a pipeline from YAML or JSON text, or validate an already parsed object
+ */
+export function parsePipelineDefinition(source: string | object): PipelineDefinition {
+  let value: unknown = source;
+  if (typeof source === 'string') {
+    try {
+      // YAML is a superset of JSON, so this handles both
+      value = yaml.load(source);
+    } catch (error) {
+      throw new PipelineDefinitionError(`Invalid pipeline YAML: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  const validationError = getPipelineDefinitionError(value);
+  if (validationError) {
+    throw new PipelineDefinitionError(validationError);
+  }
+
+  const definition = value as PipelineDefinition;
+  return { ...definition, maxStepRuns: definition.maxStepRuns ?? DEFAULT_MAX_STEP_RUNS };
+}
+
+/**
+ * Values a step's templates can reference
+ */
+export interface TemplateScope {
+  input: Record<string, unknown>;
+  steps: Record<string, { status: string; output: string; error?: string; result?: unknown }>;
+}
+
+function lookup(scope: TemplateScope, path: string): unknown {
+  let value: any = scope;
+  for (const key of path.split('.')) {
+    if (value === null || value === undefined) {
+      return undefined;
+    }
+    value = value[key];
+  }
+  return value;
+}
+
+/**
+ * Substitute {{ path }} references in every string of value; missing values render as empty strings
+ */
+export function renderTemplate<T>(value: T, scope: TemplateScope): T {
+  if (typeof value === 'string') {
+    return value.replace(/\{\{\s*([\w.-]+)\s*\}\}/g, (_match, path: string) => {
+      const resolved = lookup(scope, path);
+      if (resolved === undefined || resolved === null) {
+        return '';
+      }
+      return typeof resolved === 'object' ? JSON.stringify(resolved) : String(resolved);
+    }) as T;
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => renderTemplate(item, scope)) as T;
+  }
+  if (isPlainObject(value)) {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, renderTemplate(item, scope)])) as T;
+  }
+  return value;
+}
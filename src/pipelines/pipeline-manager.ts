@@ -0,0 +1,342 @@
+import { randomUUID } from 'crypto';
+import { AgentProvider, AgentRegistry, AgentRequestContext } from '../core/agent-registry';
+import { normalizeAgentResult } from '../lib/agents/agent-result';
+import { log, error as logError } from '../utils/logger';
+import {
+  parsePipelineDefinition,
+  PipelineDefinition,
+  PipelineDefinitionError,
+  PipelineStep,
+  renderTemplate,
+  TemplateScope
+} from './pipeline-definition';
+import { PipelineRun, PipelineRunStatus, PipelineStore, SQLitePipelineStore } from './sqlite-pipeline-store';
+
+export interface PipelineManagerConfig {
+  dbPath?: string; // Database file path (optional - uses MCP_DATABASE_PATH or user data dir)
+  store?: PipelineStore; // Override the SQLite store (e.g. for tests)
+}
+
+interface StepOutcome {
+  status: 'completed' | 'failed';
+  output: string;
+  error?: string;
+  result?: unknown;
+}
+
+const TERMINAL_STATUSES: PipelineRunStatus[] = ['completed', 'failed', 'cancelled'];
+
+/**
+ * Runs declarative multi-step pipelines across agents and persists each step
+ */
+export class PipelineManager {
+  private registry: AgentRegistry;
+  private config: PipelineManagerConfig;
+  private storeInstance: PipelineStore | null = null;
+  private running: Map<string, AbortController> = new Map();
+  private closed = false; // Set by shutdown(); steps finishing afterwards are ignored
+
+  constructor(registry: AgentRegistry, config: PipelineManagerConfig = {}) {
+    this.registry = registry;
+    this.config = config;
+  }
+
+  /**
+   * Open the store on first use; runs left running by a server process that has exited are marked failed
+   */
+  private get store(): PipelineStore {
+    if (!this.storeInstance) {
+      this.storeInstance = this.config.store || new SQLitePipelineStore(this.config.dbPath);
+      const interrupted = this.storeInstance.failInterruptedRuns('Server restarted before the pipeline finished');
+      if (interrupted > 0) {
+        log('[pipeline-manager] Marked interrupted pipeline runs as failed:', { interrupted });
+      }
+    }
+    return this.storeInstance;
+  }
+
+  /**
+   * Resolve a step's agent by provider id or tool name
+   */
+  private resolveAgent(agent: string): AgentProvider | undefined {
+    return this.registry.get(agent) || this.registry.findByToolName(agent);
+  }
+
+  /**
+   * Parse a pipeline and check that every step's agent is registered
+   * Throws PipelineDefinitionError when the pipeline is invalid
+   */
+  parse(source: string | object): PipelineDefinition {
+    const definition = parsePipelineDefinition(source);
+    for (const step of definition.steps) {
+      if (!this.resolveAgent(step.agent)) {
+        throw new PipelineDefinitionError(`Step ${step.id}: unknown agent ${step.agent}`);
+      }
+    }
+    return definition;
+  }
+
+  /**
+   * Start a pipeline in the background and return its run record
+   */
+  startRun(source: string | object, input: Record<string, unknown> = {}): PipelineRun {
+    const { run, definition } = this.createRun(source, input);
+    this.execute(run.runId, definition, run.input).catch(error => {
+      logError('[pipeline-manager] Pipeline run crashed:', { runId: run.runId, error: error?.message });
+    });
+    return run;
+  }
+
+  /**
+   * Run a pipeline to completion, streaming progress through context
+   */
+  async runPipeline(source: string | object, input: Record<string, unknown> = {}, context: AgentRequestContext = {}): Promise<PipelineRun> {
+    const { run, definition } = this.createRun(source, input);
+    await this.execute(run.runId, definition, run.input, context);
+    return this.getRun(run.runId)!;
+  }
+
+  /**
+   * Get a run with its step executions
+   */
+  getRun(runId: string): PipelineRun | null {
+    const run = this.store.getRun(runId);
+    return run ? { ...run, steps: this.store.getStepRuns(runId) } : null;
+  }
+
+  /**
+   * List runs, newest first
+   */
+  listRuns(status?: PipelineRunStatus, limit?: number): PipelineRun[] {
+    return this.store.listRuns(status, limit);
+  }
+
+  /**
+   * Cancel a running pipeline
+   */
+  cancelRun(runId: string): PipelineRun | null {
+    const run = this.store.getRun(runId);
+    if (!run) {
+      return null;
+    }
+    if (!TERMINAL_STATUSES.includes(run.status)) {
+      this.running.get(runId)?.abort();
+      this.finishRun(runId, { status: 'cancelled', error: 'Cancelled by client' });
+      log('[pipeline-manager] Pipeline run cancelled:', { runId });
+    }
+    return this.getRun(runId);
+  }
+
+  /**
+   * Abort running pipelines and close the store (for graceful shutdown)
+   */
+  shutdown(): void {
+    for (const [runId, controller] of this.running) {
+      controller.abort();
+      this.finishRun(runId, { status: 'cancelled', error: 'Server shutting down' });
+    }
+    this.closed = true;
+    this.storeInstance?.close();
+    this.storeInstance = null;
+  }
+
+  private createRun(source: string | object, input: Record<string, unknown>): { run: PipelineRun; definition: PipelineDefinition } {
+    const definition = this.parse(source);
+    const run: PipelineRun = {
+      runId: randomUUID(),
+      name: definition.name,
+      definition,
+      input: { ...definition.input, ...input },
+      status: 'running',
+      createdAt: new Date().toISOString()
+    };
+    this.store.createRun(run);
+    log('[pipeline-manager] Pipeline run started:', { runId: run.runId, name: run.name, steps: definition.steps.length });
+    return { run, definition };
+  }
+
+  private async execute(
+    runId: string,
+    definition: PipelineDefinition,
+    input: Record<string, unknown>,
+    context: AgentRequestContext = {}
+  ): Promise<void> {
+    const controller = new AbortController();
+    this.running.set(runId, controller);
+    const onAbort = () => controller.abort();
+    context.signal?.addEventListener('abort', onAbort);
+
+    const notify = (event: string, data: Record<string, unknown> = {}) => {
+      context.sendNotification?.({
+        method: 'notifications/message',
+        params: {
+          level: 'info',
+          logger: 'run_pipeline',
+          data: JSON.stringify({ type: 'pipeline_progress', runId, event, ...data, timestamp: new Date().toISOString() })
+        }
+      }).catch(() => {
+        // Client may not support notifications; progress is persisted with the run
+      });
+    };
+
+    const scope: TemplateScope = { input, steps: {} };
+    const { steps } = definition;
+    let sequence = 0;
+    let lastOutput: string | undefined;
+    let index = 0;
+
+    try {
+      while (index < steps.length) {
+        if (controller.signal.aborted) {
+          this.finishRun(runId, { status: 'cancelled', error: 'Cancelled by client' });
+          return;
+        }
+        if (sequence >= definition.maxStepRuns!) {
+          this.finishRun(runId, { status: 'failed', error: `Pipeline exceeded maxStepRuns (${definition.maxStepRuns})` });
+          return;
+        }
+
+        const step = steps[index];
+        this.store.updateRun(runId, { currentStep: step.id });
+
+        let outcome: StepOutcome;
+        for (let attempt = 1; ; attempt++) {
+          outcome = await this.runStep(runId, ++sequence, attempt, step, scope, controller.signal, notify);
+          const attempts = step.retry?.attempts ?? 1;
+          if (outcome.status === 'completed' || attempt >= attempts || controller.signal.aborted) {
+            break;
+          }
+          notify('step_retry', { stepId: step.id, attempt: attempt + 1 });
+          await new Promise(resolve => setTimeout(resolve, step.retry?.delayMs ?? 0));
+        }
+
+        scope.steps[step.id] = outcome;
+        lastOutput = outcome.output;
+
+        if (controller.signal.aborted) {
+          this.finishRun(runId, { status: 'cancelled', error: 'Cancelled by client' });
+          return;
+        }
+
+        if (outcome.status === 'completed') {
+          index = step.onSuccess === 'end' ? steps.length
+            : step.onSuccess ? steps.findIndex(s => s.id === step.onSuccess)
+            : index + 1;
+        } else {
+          const onFailure = step.onFailure ?? 'fail';
+          if (onFailure === 'fail') {
+            this.finishRun(runId, { status: 'failed', output: lastOutput, error: `Step ${step.id} failed: ${outcome.error}` });
+            notify('run_failed', { stepId: step.id, error: outcome.error });
+            return;
+          }
+          index = onFailure === 'continue' ? index + 1 : steps.findIndex(s => s.id === onFailure);
+        }
+      }
+
+      this.finishRun(runId, { status: 'completed', output: lastOutput });
+      notify('run_completed');
+    } finally {
+      context.signal?.removeEventListener('abort', onAbort);
+      this.running.delete(runId);
+    }
+  }
+
+  private async runStep(
+    runId: string,
+    sequence: number,
+    attempt: number,
+    step: PipelineStep,
+    scope: TemplateScope,
+    signal: AbortSignal,
+    notify: (event: string, data?: Record<string, unknown>) => void
+  ): Promise<StepOutcome> {
+    const provider = this.resolveAgent(step.agent);
+    const args = renderTemplate(step.args, scope);
+    this.store.createStepRun({
+      runId,
+      sequence,
+      stepId: step.id,
+      agent: step.agent,
+      attempt,
+      status: 'running',
+      args,
+      startedAt: new Date().toISOString()
+    });
+    notify('step_started', { stepId: step.id, agent: step.agent, attempt });
+
+    let outcome: StepOutcome;
+    try {
+      if (!provider) {
+        throw new Error(`Agent no longer registered: ${step.agent}`);
+      }
+      if (!provider.isValidArgs(args)) {
+        const detail = provider.invalidArgumentsMessage ? `: ${provider.invalidArgumentsMessage}` : '';
+        throw new Error(`Invalid arguments for ${provider.toolName}${detail}`);
+      }
+
+      const result = await provider.handle(args, {
+        signal,
+        // Tag the agent's own notifications with the step they came from
+        sendNotification: async (notification: any) => {
+          const data = notification?.params?.data;
+          let message = data;
+          if (typeof data === 'string') {
+            try {
+              message = JSON.parse(data);
+            } catch {
+              // Keep plain-text notifications as-is
+            }
+          }
+          notify('step_message', { stepId: step.id, message });
+        },
+        log: (level, logger, data) => log(`[${level}] [${logger}] [pipeline ${runId}]`, data),
+      });
+
+      const normalized = normalizeAgentResult(result);
+      outcome = normalized.isError
+        ? { status: 'failed', output: normalized.response, error: normalized.response || 'Step returned an error', result }
+        : { status: 'completed', output: normalized.response, result };
+    } catch (error: any) {
+      outcome = { status: 'failed', output: '', error: error?.message || 'Unknown error' };
+    }
+
+    // A cancelled run already closed its running step (see finishRun)
+    if (this.closed || TERMINAL_STATUSES.includes(this.store.getRun(runId)?.status ?? 'running')) {
+      return outcome;
+    }
+
+    this.store.updateStepRun(runId, sequence, {
+      status: outcome.status,
+      output: outcome.output,
+      result: outcome.result,
+      error: outcome.error,
+      finishedAt: new Date().toISOString()
+    });
+    notify(outcome.status === 'completed' ? 'step_completed' : 'step_failed', {
+      stepId: step.id,
+      attempt,
+      ...(outcome.error && { error: outcome.error })
+    });
+    log('[pipeline-manager] Step finished:', { runId, stepId: step.id, attempt, status: outcome.status });
+    return outcome;
+  }
+
+  private finishRun(runId: string, updates: Partial<PipelineRun>): void {
+    if (this.closed) {
+      return;
+    }
+    const current = this.store.getRun(runId);
+    if (current && TERMINAL_STATUSES.includes(current.status)) {
+      return;
+    }
+    const finishedAt = new Date().toISOString();
+    // A step still running belongs to a cancelled run; its agent's late result is not recorded
+    for (const step of this.store.getStepRuns(runId)) {
+      if (step.status === 'running') {
+        this.store.updateStepRun(runId, step.sequence, { status: 'failed', error: updates.error, finishedAt });
+      }
+    }
+    this.store.updateRun(runId, { ...updates, finishedAt });
+    log('[pipeline-manager] Pipeline run finished:', { runId, status: updates.status });
+  }
+}
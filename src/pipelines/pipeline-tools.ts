@@ -0,0 +1,49 @@
+import type { AgentProvider } from '../core/agent-registry';
+import { PipelineManager } from './pipeline-manager';
+
+export interface RunPipelineArgs {
+  pipeline: string | Record<string, unknown>; // YAML/JSON text or an already parsed definition
+  input?: Record<string, unknown>;
+}
+
+/**
+ * Create the run_pipeline tool provider for a PipelineManager
+ */
+export function createPipelineToolProvider(pipelineManager: PipelineManager): AgentProvider<RunPipelineArgs> {
+  return {
+    id: 'run_pipeline',
+    toolName: 'run_pipeline',
+    kind: 'tool',
+    capabilities: { streaming: true, cancellation: true, resume: false },
+    invalidArgumentsMessage: 'pipeline is required (YAML/JSON string or object); input must be an object',
+    getToolDefinition: () => ({
+      name: 'run_pipeline',
+      description: 'Run a multi-step pipeline across agents and tools; each step\'s output can feed the next step\'s arguments through {{ steps.<id>.output }} templates',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          pipeline: {
+            type: ['string', 'object'],
+            description: 'Pipeline definition as YAML/JSON text or an object: { name?, input?, maxStepRuns?, steps: [{ id, agent, args, retry?: { attempts, delayMs? }, onSuccess?, onFailure? }] }'
+          },
+          input: { type: 'object', description: 'Input values referenced as {{ input.<name> }} (merged over the pipeline\'s input defaults)' },
+        },
+        required: ['pipeline'],
+      },
+    }),
+    isValidArgs: (args: unknown): args is RunPipelineArgs => {
+      if (typeof args !== 'object' || args === null) return false;
+      const { pipeline, input } = args as any;
+      return (typeof pipeline === 'string' || (typeof pipeline === 'object' && pipeline !== null && !Array.isArray(pipeline))) &&
+        (input === undefined || (typeof input === 'object' && input !== null && !Array.isArray(input)));
+    },
+    handle: async (args, context) => {
+      const run = await pipelineManager.runPipeline(args.pipeline, args.input, context);
+      return {
+        content: [{ type: 'text' as const, text: JSON.stringify({ run }, null, 2) }],
+        structuredContent: { run },
+        ...(run.status !== 'completed' && { isError: true }),
+      };
+    },
+  };
+}
@@ -0,0 +1,269 @@
+import Database from 'better-sqlite3';
+import * as path from 'path';
+import * as fs from 'fs';
+import { log, error as logError } from '../utils/logger';
+import { resolveDatabasePath } from '../utils/database-path';
+import { INSTANCE_ID, isInstanceAlive } from '../utils/process-instance';
+import type { PipelineDefinition } from './pipeline-definition';
+
+export type PipelineRunStatus = 'running' | 'completed' | 'failed' | 'cancelled';
+export type PipelineStepStatus = 'running' | 'completed' | 'failed';
+
+export interface PipelineStepRun {
+  runId: string;
+  sequence: number; // Execution order within the run (retries and loops add rows)
+  stepId: string;
+  agent: string;
+  attempt: number;
+  status: PipelineStepStatus;
+  args: unknown; // Arguments after template rendering
+  output?: string;
+  result?: unknown;
+  error?: string;
+  startedAt: string;
+  finishedAt?: string;
+}
+
+export interface PipelineRun {
+  runId: string;
+  name?: string;
+  definition: PipelineDefinition;
+  input: Record<string, unknown>;
+  status: PipelineRunStatus;
+  currentStep?: string;
+  output?: string; // Output of the last step that ran
+  error?: string;
+  createdAt: string;
+  finishedAt?: string;
+  steps?: PipelineStepRun[];
+}
+
+export interface PipelineStore {
+  createRun(run: PipelineRun): void;
+  getRun(runId: string): PipelineRun | null;
+  updateRun(runId: string, updates: Partial<PipelineRun>): void;
+  listRuns(status?: PipelineRunStatus, limit?: number): PipelineRun[];
+
+  // Step executions
+  createStepRun(step: PipelineStepRun): void;
+  updateStepRun(runId: string, sequence: number, updates: Partial<PipelineStepRun>): void;
+  getStepRuns(runId: string): PipelineStepRun[];
+
+  // Maintenance
+  failInterruptedRuns(reason: string): number; // Only runs whose owning process has exited; call once on open
+  close(): void;
+}
+
+export class SQLitePipelineStore implements PipelineStore {
+  private db: Database.Database;
+
+  constructor(dbPath?: string) {
+    const finalPath = resolveDatabasePath(dbPath);
+
+    // Ensure directory exists
+    const dir = path.dirname(finalPath);
+    if (!fs.existsSync(dir)) {
+      fs.mkdirSync(dir, { recursive: true });
+    }
+
+    try {
+      this.db = new Database(finalPath);
+      this.db.pragma('journal_mode = WAL');
+      this.db.pragma('synchronous = NORMAL');
+
+      this.initializeSchema();
+      log('[sqlite-pipeline-store] Pipeline tables initialized at:', finalPath);
+    } catch (error) {
+      logError('[sqlite-pipeline-store] Failed to initialize database:', error);
+      throw new Error(`Pipeline database initialization failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  private initializeSchema(): void {
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS pipeline_runs (
+        runId TEXT PRIMARY KEY,
+        name TEXT,
+        definition TEXT NOT NULL,
+        input TEXT NOT NULL,
+        status TEXT NOT NULL CHECK (status IN ('running', 'completed', 'failed', 'cancelled')),
+        currentStep TEXT,
+        output TEXT,
+        error TEXT,
+        createdAt TEXT NOT NULL,
+        finishedAt TEXT,
+        owner TEXT
+      )
+    `);
+
+    // Runs record the server process executing them (see failInterruptedRuns)
+    const columns = this.db.pragma('table_info(pipeline_runs)') as Array<{name: string}>;
+    if (!columns.some((col) => col.name === 'owner')) {
+      log('[sqlite-pipeline-store] Running migration: Adding owner column to pipeline_runs table');
+      this.db.exec(`
+        ALTER TABLE pipeline_runs ADD COLUMN owner TEXT;
+      `);
+    }
+
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS pipeline_steps (
+        runId TEXT NOT NULL,
+        sequence INTEGER NOT NULL,
+        stepId TEXT NOT NULL,
+        agent TEXT NOT NULL,
+        attempt INTEGER NOT NULL,
+        status TEXT NOT NULL CHECK (status IN ('running', 'completed', 'failed')),
+        args TEXT NOT NULL,
+        output TEXT,
+        result TEXT,
+        error TEXT,
+        startedAt TEXT NOT NULL,
+        finishedAt TEXT,
+        PRIMARY KEY (runId, sequence),
+        FOREIGN KEY (runId) REFERENCES pipeline_runs(runId) ON DELETE CASCADE
+      )
+    `);
+
+    this.db.exec(`
+      CREATE INDEX IF NOT EXISTS idx_pipeline_runs_status ON pipeline_runs(status);
+      CREATE INDEX IF NOT EXISTS idx_pipeline_runs_createdAt ON pipeline_runs(createdAt);
+    `);
+  }
+
+  createRun(run: PipelineRun): void {
+    this.db.prepare(`
+      INSERT INTO pipeline_runs (runId, name, definition, input, status, createdAt, owner)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `).run(run.runId, run.name || null, JSON.stringify(run.definition), JSON.stringify(run.input), run.status, run.createdAt, INSTANCE_ID);
+  }
+
+  getRun(runId: string): PipelineRun | null {
+    const row = this.db.prepare('SELECT * FROM pipeline_runs WHERE runId = ?').get(runId) as any;
+    return row ? this.rowToRun(row) : null;
+  }
+
+  updateRun(runId: string, updates: Partial<PipelineRun>): void {
+    const fields: string[] = [];
+    const values: any[] = [];
+
+    for (const field of ['status', 'currentStep', 'output', 'error', 'finishedAt'] as const) {
+      if (updates[field] !== undefined) {
+        fields.push(`${field} = ?`);
+        values.push(updates[field]);
+      }
+    }
+
+    if (fields.length === 0) return;
+
+    values.push(runId);
+    this.db.prepare(`UPDATE pipeline_runs SET ${fields.join(', ')} WHERE runId = ?`).run(...values);
+  }
+
+  listRuns(status?: PipelineRunStatus, limit: number = 100): PipelineRun[] {
+    let query = 'SELECT * FROM pipeline_runs';
+    const params: any[] = [];
+
+    if (status) {
+      query += ' WHERE status = ?';
+      params.push(status);
+    }
+
+    query += ' ORDER BY createdAt DESC LIMIT ?';
+    params.push(limit);
+
+    const rows = this.db.prepare(query).all(...params) as any[];
+    return rows.map(row => this.rowToRun(row));
+  }
+
+  createStepRun(step: PipelineStepRun): void {
+    this.db.prepare(`
+      INSERT INTO pipeline_steps (runId, sequence, stepId, agent, attempt, status, args, startedAt)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(step.runId, step.sequence, step.stepId, step.agent, step.attempt, step.status, JSON.stringify(step.args), step.startedAt);
+  }
+
+  updateStepRun(runId: string, sequence: number, updates: Partial<PipelineStepRun>): void {
+    const fields: string[] = [];
+    const values: any[] = [];
+
+    for (const field of ['status', 'output', 'error', 'finishedAt'] as const) {
+      if (updates[field] !== undefined) {
+        fields.push(`${field} = ?`);
+        values.push(updates[field]);
+      }
+    }
+    if (updates.result !== undefined) {
+      fields.push('result = ?');
+      values.push(JSON.stringify(updates.result));
+    }
+
+    if (fields.length === 0) return;
+
+    values.push(runId, sequence);
+    this.db.prepare(`UPDATE pipeline_steps SET ${fields.join(', ')} WHERE runId = ? AND sequence = ?`).run(...values);
+  }
+
+  getStepRuns(runId: string): PipelineStepRun[] {
+    const rows = this.db.prepare('SELECT * FROM pipeline_steps WHERE runId = ? ORDER BY sequence ASC').all(runId) as any[];
+    return rows.map(row => ({
+      runId: row.runId,
+      sequence: row.sequence,
+      stepId: row.stepId,
+      agent: row.agent,
+      attempt: row.attempt,
+      status: row.status,
+      args: JSON.parse(row.args),
+      output: row.output ?? undefined,
+      result: row.result ? JSON.parse(row.result) : undefined,
+      error: row.error || undefined,
+      startedAt: row.startedAt,
+      finishedAt: row.finishedAt || undefined
+    }));
+  }
+
+  failInterruptedRuns(reason: string): number {
+    // Other server processes share the database; leave their runs alone while they run
+    // Runs from before owners were recorded have none and count as interrupted, as do runs
+    // recorded under this process's own id (a restarted container reusing hostname and pid)
+    const owners = this.db.prepare(`
+      SELECT DISTINCT owner FROM pipeline_runs WHERE status = 'running'
+    `).all() as Array<{ owner: string | null }>;
+
+    const finishedAt = new Date().toISOString();
+    const failSteps = this.db.prepare(`
+      UPDATE pipeline_steps SET status = 'failed', error = ?, finishedAt = ?
+      WHERE status = 'running' AND runId IN (SELECT runId FROM pipeline_runs WHERE status = 'running' AND owner IS ?)
+    `);
+    const failRuns = this.db.prepare(`
+      UPDATE pipeline_runs SET status = 'failed', error = ?, finishedAt = ?
+      WHERE status = 'running' AND owner IS ?
+    `);
+    let changes = 0;
+    for (const { owner } of owners) {
+      if (owner === null || owner === INSTANCE_ID || !isInstanceAlive(owner)) {
+        failSteps.run(reason, finishedAt, owner);
+        changes += failRuns.run(reason, finishedAt, owner).changes;
+      }
+    }
+    return changes;
+  }
+
+  close(): void {
+    this.db.close();
+  }
+
+  private rowToRun(row: any): PipelineRun {
+    return {
+      runId: row.runId,
+      name: row.name || undefined,
+      definition: JSON.parse(row.definition),
+      input: JSON.parse(row.input),
+      status: row.status,
+      currentStep: row.currentStep || undefined,
+      output: row.output ?? undefined,
+      error: row.error || undefined,
+      createdAt: row.createdAt,
+      finishedAt: row.finishedAt || undefined
+    };
+  }
+}
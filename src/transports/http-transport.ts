@@ -2,25 +2,25 @@ import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/
 import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
 import { randomUUID } from 'crypto';
 import express, { Application, NextFunction, Request, Response } from 'express';
-import * as fs from 'fs';
 import * as http from 'http';
 import * as https from 'https';
+import { UsageAccounting } from '../accounting/usage-accounting';
 import { ClaudeCodeApiConfig, createClaudeCodeApi } from '../api/claude-code-api';
+import { ClaudeCodeSessionManager } from '../api/session-manager-sqlite';
+import { closeWebSockets, createUpgradeHandler } from '../api/session-websocket';
 import { ApiInfoResponse } from '../api/types';
 import { CoreMCPServer } from '../core/mcp-server-core';
 import { MCPTransport, TransportConfig } from '../core/transport-interface';
-import * as promptsData from '../lib/prompts.json';
 import { setupSwaggerMiddleware, SwaggerMiddlewareConfig } from '../middleware/swagger-middleware';
-import { generateSelfSignedCertificate } from '../utils/self-signed-cert';
+import { listenOnSocket } from './socket-listener';
+import { readHttpsOptions, resolveHttpsOptions, TlsTransportConfig } from './tls-options';
 
-export interface HttpTransportConfig extends TransportConfig {
+export interface HttpTransportConfig extends TransportConfig, TlsTransportConfig {
   port?: number;
   host?: string;
+  socketPath?: string; // Listen on this Unix domain socket (or Windows named pipe) instead of port/host
+  socketMode?: number; // File mode of the socket (default: 0o660)
   cors?: boolean;
-  https?: boolean;
-  certPath?: string;
-  keyPath?: string;
-  caPath?: string;
   claudeCodeApi?: ClaudeCodeApiConfig & { enabled?: boolean }; 
   swagger?: SwaggerMiddlewareConfig;
 }
@@ -39,6 +39,9 @@ export class HttpTransport extends MCPTransport {
   private useHttps: boolean;
   private httpsOptions: https.ServerOptions | null = null;
   private running: boolean = false;
+  // Created for the REST API unless the config passes its own; closed in stop()
+  private sessionManager: ClaudeCodeSessionManager | null = null;
+  private usageAccounting: UsageAccounting | null = null;
 
   constructor(coreServer: CoreMCPServer, config: HttpTransportConfig = {}) {
     super(coreServer, config);
@@ -49,25 +52,8 @@ export class HttpTransport extends MCPTransport {
     this.transports = new Map();
     this.sharedTransport = null;
 
-    // Configure HTTPS options if enabled
-    if (this.useHttps) {
-      this.httpsOptions = {};
-      
-      if (config.certPath && config.keyPath) {
-        // Use provided certificate paths
-        try {
-          this.httpsOptions.cert = fs.readFileSync(config.certPath);
-          this.httpsOptions.key = fs.readFileSync(config.keyPath);
-          if (config.caPath) {
-            this.httpsOptions.ca = fs.readFileSync(config.caPath);
-          }
-        } catch (error) {
-          console.error('Failed to read certificate files:', error);
-          throw error;
-        }
-      }
-      // If no certs provided, we'll generate them on demand in start()
-    }
+    // Configure HTTPS options if enabled; without certificates we generate them on demand in start()
+    this.httpsOptions = readHttpsOptions(config);
   }
 
   async initialize(): Promise<void> {
@@ -96,7 +82,17 @@ export class HttpTransport extends MCPTransport {
   private setupRoutes(): void {
     // Mount Claude Code REST API if enabled
     if (this.config.claudeCodeApi?.enabled !== false) {
-      const claudeCodeRouter = createClaudeCodeApi(this.config.claudeCodeApi || {});
+      const apiConfig = this.config.claudeCodeApi || {};
+      const sessionManager = apiConfig.sessionManager ?? (this.sessionManager = new ClaudeCodeSessionManager(apiConfig));
+      const usageAccounting = apiConfig.usageAccounting ?? (this.usageAccounting = new UsageAccounting());
+      const claudeCodeRouter = createClaudeCodeApi({
+        agentRegistry: this.coreServer.getAgentRegistry(),
+        pipelineManager: this.coreServer.getPipelineManager(),
+        permissionBroker: this.coreServer.getPermissionBroker(),
+        ...apiConfig,
+        sessionManager,
+        usageAccounting
+      });
       this.app.use('/api/v1', claudeCodeRouter);
       console.log('Claude Code REST API mounted at /api/v1');
     }
@@ -147,8 +143,8 @@ export class HttpTransport extends MCPTransport {
             }
           };
 
-          // Connect the transport to the core MCP server instance
-          const mcpServer = this.coreServer.getServer();
+          // Each session gets its own MCP server over the shared core, leaving getServer() to other transports
+          const mcpServer = this.coreServer.createServer();
           await mcpServer.connect(transport);
           await transport.handleRequest(req, res, req.body);
           return;
@@ -159,7 +155,7 @@ export class HttpTransport extends MCPTransport {
             this.sharedTransport = new StreamableHTTPServerTransport({
               sessionIdGenerator: undefined
             });
-            const mcpServer = this.coreServer.getServer();
+            const mcpServer = this.coreServer.createServer();
             await mcpServer.connect(this.sharedTransport);
           }
           transport = this.sharedTransport;
@@ -234,9 +230,9 @@ export class HttpTransport extends MCPTransport {
           mcp: {
             endpoint: '/mcp',
             capabilities: {
-              tools: ['calculate_bmi', 'get_timestamp', 'execute_command', 'stream_sse_timestamps', 'claude_code_query', 'gemini_query', 'codex_query'],
-              resources: ['config://server', 'stats://system'],
-              prompts: Object.keys(promptsData.prompts)
+              tools: this.coreServer.getAgentRegistry().getToolDefinitions().map(tool => tool.name),
+              resources: this.coreServer.listResources().map(resource => resource.uri),
+              prompts: this.coreServer.listPrompts().map(prompt => prompt.name)
             }
           }
         }
@@ -273,12 +269,19 @@ export class HttpTransport extends MCPTransport {
       const callback = () => {
         const displayHost = this.host === '0.0.0.0' ? 'localhost' : this.host;
         const protocol = this.useHttps ? 'https' : 'http';
-        console.log(`🚀 MCP ${protocol.toUpperCase()} Server running on ${protocol}://${displayHost}:${this.port}`);
-        console.log(`📡 MCP endpoint: ${protocol}://${displayHost}:${this.port}/mcp`);
+        const socketPath = (this.config as HttpTransportConfig).socketPath;
+        // Socket clients still send an HTTP URL, e.g. curl --unix-socket <path> http://localhost/health
+        const baseUrl = socketPath ? `${protocol}://localhost` : `${protocol}://${displayHost}:${this.port}`;
+        if (socketPath) {
+          console.log(`🚀 MCP ${protocol.toUpperCase()} Server listening on socket ${socketPath}`);
+        } else {
+          console.log(`🚀 MCP ${protocol.toUpperCase()} Server running on ${baseUrl}`);
+        }
+        console.log(`📡 MCP endpoint: ${baseUrl}/mcp`);
         if (this.config.claudeCodeApi?.enabled !== false) {
-          console.log(`🤖 Claude Code API: ${protocol}://${displayHost}:${this.port}/api/v1`);
+          console.log(`🤖 Claude Code API: ${baseUrl}/api/v1`);
         }
-        console.log(`❤️  Health check: ${protocol}://${displayHost}:${this.port}/health`);
+        console.log(`❤️  Health check: ${baseUrl}/health`);
         if (this.useHttps && !(this.config as HttpTransportConfig).certPath) {
           console.warn('⚠️  Using auto-generated self-signed certificate. For production, provide your own certificates.');
           console.warn('   To trust this certificate in your browser, you may need to accept the security warning.');
@@ -288,23 +291,23 @@ export class HttpTransport extends MCPTransport {
       };
 
       try {
-        if (this.useHttps) {
+        if (this.httpsOptions) {
           // Generate self-signed certificate if none provided
-          if (!this.httpsOptions?.cert || !this.httpsOptions?.key) {
-            console.log('🔐 Generating self-signed certificate for HTTPS...');
-            const selfSigned = await generateSelfSignedCertificate();
-            this.httpsOptions = {
-              ...this.httpsOptions,
-              cert: selfSigned.cert,
-              key: selfSigned.key
-            };
-          }
+          this.httpsOptions = await resolveHttpsOptions(this.httpsOptions);
           this.server = https.createServer(this.httpsOptions, this.app);
         } else {
           this.server = http.createServer(this.app);
         }
+        // WebSocket handshakes (e.g. /api/v1/sessions/:id/ws) go through the same Express routes
+        this.server.on('upgrade', createUpgradeHandler(this.app));
         
-        this.server.listen(this.port, this.host, callback);
+        const { socketPath, socketMode } = this.config as HttpTransportConfig;
+        if (socketPath) {
+          await listenOnSocket(this.server, socketPath, socketMode);
+          callback();
+        } else {
+          this.server.listen(this.port, this.host, callback);
+        }
       } catch (error) {
         reject(error);
       }
@@ -313,6 +316,8 @@ export class HttpTransport extends MCPTransport {
 
   async stop(): Promise<void> {
     if (!this.running) {
+      // initialize() already opened the REST API's databases
+      this.closeClaudeCodeApi();
       return;
     }
 
@@ -332,20 +337,34 @@ export class HttpTransport extends MCPTransport {
         this.sharedTransport = null;
       }
 
+      closeWebSockets();
+
       // Close the HTTP/HTTPS server
       if (this.server) {
         this.server.close(() => {
           const protocol = this.useHttps ? 'HTTPS' : 'HTTP';
           console.log(`${protocol} transport stopped`);
           this.running = false;
+          this.closeClaudeCodeApi();
           resolve();
         });
       } else {
+        this.closeClaudeCodeApi();
         resolve();
       }
     });
   }
 
+  /**
+   * Stop the session cleanup task and close the databases this transport opened for the REST API
+   */
+  private closeClaudeCodeApi(): void {
+    this.sessionManager?.stopCleanupTask();
+    this.sessionManager = null;
+    this.usageAccounting?.close();
+    this.usageAccounting = null;
+  }
+
   getType(): string {
     return 'http';
   }
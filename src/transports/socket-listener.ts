@@ -0,0 +1,87 @@
+import * as fs from 'fs';
+import * as net from 'net';
+
+// Owner and group may connect; others are refused by the filesystem
+export const DEFAULT_SOCKET_MODE = 0o660;
+
+/**
+ * Windows named pipes (\\.\pipe\name) live outside the filesystem and have no file mode
+ */
+export function isNamedPipe(socketPath: string): boolean {
+  return /^\\\\[.?]\\pipe\\/i.test(socketPath);
+}
+
+/**
+ * Parse an octal file mode such as "660" or "0600"
+ */
+export function parseSocketMode(value: string): number {
+  if (!/^0?[0-7]{3}$/.test(value)) {
+    throw new Error(`Invalid socket mode: ${value}. Use an octal file mode such as 660`);
+  }
+  return parseInt(value, 8);
+}
+
+/**
+ * Remove a socket file left behind by a process that exited without closing it
+ * Refuses to touch regular files or sockets another server is still accepting on
+ */
+async function removeStaleSocket(socketPath: string): Promise<void> {
+  let stats: fs.Stats;
+  try {
+    stats = fs.lstatSync(socketPath);
+  } catch (error: any) {
+    if (error.code === 'ENOENT') {
+      return;
+    }
+    throw error;
+  }
+  if (!stats.isSocket()) {
+    throw new Error(`Cannot listen on ${socketPath}: the path exists and is not a socket`);
+  }
+
+  const inUse = await new Promise<boolean>(resolve => {
+    const probe = net.connect(socketPath);
+    probe.once('connect', () => {
+      probe.destroy();
+      resolve(true);
+    });
+    probe.once('error', () => resolve(false));
+  });
+  if (inUse) {
+    throw new Error(`Cannot listen on ${socketPath}: another server is listening on it`);
+  }
+  fs.unlinkSync(socketPath);
+}
+
+/**
+ * Listen on a Unix domain socket (or Windows named pipe) instead of a TCP port
+ * The socket is created with the given mode, so it is never reachable with looser permissions
+ */
+export async function listenOnSocket(server: net.Server, socketPath: string, mode: number = DEFAULT_SOCKET_MODE): Promise<void> {
+  if (isNamedPipe(socketPath)) {
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(socketPath, () => {
+        server.off('error', reject);
+        resolve();
+      });
+    });
+    return;
+  }
+
+  await removeStaleSocket(socketPath);
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    // The socket file is created during listen(); the umask keeps it from starting out wider than mode
+    const previousUmask = process.umask(~mode & 0o777);
+    try {
+      server.listen(socketPath, () => {
+        server.off('error', reject);
+        resolve();
+      });
+    } finally {
+      process.umask(previousUmask);
+    }
+  });
+  fs.chmodSync(socketPath, mode);
+}
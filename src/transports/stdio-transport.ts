@@ -52,12 +52,9 @@ export class StdioTransport extends MCPTransport {
   }
 
   async stop(): Promise<void> {
-    if (!this.running) {
-      return;
-    }
-
     // No logging in STDIO mode
-    
+
+    // initialize() already connected the transport, so close it even if start() was never called
     if (this.transport) {
       await this.transport.close();
       this.transport = null;
@@ -0,0 +1,55 @@
+import * as fs from 'fs';
+import * as https from 'https';
+import { generateSelfSignedCertificate } from '../utils/self-signed-cert';
+
+/**
+ * TLS settings shared by the network transports
+ */
+export interface TlsTransportConfig {
+  https?: boolean;
+  certPath?: string;
+  keyPath?: string;
+  caPath?: string;
+}
+
+/**
+ * Read the configured certificate files; returns null when HTTPS is off
+ * Without certPath/keyPath the options stay empty until resolveHttpsOptions() fills them
+ */
+export function readHttpsOptions(config: TlsTransportConfig): https.ServerOptions | null {
+  if (!config.https) {
+    return null;
+  }
+
+  const httpsOptions: https.ServerOptions = {};
+  if (config.certPath && config.keyPath) {
+    try {
+      httpsOptions.cert = fs.readFileSync(config.certPath);
+      httpsOptions.key = fs.readFileSync(config.keyPath);
+      if (config.caPath) {
+        httpsOptions.ca = fs.readFileSync(config.caPath);
+      }
+    } catch (error) {
+      console.error('Failed to read certificate files:', error);
+      throw error;
+    }
+  }
+  return httpsOptions;
+}
+
+/**
+ * Fill in a self-signed certificate when none was provided
+ */
+export async function resolveHttpsOptions(httpsOptions: https.ServerOptions): Promise<https.ServerOptions> {
+  if (httpsOptions.cert && httpsOptions.key) {
+    return httpsOptions;
+  }
+
+  console.log('🔐 Generating self-signed certificate for HTTPS...');
+  const selfSigned = await generateSelfSignedCertificate();
+  return {
+    ...httpsOptions,
+    cert: selfSigned.cert,
+    key: selfSigned.key
+  };
+}
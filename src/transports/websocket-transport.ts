@@ -0,0 +1,227 @@
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import { JSONRPCMessage, JSONRPCMessageSchema } from '@modelcontextprotocol/sdk/types.js';
+import { randomUUID } from 'crypto';
+import * as http from 'http';
+import * as https from 'https';
+import { WebSocket, WebSocketServer } from 'ws';
+import { CoreMCPServer } from '../core/mcp-server-core';
+import { MCPTransport, TransportConfig } from '../core/transport-interface';
+import { readHttpsOptions, resolveHttpsOptions, TlsTransportConfig } from './tls-options';
+
+// Subprotocol the MCP SDK's WebSocket client asks for
+const MCP_SUBPROTOCOL = 'mcp';
+
+export interface WebSocketTransportConfig extends TransportConfig, TlsTransportConfig {
+  port?: number;
+  host?: string;
+  path?: string; // Endpoint path (default: /mcp)
+  pingIntervalMs?: number; // Keepalive ping interval; connections that miss a pong are dropped (default: 30000)
+}
+
+/**
+ * Carries JSON-RPC messages over one WebSocket connection
+ */
+export class WebSocketConnectionTransport implements Transport {
+  readonly sessionId: string = randomUUID();
+  onclose?: () => void;
+  onerror?: (error: Error) => void;
+  onmessage?: (message: JSONRPCMessage) => void;
+
+  constructor(private socket: WebSocket) {}
+
+  async start(): Promise<void> {
+    this.socket.on('message', data => {
+      let message: JSONRPCMessage;
+      try {
+        message = JSONRPCMessageSchema.parse(JSON.parse(data.toString()));
+      } catch (error) {
+        this.onerror?.(error as Error);
+        return;
+      }
+      this.onmessage?.(message);
+    });
+    this.socket.on('error', error => this.onerror?.(error));
+    this.socket.on('close', () => this.onclose?.());
+  }
+
+  async send(message: JSONRPCMessage): Promise<void> {
+    if (this.socket.readyState !== WebSocket.OPEN) {
+      throw new Error('WebSocket is not open');
+    }
+    await new Promise<void>((resolve, reject) => {
+      this.socket.send(JSON.stringify(message), error => error ? reject(error) : resolve());
+    });
+  }
+
+  async close(): Promise<void> {
+    this.socket.close();
+  }
+}
+
+interface WebSocketSession {
+  socket: WebSocket;
+  server: Server;
+  alive: boolean;
+}
+
+/**
+ * WebSocket Transport implementation for MCP Server
+ * Each connection gets its own MCP session, kept alive with ping/pong
+ */
+export class WebSocketTransport extends MCPTransport {
+  private server: http.Server | https.Server | null = null;
+  private webSocketServer: WebSocketServer | null = null;
+  private sessions: Map<string, WebSocketSession> = new Map();
+  private pingTimer: NodeJS.Timeout | null = null;
+  private port: number;
+  private host: string;
+  private path: string;
+  private pingIntervalMs: number;
+  private httpsOptions: https.ServerOptions | null;
+  private running: boolean = false;
+
+  constructor(coreServer: CoreMCPServer, config: WebSocketTransportConfig = {}) {
+    super(coreServer, config);
+    this.port = config.port ?? parseInt(process.env.PORT || '3050', 10);
+    this.host = config.host || '0.0.0.0';
+    this.path = config.path || '/mcp';
+    this.pingIntervalMs = config.pingIntervalMs ?? 30000;
+    this.httpsOptions = readHttpsOptions(config);
+  }
+
+  async initialize(): Promise<void> {
+    // Servers are created per connection in start()
+  }
+
+  async start(): Promise<void> {
+    if (this.running) {
+      throw new Error('WebSocket transport is already running');
+    }
+
+    // Plain HTTP requests only get a health check
+    const handleRequest = (req: http.IncomingMessage, res: http.ServerResponse) => {
+      const status = req.url === '/health' ? 200 : 426;
+      res.writeHead(status, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(status === 200
+        ? { status: 'OK', service: 'MCP Server', transport: 'WebSocket', timestamp: new Date().toISOString(), activeSessions: this.sessions.size }
+        : { error: `Connect with a WebSocket to ${this.path}` }));
+    };
+
+    if (this.httpsOptions) {
+      // Generate self-signed certificate if none provided
+      this.httpsOptions = await resolveHttpsOptions(this.httpsOptions);
+      this.server = https.createServer(this.httpsOptions, handleRequest);
+    } else {
+      this.server = http.createServer(handleRequest);
+    }
+
+    this.webSocketServer = new WebSocketServer({
+      server: this.server,
+      path: this.path,
+      handleProtocols: protocols => protocols.has(MCP_SUBPROTOCOL) ? MCP_SUBPROTOCOL : false
+    });
+    this.webSocketServer.on('connection', socket => {
+      this.handleConnection(socket).catch(error => {
+        console.error('Error opening MCP WebSocket session:', error);
+        socket.close(1011, 'Internal server error');
+      });
+    });
+
+    this.pingTimer = setInterval(() => this.pingSessions(), this.pingIntervalMs);
+
+    const server = this.server;
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(this.port, this.host, () => {
+        server.off('error', reject);
+        resolve();
+      });
+    });
+
+    const address = server.address();
+    if (address && typeof address === 'object') {
+      this.port = address.port;
+    }
+    const displayHost = this.host === '0.0.0.0' ? 'localhost' : this.host;
+    const protocol = this.httpsOptions ? 'wss' : 'ws';
+    console.log(`🚀 MCP WebSocket Server running on ${protocol}://${displayHost}:${this.port}${this.path}`);
+    if (this.httpsOptions && !(this.config as WebSocketTransportConfig).certPath) {
+      console.warn('⚠️  Using auto-generated self-signed certificate. For production, provide your own certificates.');
+    }
+    this.running = true;
+  }
+
+  private async handleConnection(socket: WebSocket): Promise<void> {
+    const transport = new WebSocketConnectionTransport(socket);
+    const session: WebSocketSession = { socket, server: this.coreServer.createServer(), alive: true };
+    this.sessions.set(transport.sessionId, session);
+    console.log(`WebSocket session opened: ${transport.sessionId}`);
+
+    socket.on('pong', () => {
+      session.alive = true;
+    });
+    transport.onclose = () => {
+      if (this.sessions.delete(transport.sessionId)) {
+        console.log(`WebSocket session closed: ${transport.sessionId}`);
+      }
+    };
+
+    await session.server.connect(transport);
+  }
+
+  /**
+   * Drop connections that missed the last ping, then ping the rest
+   */
+  private pingSessions(): void {
+    for (const [sessionId, session] of this.sessions) {
+      if (!session.alive) {
+        console.log(`WebSocket session ${sessionId} missed a pong, closing`);
+        session.socket.terminate();
+        continue;
+      }
+      session.alive = false;
+      session.socket.ping();
+    }
+  }
+
+  async stop(): Promise<void> {
+    if (!this.running) {
+      return;
+    }
+
+    if (this.pingTimer) {
+      clearInterval(this.pingTimer);
+      this.pingTimer = null;
+    }
+
+    // Close all sessions without waiting on clients to finish the close handshake
+    for (const session of this.sessions.values()) {
+      await session.server.close();
+      session.socket.terminate();
+    }
+    this.sessions.clear();
+
+    await new Promise<void>(resolve => this.webSocketServer ? this.webSocketServer.close(() => resolve()) : resolve());
+    await new Promise<void>(resolve => this.server ? this.server.close(() => resolve()) : resolve());
+    this.webSocketServer = null;
+    this.server = null;
+    this.running = false;
+    console.log('WebSocket transport stopped');
+  }
+
+  /**
+   * Port the server listens on (the assigned one when configured with port 0)
+   */
+  getPort(): number {
+    return this.port;
+  }
+
+  getType(): string {
+    return 'websocket';
+  }
+
+  isRunning(): boolean {
+    return this.running;
+  }
+}
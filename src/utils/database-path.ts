@@ -0,0 +1,17 @@
+import * as path from 'path';
+import envPaths from 'env-paths';
+
+/**
+ * Resolve the SQLite database path shared by sessions and jobs
+ * Uses the provided path, MCP_DATABASE_PATH, or the user data directory
+ */
+export function resolveDatabasePath(dbPath?: string): string {
+  if (dbPath) {
+    return dbPath;
+  }
+  if (process.env.MCP_DATABASE_PATH) {
+    return process.env.MCP_DATABASE_PATH;
+  }
+  const paths = envPaths('mcp-coding-agents', { suffix: '' });
+  return path.join(paths.data, 'sessions.db');
+}
@@ -1,12 +1,11 @@
+import { isStdioMode } from './stdio-mode';
+
 /**
  * Simple logger that suppresses output in STDIO mode
  */
 
 // Check if we're in STDIO mode
-const isStdio = process.argv.includes('stdio') || 
-                (process.argv.includes('--transport') && 
-                 process.argv.indexOf('--transport') + 1 < process.argv.length &&
-                 process.argv[process.argv.indexOf('--transport') + 1] === 'stdio');
+const isStdio = isStdioMode();
 
 export const logger = {
   log(...args: any[]): void {
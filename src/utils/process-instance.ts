@@ -0,0 +1,29 @@
+import * as os from 'os';
+
+/**
+ * Identifies this server process in the shared database: "<hostname>:<pid>"
+ */
+export const INSTANCE_ID = `${os.hostname()}:${process.pid}`;
+
+/**
+ * Check whether the process behind an instance id may still be running
+ * Processes on other hosts cannot be checked and are assumed alive
+ */
+export function isInstanceAlive(instanceId: string): boolean {
+  const separator = instanceId.lastIndexOf(':');
+  if (instanceId.slice(0, separator) !== os.hostname()) {
+    return true;
+  }
+
+  const pid = Number(instanceId.slice(separator + 1));
+  if (!Number.isInteger(pid) || pid <= 0) {
+    return false;
+  }
+  try {
+    // Signal 0 only checks that the process exists
+    process.kill(pid, 0);
+    return true;
+  } catch (error: any) {
+    return error.code === 'EPERM';
+  }
+}
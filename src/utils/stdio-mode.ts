@@ -0,0 +1,8 @@
+/**
+ * Check if we're serving MCP over STDIO, alone or alongside other transports
+ * (`stdio`, `--transport stdio`, `--transport stdio,http`, `--transport=stdio,http`)
+ * stdout then carries JSON-RPC, so nothing else may be written to it
+ */
+export function isStdioMode(argv: string[] = process.argv): boolean {
+  return argv.slice(2).some(arg => arg.replace(/^--transport=/, '').split(',').includes('stdio'));
+}
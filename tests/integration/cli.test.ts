@@ -25,7 +25,7 @@ describe('Unified CLI Tests', () => {
         child.on('exit', (code) => {
           expect(code).toBe(0);
           expect(output).toContain('Usage: @kadreio/mcp-coding-agents');
-          expect(output).toContain('Transport mode (stdio or http)');
+          expect(output).toContain('Transport type (stdio, http or websocket');
           expect(output).toContain('--port');
           expect(output).toContain('--host');
           resolve();
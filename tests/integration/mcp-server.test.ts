@@ -85,11 +85,13 @@ describe('MCP Streamable HTTP Server Integration Tests', () => {
       
       console.log('Available tools:', response.tools.map(t => t.name));
       
-      expect(response.tools).toHaveLength(4);
+      expect(response.tools).toHaveLength(12);
       expect(response.tools.map(t => t.name)).toContain('execute_command');
       expect(response.tools.map(t => t.name)).toContain('claude_code_query');
       expect(response.tools.map(t => t.name)).toContain('gemini_query');
       expect(response.tools.map(t => t.name)).toContain('codex_query');
+      expect(response.tools.map(t => t.name)).toContain('start_agent_job');
+      expect(response.tools.map(t => t.name)).toContain('get_agent_job_output');
     });
 
     test('should execute command successfully', async () => {
@@ -126,9 +128,10 @@ describe('MCP Streamable HTTP Server Integration Tests', () => {
     test('should list available resources', async () => {
       const response = await client.listResources();
       
-      expect(response.resources).toHaveLength(2);
+      expect(response.resources).toHaveLength(3);
       expect(response.resources.map(r => r.uri)).toContain('config://server');
       expect(response.resources.map(r => r.uri)).toContain('stats://system');
+      expect(response.resources.map(r => r.uri)).toContain('usage://summary');
     });
 
     test('should read server configuration', async () => {
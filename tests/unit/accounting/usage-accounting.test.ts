@@ -0,0 +1,98 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { UsageAccounting } from '../../../src/accounting/usage-accounting';
+import { SQLiteSessionStore } from '../../../src/api/sqlite-session-store';
+import { Session } from '../../../src/api/session-manager';
+
+function createSession(sessionId: string, apiKey?: string, model?: string): Session {
+  const now = new Date().toISOString();
+  return {
+    sessionId,
+    apiKey,
+    config: { model },
+    status: 'active',
+    createdAt: now,
+    expiresAt: now,
+    lastActivity: now,
+    messageCount: 0
+  };
+}
+
+function resultMessage(cost: number, inputTokens: number) {
+  return {
+    type: 'result',
+    subtype: 'success',
+    is_error: false,
+    result: 'done',
+    session_id: 'claude-session',
+    num_turns: 2,
+    duration_ms: 1000,
+    total_cost_usd: cost,
+    usage: { input_tokens: inputTokens, output_tokens: 10 }
+  };
+}
+
+describe('UsageAccounting', () => {
+  let tmpDir: string;
+  let dbPath: string;
+  let store: SQLiteSessionStore;
+  let accounting: UsageAccounting;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'mcp-usage-'));
+    dbPath = path.join(tmpDir, 'sessions.db');
+    store = new SQLiteSessionStore(dbPath);
+    accounting = new UsageAccounting(dbPath);
+
+    store.createSession('s1', createSession('s1', 'key-aaaa...', 'claude-opus'));
+    store.createSession('s2', createSession('s2', 'key-bbbb...'));
+    store.saveMessage('s1', resultMessage(0.5, 100), 1);
+    store.saveMessage('s1', resultMessage(0.25, 50), 2);
+    store.saveMessage('s2', { type: 'system', subtype: 'init', model: 'claude-sonnet' }, 1);
+    store.saveMessage('s2', resultMessage(1, 200), 2);
+  });
+
+  afterEach(() => {
+    accounting.close();
+    store.close();
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  test('should total cost, tokens and turns across result messages', () => {
+    const report = accounting.getUsage();
+
+    expect(report.groups).toBeUndefined();
+    expect(report.totals).toMatchObject({
+      queries: 3,
+      numTurns: 6,
+      durationMs: 3000,
+      costUsd: 1.75,
+      inputTokens: 350,
+      outputTokens: 30
+    });
+  });
+
+  test('should group by API key and by model', () => {
+    const byKey = accounting.getUsage({ groupBy: 'apiKey' }).groups;
+    expect(byKey?.map(g => [g.key, g.costUsd])).toEqual([['key-bbbb...', 1], ['key-aaaa...', 0.75]]);
+
+    const byModel = accounting.getUsage({ groupBy: 'model' }).groups;
+    expect(byModel?.map(g => [g.key, g.queries])).toEqual([['claude-sonnet', 1], ['claude-opus', 2]]);
+  });
+
+  test('should filter by session and date range', () => {
+    expect(accounting.getUsage({ sessionId: 's1' }).totals.queries).toBe(2);
+
+    const today = new Date().toISOString().slice(0, 10);
+    const byDay = accounting.getUsage({ groupBy: 'day', from: today, to: today }).groups;
+    expect(byDay).toEqual([expect.objectContaining({ key: today, queries: 3 })]);
+
+    expect(accounting.getUsage({ to: '2000-01-01' }).totals.queries).toBe(0);
+  });
+
+  test('should report empty usage when the database does not exist', () => {
+    const missing = new UsageAccounting(path.join(tmpDir, 'missing.db'));
+    expect(missing.getUsage({ groupBy: 'day' })).toMatchObject({ totals: { queries: 0 }, groups: [] });
+  });
+});
@@ -0,0 +1,132 @@
+import { AgentProvider, AgentRegistry } from '../../src/core/agent-registry';
+import { classifyAgentError, getRetryDelay, handleCodingAgentQuery } from '../../src/lib/agents/agent-router';
+
+function createFakeAgent(id: string, handle: AgentProvider['handle']): AgentProvider {
+  return {
+    id,
+    toolName: `${id}_query`,
+    kind: 'agent',
+    capabilities: { streaming: true, cancellation: false, resume: false },
+    getToolDefinition: () => null,
+    isValidArgs: (args: unknown): args is { prompt: string } => typeof (args as any)?.prompt === 'string',
+    handle
+  };
+}
+
+const policy = { fallbackChain: ['claude', 'codex'], retryAttempts: 3, retryBaseDelayMs: 1, retryMaxDelayMs: 5 };
+
+describe('coding_agent_query', () => {
+  let registry: AgentRegistry;
+  let calls: string[];
+
+  beforeEach(() => {
+    registry = new AgentRegistry();
+    calls = [];
+    registry.register(createFakeAgent('codex', async (args) => {
+      calls.push('codex');
+      return {
+        content: [{ type: 'text', text: 'codex answer' }],
+        structuredContent: { message: `codex: ${args.prompt}`, session_id: 'codex-1' }
+      };
+    }));
+  });
+
+  test('should classify errors', () => {
+    expect(classifyAgentError('Query failed: 429 rate_limit_error')).toBe('transient');
+    expect(classifyAgentError('API Error: 529 Overloaded')).toBe('transient');
+    expect(classifyAgentError('Codex command not found. Please ensure codex CLI is installed and in PATH')).toBe('unavailable');
+    expect(classifyAgentError('Invalid options for codex_query: sandbox must be one of ...')).toBe('permanent');
+  });
+
+  test('should back off exponentially up to the maximum', () => {
+    const delays = { retryBaseDelayMs: 100, retryMaxDelayMs: 300 };
+    expect([2, 3, 4].map(attempt => getRetryDelay(attempt, delays))).toEqual([100, 200, 300]);
+  });
+
+  test('should retry transient errors before succeeding', async () => {
+    registry.register(createFakeAgent('claude', async () => {
+      calls.push('claude');
+      if (calls.length < 3) {
+        return { content: [{ type: 'text', text: 'Query failed: rate limit exceeded' }], isError: true };
+      }
+      return { content: [], structuredContent: { result: 'claude ok', session_id: 's1', total_cost_usd: 0.01 } };
+    }));
+
+    const result = await handleCodingAgentQuery({ prompt: 'hi' }, registry, policy);
+
+    expect(calls).toEqual(['claude', 'claude', 'claude']);
+    expect(result.isError).toBeUndefined();
+    expect(result.structuredContent).toMatchObject({ agent: 'claude', response: 'claude ok', sessionId: 's1', costUsd: 0.01 });
+    expect(result.structuredContent.attempts.map(a => [a.attempt, a.status, a.errorClass])).toEqual([
+      [1, 'error', 'transient'], [2, 'error', 'transient'], [3, 'success', undefined]
+    ]);
+    expect(result.content[0].text).toContain('Served by: claude (after 2 failed attempts)');
+  });
+
+  test('should fall back when retries are exhausted or the agent is unavailable', async () => {
+    registry.register(createFakeAgent('claude', async () => {
+      calls.push('claude');
+      throw new Error('Overloaded');
+    }));
+    const notifications: any[] = [];
+
+    const result = await handleCodingAgentQuery(
+      { prompt: 'hi', retryAttempts: 2 },
+      registry,
+      policy,
+      { sendNotification: async notification => { notifications.push(JSON.parse(notification.params.data)); } }
+    );
+
+    expect(calls).toEqual(['claude', 'claude', 'codex']);
+    expect(result.structuredContent).toMatchObject({ agent: 'codex', response: 'codex: hi', sessionId: 'codex-1' });
+    expect(notifications.map(n => n.event)).toEqual([
+      'attempt_started', 'attempt_failed', 'attempt_started', 'attempt_failed', 'fallback', 'attempt_started'
+    ]);
+
+    calls = [];
+    const missing = await handleCodingAgentQuery({ prompt: 'hi', agents: ['gemini_missing', 'codex'] }, registry, policy)
+      .catch(error => error.message);
+    expect(missing).toContain('Unknown agent(s): gemini_missing');
+  });
+
+  test('should move on immediately when an agent is unavailable', async () => {
+    registry.register(createFakeAgent('claude', async () => {
+      calls.push('claude');
+      throw new Error('Claude Code tool is disabled');
+    }));
+
+    const result = await handleCodingAgentQuery({ prompt: 'hi' }, registry, policy);
+
+    expect(calls).toEqual(['claude', 'codex']);
+    expect(result.structuredContent.attempts[0]).toMatchObject({ agent: 'claude', errorClass: 'unavailable' });
+  });
+
+  test('should stop on permanent errors', async () => {
+    registry.register(createFakeAgent('claude', async () => {
+      calls.push('claude');
+      return { content: [], structuredContent: { result: 'Reached max turns', is_error: true } };
+    }));
+
+    const result = await handleCodingAgentQuery({ prompt: 'hi' }, registry, policy);
+
+    expect(calls).toEqual(['claude']);
+    expect(result.isError).toBe(true);
+    expect(result.structuredContent.agent).toBeUndefined();
+    expect(result.structuredContent.response).toBe('Reached max turns');
+  });
+
+  test('should report when every agent fails', async () => {
+    const result = await handleCodingAgentQuery(
+      { prompt: 'hi', agents: ['codex'] },
+      (() => {
+        const failing = new AgentRegistry();
+        failing.register(createFakeAgent('codex', async () => { throw new Error('spawn codex ENOENT'); }));
+        return failing;
+      })(),
+      policy
+    );
+
+    expect(result.isError).toBe(true);
+    expect(result.structuredContent.response).toBe('All agents failed. Last error: spawn codex ENOENT');
+  });
+});
@@ -0,0 +1,140 @@
+import express from 'express';
+import * as fs from 'fs';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import * as os from 'os';
+import * as path from 'path';
+import { UsageAccounting } from '../../../src/accounting/usage-accounting';
+import { createClaudeCodeApi } from '../../../src/api/claude-code-api';
+import { ClaudeCodeSessionManager } from '../../../src/api/session-manager-sqlite';
+import { getApiKeyId } from '../../../src/api/auth-middleware';
+import { createDefaultAgentRegistry } from '../../../src/lib/agents';
+import { PermissionBroker, PermissionRequest } from '../../../src/permissions/permission-broker';
+
+const OWNER_KEY = 'owner-key-123456';
+const OTHER_KEY = 'owner-key-654321'; // Shares the owner's prefix
+const ADMIN_KEY = 'admin-key-123456';
+
+describe('REST API authorization', () => {
+  let tmpDir: string;
+  let server: http.Server;
+  let baseUrl: string;
+  let sessionManager: ClaudeCodeSessionManager;
+  let usageAccounting: UsageAccounting;
+  let permissionBroker: PermissionBroker;
+  const originalDbPath = process.env.MCP_DATABASE_PATH;
+
+  beforeEach(async () => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'mcp-api-auth-'));
+    process.env.MCP_DATABASE_PATH = path.join(tmpDir, 'sessions.db');
+    sessionManager = new ClaudeCodeSessionManager();
+    usageAccounting = new UsageAccounting();
+
+    permissionBroker = new PermissionBroker({ dbPath: path.join(tmpDir, 'permissions.db') });
+    const app = express();
+    app.use(express.json());
+    app.use('/api/v1', createClaudeCodeApi({
+      agentRegistry: createDefaultAgentRegistry(),
+      permissionBroker,
+      auth: { apiKeys: [OWNER_KEY, OTHER_KEY], adminApiKeys: [ADMIN_KEY] },
+      rateLimit: { enabled: false },
+      sessionManager,
+      usageAccounting
+    }));
+
+    server = http.createServer(app);
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api/v1`;
+  });
+
+  afterEach(async () => {
+    await new Promise(resolve => server.close(resolve));
+    sessionManager.stopCleanupTask();
+    usageAccounting.close();
+    process.env.MCP_DATABASE_PATH = originalDbPath;
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  const request = (method: string, route: string, apiKey?: string, body?: unknown) => fetch(`${baseUrl}${route}`, {
+    method,
+    headers: { 'Content-Type': 'application/json', ...(apiKey && { 'x-api-key': apiKey }) },
+    ...(body !== undefined && { body: JSON.stringify(body) })
+  });
+
+  test('should require a key for routes that act on sessions', async () => {
+    const routes: Array<[string, string]> = [
+      ['POST', '/sessions/missing/stream'],
+      ['POST', '/sessions/missing/fork'],
+      ['GET', '/sessions/missing/events'],
+      ['GET', '/sessions/missing/worktree'],
+      ['POST', '/sessions/missing/worktree/merge'],
+      ['GET', '/sessions/missing/permissions'],
+      ['POST', '/sessions/missing/permissions/missing'],
+      ['POST', '/pipelines'],
+      ['POST', '/pipelines/missing/cancel']
+    ];
+    for (const [method, route] of routes) {
+      expect([method, route, (await request(method, route)).status]).toEqual([method, route, 401]);
+    }
+  });
+
+  test('should limit usage reports to the caller\'s key unless it is an admin key', async () => {
+    const otherKeyId = getApiKeyId(OTHER_KEY);
+
+    expect((await request('GET', '/usage')).status).toBe(401);
+    expect((await request('GET', `/usage?apiKey=${otherKeyId}`, OWNER_KEY)).status).toBe(403);
+
+    const own = await request('GET', '/usage?groupBy=apiKey', OWNER_KEY);
+    expect(own.status).toBe(200);
+    expect(((await own.json()) as { totals: { queries: number } }).totals.queries).toBe(0);
+
+    expect((await request('GET', `/usage?apiKey=${otherKeyId}`, ADMIN_KEY)).status).toBe(200);
+  });
+
+  test('should reject other keys on routes that act on a session', async () => {
+    const created = await request('POST', '/sessions', OWNER_KEY, {});
+    const { sessionId } = (await created.json()) as { sessionId: string };
+
+    const routes: Array<[string, string, unknown?]> = [
+      ['POST', `/sessions/${sessionId}/messages`, { prompt: 'hi' }],
+      ['POST', `/sessions/${sessionId}/stream`, { prompt: 'hi' }],
+      ['GET', `/sessions/${sessionId}/worktree`],
+      ['POST', `/sessions/${sessionId}/worktree/merge`, {}],
+      ['GET', `/sessions/${sessionId}/events`],
+      ['DELETE', `/sessions/${sessionId}`]
+    ];
+    for (const [method, route, body] of routes) {
+      expect([method, route, (await request(method, route, OTHER_KEY, body)).status]).toEqual([method, route, 403]);
+    }
+
+    expect((await request('GET', `/sessions/${sessionId}`)).status).toBe(200);
+    expect((await request('DELETE', `/sessions/${sessionId}`, OWNER_KEY)).status).toBe(204);
+  });
+
+  test('should only accept permission decisions from the key that created the session', async () => {
+    const created = await request('POST', '/sessions', OWNER_KEY, {});
+    expect(created.status).toBe(201);
+    const { sessionId } = (await created.json()) as { sessionId: string };
+
+    let pending!: PermissionRequest;
+    const decision = permissionBroker.requestPermission(sessionId, { toolName: 'Bash', input: { command: 'ls' } }, request => {
+      pending = request;
+    });
+    const route = `/sessions/${sessionId}/permissions/${pending.requestId}`;
+
+    expect((await request('GET', `/sessions/${sessionId}/permissions`, OTHER_KEY)).status).toBe(403);
+    expect((await request('POST', route, OTHER_KEY, { behavior: 'allow' })).status).toBe(403);
+    expect(permissionBroker.listPending(sessionId)).toHaveLength(1);
+
+    expect((await request('POST', route, OWNER_KEY, { behavior: 'deny' })).status).toBe(200);
+    await expect(decision).resolves.toMatchObject({ behavior: 'deny' });
+  });
+
+  test('should only fork sessions for the key that created them', async () => {
+    const created = await request('POST', '/sessions', OWNER_KEY, {});
+    const { sessionId } = (await created.json()) as { sessionId: string };
+
+    expect((await request('POST', `/sessions/${sessionId}/fork`, OTHER_KEY, {})).status).toBe(403);
+    expect((await request('POST', `/sessions/${sessionId}/fork`, OWNER_KEY, {})).status).toBe(201);
+  });
+});
@@ -0,0 +1,73 @@
+import { Response } from 'express';
+import { UsageAccounting } from '../../../src/accounting/usage-accounting';
+import { getApiKeyId } from '../../../src/api/auth-middleware';
+import { BudgetEnforcer } from '../../../src/api/budget-enforcer';
+
+const API_KEY = 'test-key-123456';
+const KEY_ID = getApiKeyId(API_KEY);
+
+function createUsage(costUsd: number): UsageAccounting {
+  return {
+    getUsage: () => ({ totals: { costUsd } })
+  } as unknown as UsageAccounting;
+}
+
+function createResponse(): Response & { headers: Record<string, string> } {
+  const headers: Record<string, string> = {};
+  return {
+    headers,
+    setHeader: (name: string, value: string) => {
+      headers[name] = value;
+    }
+  } as any;
+}
+
+describe('BudgetEnforcer', () => {
+  test('should allow queries under budget and report the remaining amount', () => {
+    const enforcer = new BudgetEnforcer({ defaults: { dailyUsd: 5 } }, createUsage(1.5));
+    const res = createResponse();
+
+    expect(enforcer.checkSpend(KEY_ID, res)).toBeNull();
+    expect(res.headers['X-Budget-Daily-Limit']).toBe('5');
+    expect(res.headers['X-Budget-Daily-Remaining']).toBe('3.5000');
+  });
+
+  test('should reject queries once the daily budget is spent', () => {
+    const enforcer = new BudgetEnforcer({ defaults: { dailyUsd: 5 } }, createUsage(5));
+
+    expect(enforcer.checkSpend(KEY_ID, createResponse())).toMatchObject({
+      code: 'BUDGET_EXCEEDED',
+      status: 402,
+      details: { period: 'daily', limit: 5, spent: 5 }
+    });
+  });
+
+  test('should apply per-key overrides by raw API key', () => {
+    const enforcer = new BudgetEnforcer(
+      { defaults: { maxConcurrentSessions: 1 }, keys: { [API_KEY]: { maxConcurrentSessions: 3 } } },
+      createUsage(0)
+    );
+
+    expect(enforcer.checkSessions(KEY_ID, 2, createResponse())).toBeNull();
+    // Keys sharing a prefix do not share limits
+    expect(enforcer.checkSessions(getApiKeyId('test-key-654321'), 1, createResponse())).toMatchObject({
+      code: 'SESSION_LIMIT_EXCEEDED',
+      status: 429
+    });
+  });
+
+  test('should clamp maxTurns to the per-message turn budget', () => {
+    const enforcer = new BudgetEnforcer({ defaults: { maxTurnsPerMessage: 5 } }, createUsage(0));
+    const res = createResponse();
+
+    expect(enforcer.clampMaxTurns(KEY_ID, 10, res)).toBe(5);
+    expect(enforcer.clampMaxTurns(KEY_ID, 3, res)).toBe(3);
+    expect(enforcer.clampMaxTurns(undefined, 10, res)).toBe(10);
+    expect(res.headers['X-Budget-Max-Turns']).toBe('5');
+  });
+
+  test('should skip enforcement when disabled', () => {
+    const enforcer = new BudgetEnforcer({ enabled: false, defaults: { dailyUsd: 1 } }, createUsage(10));
+    expect(enforcer.checkSpend(KEY_ID, createResponse())).toBeNull();
+  });
+});
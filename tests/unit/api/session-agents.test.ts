@@ -0,0 +1,119 @@
+import { AgentProvider, AgentRegistry } from '../../../src/core/agent-registry';
+import { createDefaultAgentRegistry } from '../../../src/lib/agents';
+import { getSessionAgentError, runSessionQuery } from '../../../src/api/session-agents';
+import { Session } from '../../../src/api/session-manager';
+
+function createSession(overrides: Partial<Session> = {}, config: Session['config'] = {}): Session {
+  return {
+    sessionId: 'session-1',
+    config: { cwd: '/repo', ...config },
+    status: 'active',
+    createdAt: '2026-01-01T00:00:00.000Z',
+    expiresAt: '2026-01-01T01:00:00.000Z',
+    lastActivity: '2026-01-01T00:00:00.000Z',
+    messageCount: 0,
+    ...overrides
+  };
+}
+
+function createRecordingProvider(id: string, result: any, calls: any[]): AgentProvider {
+  return {
+    id,
+    toolName: `${id}_query`,
+    kind: 'agent',
+    capabilities: { streaming: false, cancellation: false, resume: false },
+    getToolDefinition: () => null,
+    isValidArgs: (args: unknown): args is { prompt: string } => typeof (args as any)?.prompt === 'string',
+    handle: async (args) => {
+      calls.push(args);
+      return result;
+    }
+  };
+}
+
+describe('session agents', () => {
+  test('should validate the agent and its config', () => {
+    const registry = createDefaultAgentRegistry();
+
+    expect(getSessionAgentError({}, registry)).toBeNull();
+    expect(getSessionAgentError({ agent: 'execute_command' }, registry))
+      .toBe('Unknown agent: execute_command. Must be one of: claude, gemini, codex');
+    expect(getSessionAgentError({ agent: 'claude', agentOptions: {} }, registry))
+      .toBe('Field "agentOptions" is not supported by the claude agent');
+    expect(getSessionAgentError({ agent: 'codex', permissionMode: 'plan' }, registry))
+      .toBe('Field "permissionMode" is only supported by the claude agent');
+    expect(getSessionAgentError({ agent: 'codex', agentOptions: { resume: 'x' } }, registry))
+      .toBe('agentOptions.resume is managed by the session and cannot be set');
+    expect(getSessionAgentError({ agent: 'codex', agentOptions: { sandbox: 'everything' } }, registry))
+      .toMatch(/^Invalid agentOptions: sandbox must be one of/);
+    expect(getSessionAgentError({ agent: 'gemini', agentOptions: { approvalMode: 'auto_edit', sandbox: true } }, registry))
+      .toBeNull();
+    expect(getSessionAgentError({ allowedTools: ['Read', 'Bash(git diff:*)'] }, registry)).toBeNull();
+    expect(getSessionAgentError({ disallowedTools: ['Bash('] }, registry))
+      .toBe('disallowedTools entry "Bash(" must look like Tool or Tool(specifier)');
+    expect(getSessionAgentError({ agent: 'codex', allowedTools: ['Read'] }, registry))
+      .toBe('Field "allowedTools" is only supported by the claude agent');
+    expect(getSessionAgentError({ mcpServers: ['not-in-catalog'] }, registry))
+      .toMatch(/^mcpServers entry "not-in-catalog" is not in the server catalog/);
+  });
+
+  test('should resume Codex sessions in the session worktree', async () => {
+    const calls: any[] = [];
+    const registry = new AgentRegistry();
+    registry.register(createRecordingProvider('codex', {
+      content: [{ type: 'text', text: 'Done' }],
+      structuredContent: { message: 'Done', session_id: 'codex-session-1', usage: { input_tokens: 5, output_tokens: 2, total_tokens: 7 } }
+    }, calls));
+
+    const session = createSession(
+      { agentSessionId: 'codex-session-1', worktree: { cwd: '/worktrees/repo-session' } as any },
+      { agent: 'codex', model: 'gpt-5', agentOptions: { sandbox: 'read-only' } }
+    );
+    const result = await runSessionQuery(registry, session, { prompt: 'continue', timeout: 1000 });
+
+    expect(calls[0]).toEqual({
+      prompt: 'continue',
+      options: {
+        sandbox: 'read-only',
+        model: 'gpt-5',
+        cwd: '/worktrees/repo-session',
+        isolation: 'none',
+        resume: 'codex-session-1',
+        timeout: 1000
+      }
+    });
+    expect(result).toEqual({
+      response: 'Done',
+      agentSessionId: 'codex-session-1',
+      changes: undefined,
+      usage: { input_tokens: 5, output_tokens: 2, total_tokens: 7 },
+      isError: false
+    });
+  });
+
+  test('should fork the source Claude session until a fork gets its own', async () => {
+    const calls: any[] = [];
+    const registry = new AgentRegistry();
+    registry.register(createRecordingProvider('claude', { content: [{ type: 'text', text: 'ok' }] }, calls));
+    const forkedFrom = { sessionId: 'session-0', sequence: 4, agentSessionId: 'claude-a' };
+
+    await runSessionQuery(registry, createSession({ agentSessionId: 'claude-a', forkedFrom }), { prompt: 'try another way' });
+    await runSessionQuery(registry, createSession({ agentSessionId: 'claude-b', forkedFrom }), { prompt: 'continue' });
+
+    expect(calls[0].options).toMatchObject({ sessionId: 'claude-a', forkSession: true });
+    expect(calls[1].options.sessionId).toBe('claude-b');
+    expect(calls[1].options).not.toHaveProperty('forkSession');
+  });
+
+  test('should fall back to text content for plugin agents', async () => {
+    const calls: any[] = [];
+    const registry = new AgentRegistry();
+    registry.register(createRecordingProvider('aider', { content: [{ type: 'text', text: 'Edited 2 files' }], isError: true }, calls));
+
+    const result = await runSessionQuery(registry, createSession({}, { agent: 'aider', agentOptions: { editFormat: 'diff' } }), { prompt: 'go' });
+
+    expect(calls[0].options).toEqual({ editFormat: 'diff', cwd: '/repo', timeout: undefined });
+    expect(result.response).toBe('Edited 2 files');
+    expect(result.isError).toBe(true);
+  });
+});
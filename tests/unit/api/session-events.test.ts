@@ -0,0 +1,63 @@
+import { formatSseEvent, SessionEventHub, SessionStreamEvent, toMessageEvent } from '../../../src/api/session-events';
+import { MessageRecord } from '../../../src/api/sqlite-session-store';
+
+function record(sequence: number, content: unknown): MessageRecord {
+  return {
+    id: sequence,
+    sessionId: 's1',
+    messageType: (content as any).type,
+    content: JSON.stringify(content),
+    sequence,
+    timestamp: '2026-01-01T00:00:00.000Z',
+    source: 'sdk'
+  };
+}
+
+describe('session events', () => {
+  test('should number message frames with their stored sequence', () => {
+    expect(formatSseEvent({ event: 'message', id: 7, data: { type: 'x' } })).toBe('id: 7\nevent: message\ndata: {"type":"x"}\n\n');
+    expect(formatSseEvent({ event: 'complete', data: { summary: 'ok' } })).toBe('event: complete\ndata: {"summary":"ok"}\n\n');
+  });
+
+  test('should replay stored messages in the shape they were streamed', () => {
+    const assistant = { type: 'assistant', message: { role: 'assistant', content: [] } };
+    expect(toMessageEvent(record(3, assistant), 'claude')).toEqual({
+      event: 'message',
+      id: 3,
+      data: { type: 'claude_code_message', message: assistant, timestamp: '2026-01-01T00:00:00.000Z', sequence: 3 }
+    });
+
+    const codexMessage = { type: 'codex_message', sessionId: 'q1', message: { msg: { type: 'exec' } }, sequence: 1 };
+    expect(toMessageEvent(record(9, codexMessage), 'codex')).toEqual({
+      event: 'message',
+      id: 9,
+      data: { ...codexMessage, sequence: 9 }
+    });
+  });
+
+  test('should fan out events and track running queries', () => {
+    const hub = new SessionEventHub();
+    const received: SessionStreamEvent[] = [];
+    const unsubscribe = hub.subscribe('s1', event => received.push(event));
+
+    const first = new AbortController();
+    const second = new AbortController();
+    const finishFirst = hub.startRun('s1', first);
+    const finishSecond = hub.startRun('s1', second);
+    hub.publish('s1', { event: 'message', id: 1, data: {} });
+    hub.publish('s2', { event: 'message', id: 1, data: {} });
+    unsubscribe();
+    hub.publish('s1', { event: 'complete', data: {} });
+
+    expect(received).toEqual([{ event: 'message', id: 1, data: {} }]);
+    expect(hub.isRunning('s1')).toBe(true);
+
+    hub.abortRuns('s1');
+    expect(first.signal.aborted && second.signal.aborted).toBe(true);
+
+    finishFirst();
+    expect(hub.isRunning('s1')).toBe(true);
+    finishSecond();
+    expect(hub.isRunning('s1')).toBe(false);
+  });
+});
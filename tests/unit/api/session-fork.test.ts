@@ -0,0 +1,78 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ClaudeCodeSessionManager } from '../../../src/api/session-manager-sqlite';
+import { SQLiteSessionStore } from '../../../src/api/sqlite-session-store';
+
+const result = (sessionId: string) => ({ type: 'result', subtype: 'success', is_error: false, result: 'ok', session_id: sessionId });
+const user = (text: string) => ({ type: 'user', message: { role: 'user', content: [{ type: 'text', text }] } });
+
+describe('session fork', () => {
+  let tmpDir: string;
+  let dbPath: string;
+  let manager: ClaudeCodeSessionManager;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'mcp-session-fork-'));
+    dbPath = path.join(tmpDir, 'sessions.db');
+    manager = new ClaudeCodeSessionManager({ dbPath });
+  });
+
+  afterEach(() => {
+    manager.stopCleanupTask();
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  test('should number messages across turns', () => {
+    const session = manager.createSession({ cwd: '/repo' });
+
+    expect(manager.saveMessage(session.sessionId, user('one'), 'user')).toBe(1);
+    expect(manager.saveMessage(session.sessionId, result('claude-a'))).toBe(2);
+    expect(manager.saveMessage(session.sessionId, user('two'), 'user')).toBe(3);
+
+    expect(manager.getMessages(session.sessionId).map(m => [m.sequence, m.messageType])).toEqual([
+      [1, 'user'], [2, 'result'], [3, 'user']
+    ]);
+    expect(manager.getLastMessageOfType(session.sessionId, 'result')?.sequence).toBe(2);
+  });
+
+  test('should copy history up to the fork point and keep the source unchanged', () => {
+    const source = manager.createSession({ cwd: '/repo', permissionMode: 'acceptEdits', metadata: { task: 'a' } });
+    manager.saveMessage(source.sessionId, user('one'), 'user');
+    manager.saveMessage(source.sessionId, result('claude-a'));
+    manager.saveMessage(source.sessionId, user('two'), 'user');
+    manager.saveMessage(source.sessionId, result('claude-b'));
+
+    const fork = manager.forkSession(source, { sessionId: source.sessionId, sequence: 2, agentSessionId: 'claude-a' });
+    manager.saveMessage(fork.sessionId, user('alternative'), 'user');
+
+    const stored = manager.getSession(fork.sessionId)!;
+    expect(stored.agentSessionId).toBe('claude-a');
+    expect(fork.messageCount).toBe(2);
+    expect(stored.forkedFrom).toEqual({ sessionId: source.sessionId, sequence: 2, agentSessionId: 'claude-a' });
+    expect(stored.config).toMatchObject({ cwd: '/repo', permissionMode: 'acceptEdits', metadata: { task: 'a' } });
+    expect(manager.getMessages(fork.sessionId).map(m => [m.sequence, JSON.parse(m.content).message?.content[0].text ?? m.messageType]))
+      .toEqual([[1, 'one'], [2, 'result'], [3, 'alternative']]);
+    expect(manager.getMessageCount(source.sessionId)).toBe(4);
+  });
+
+  test('should renumber sequences that restarted with every query', () => {
+    manager.stopCleanupTask();
+    const store = new SQLiteSessionStore(dbPath);
+    const session = { sessionId: 'legacy', config: {}, status: 'active' as const, createdAt: 'x', expiresAt: 'x', lastActivity: 'x', messageCount: 2 };
+    store.createSession('legacy', session);
+    store.saveMessage('legacy', user('one'), 0, 'user');
+    store.saveMessage('legacy', result('claude-a'), 1);
+    store.saveMessage('legacy', user('two'), 0, 'user');
+    store.saveMessage('legacy', result('claude-b'), 1);
+    store.close();
+
+    const migrated = new SQLiteSessionStore(dbPath);
+    expect(migrated.getMessages('legacy').map(m => [m.sequence, m.messageType])).toEqual([
+      [1, 'user'], [2, 'result'], [3, 'user'], [4, 'result']
+    ]);
+    migrated.close();
+
+    manager = new ClaudeCodeSessionManager({ dbPath });
+  });
+});
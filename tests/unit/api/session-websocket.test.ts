@@ -0,0 +1,200 @@
+import express from 'express';
+import * as fs from 'fs';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import * as os from 'os';
+import * as path from 'path';
+import WebSocket from 'ws';
+import { UsageAccounting } from '../../../src/accounting/usage-accounting';
+import { createClaudeCodeApi } from '../../../src/api/claude-code-api';
+import { ClaudeCodeSessionManager } from '../../../src/api/session-manager-sqlite';
+import { closeWebSockets, createUpgradeHandler } from '../../../src/api/session-websocket';
+import { AgentProvider, AgentRequestContext, AgentRegistry } from '../../../src/core/agent-registry';
+import { PermissionBroker } from '../../../src/permissions/permission-broker';
+
+const API_KEY = 'ws-test-key-123456';
+
+// Streams one message, asks to run Bash, and reports the decision (or waits to be aborted)
+function createInteractiveProvider(): AgentProvider {
+  return {
+    id: 'claude',
+    toolName: 'claude_code_query',
+    kind: 'agent',
+    capabilities: { streaming: true, cancellation: true, resume: true },
+    getToolDefinition: () => null,
+    isValidArgs: (args: unknown): args is { prompt: string } => typeof (args as any)?.prompt === 'string',
+    handle: async (args: { prompt: string }, context: AgentRequestContext) => {
+      if (args.prompt === 'wait') {
+        await new Promise((_, reject) => context.signal!.addEventListener('abort', () => reject(new Error('Query aborted'))));
+      }
+      await context.sendNotification!({
+        params: { data: { type: 'claude_code_message', message: { type: 'assistant', message: { role: 'assistant', content: [] } } } }
+      });
+      const decision = await context.requestPermission!({ toolName: 'Bash', input: { command: 'ls' } });
+      return { content: [{ type: 'text', text: `Bash ${decision.behavior}` }] };
+    }
+  };
+}
+
+// Collects the frames a client receives so tests can await them in order
+function connect(url: string, headers: Record<string, string> = { 'x-api-key': API_KEY }) {
+  const socket = new WebSocket(url, { headers });
+  const frames: any[] = [];
+  const waiters: Array<() => void> = [];
+  socket.on('message', data => {
+    frames.push(JSON.parse(data.toString()));
+    waiters.splice(0).forEach(wake => wake());
+  });
+  const next = async (): Promise<any> => {
+    while (frames.length === 0) {
+      await new Promise<void>(resolve => waiters.push(resolve));
+    }
+    return frames.shift();
+  };
+  return { socket, next };
+}
+
+describe('session WebSocket', () => {
+  let tmpDir: string;
+  let server: http.Server;
+  let baseUrl: string;
+  let sessionManager: ClaudeCodeSessionManager;
+  let usageAccounting: UsageAccounting;
+  const originalDbPath = process.env.MCP_DATABASE_PATH;
+
+  beforeEach(async () => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'mcp-session-ws-'));
+    process.env.MCP_DATABASE_PATH = path.join(tmpDir, 'sessions.db');
+    sessionManager = new ClaudeCodeSessionManager();
+    usageAccounting = new UsageAccounting();
+
+    const agentRegistry = new AgentRegistry();
+    agentRegistry.register(createInteractiveProvider());
+    const app = express();
+    app.use(express.json());
+    app.use('/api/v1', createClaudeCodeApi({
+      agentRegistry,
+      permissionBroker: new PermissionBroker({ dbPath: path.join(tmpDir, 'permissions.db') }),
+      auth: { apiKeys: [API_KEY] },
+      rateLimit: { enabled: false },
+      sessionManager,
+      usageAccounting
+    }));
+
+    server = http.createServer(app);
+    server.on('upgrade', createUpgradeHandler(app));
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `127.0.0.1:${(server.address() as AddressInfo).port}/api/v1`;
+  });
+
+  afterEach(async () => {
+    closeWebSockets();
+    await new Promise(resolve => server.close(resolve));
+    sessionManager.stopCleanupTask();
+    usageAccounting.close();
+    process.env.MCP_DATABASE_PATH = originalDbPath;
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  const createSession = async (): Promise<string> => {
+    const response = await fetch(`http://${baseUrl}/sessions`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'x-api-key': API_KEY },
+      body: JSON.stringify({ cwd: tmpDir })
+    });
+    return ((await response.json()) as { sessionId: string }).sessionId;
+  };
+
+  test('should run prompts and answer permission requests over one connection', async () => {
+    const sessionId = await createSession();
+    const { socket, next } = connect(`ws://${baseUrl}/sessions/${sessionId}/ws`);
+
+    expect(await next()).toEqual({ event: 'connected', data: { sessionId } });
+    socket.send('not json');
+    expect(await next()).toEqual({ event: 'frame_error', data: { code: 'INVALID_REQUEST', message: 'Frames must be JSON objects' } });
+
+    socket.send(JSON.stringify({ type: 'prompt', prompt: 'list files' }));
+    expect(await next()).toMatchObject({ event: 'message', id: 2, data: { type: 'claude_code_message', sequence: 2 } });
+    const permission = await next();
+    expect(permission).toMatchObject({ event: 'permission_request', data: { toolName: 'Bash', input: { command: 'ls' } } });
+
+    socket.send(JSON.stringify({ type: 'prompt', prompt: 'again' }));
+    expect((await next()).data.code).toBe('PROMPT_IN_PROGRESS');
+
+    socket.send(JSON.stringify({ type: 'permission_response', requestId: permission.data.requestId, behavior: 'allow' }));
+    expect(await next()).toMatchObject({ event: 'complete', data: { summary: 'Bash allow' } });
+    socket.close();
+  });
+
+  test('should reject prompts from other channels while a query runs and replay its pending approvals', async () => {
+    const sessionId = await createSession();
+    const { socket, next } = connect(`ws://${baseUrl}/sessions/${sessionId}/ws`);
+    await next();
+
+    socket.send(JSON.stringify({ type: 'prompt', prompt: 'list files' }));
+    await next();
+    const permission = await next();
+
+    const post = (route: string) => fetch(`http://${baseUrl}/sessions/${sessionId}/${route}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'x-api-key': API_KEY },
+      body: JSON.stringify({ prompt: 'again' })
+    });
+    for (const route of ['messages', 'stream']) {
+      const response = await post(route);
+      expect([route, response.status]).toEqual([route, 409]);
+      expect(((await response.json()) as any).error.code).toBe('RUN_IN_PROGRESS');
+    }
+    const other = connect(`ws://${baseUrl}/sessions/${sessionId}/ws`);
+    await other.next();
+    other.socket.send(JSON.stringify({ type: 'prompt', prompt: 'again' }));
+    expect((await other.next()).data.code).toBe('RUN_IN_PROGRESS');
+    other.socket.close();
+
+    // A subscriber joining mid-run still sees the approval it can answer
+    const events = await fetch(`http://${baseUrl}/sessions/${sessionId}/events?after=2`, { headers: { 'x-api-key': API_KEY } });
+    const reader = events.body!.getReader();
+    let text = '';
+    while (!text.includes('event: permission_request')) {
+      text += new TextDecoder().decode((await reader.read()).value);
+    }
+    expect(text).toContain(permission.data.requestId);
+    await reader.cancel();
+
+    socket.send(JSON.stringify({ type: 'permission_response', requestId: permission.data.requestId, behavior: 'deny' }));
+    expect(await next()).toMatchObject({ event: 'complete', data: { summary: 'Bash deny' } });
+    socket.close();
+  });
+
+  test('should abort the running prompt on cancel', async () => {
+    const sessionId = await createSession();
+    const { socket, next } = connect(`ws://${baseUrl}/sessions/${sessionId}/ws`);
+    await next();
+
+    socket.send(JSON.stringify({ type: 'cancel' }));
+    expect((await next()).data.code).toBe('NO_PROMPT_RUNNING');
+
+    socket.send(JSON.stringify({ type: 'prompt', prompt: 'wait' }));
+    socket.send(JSON.stringify({ type: 'cancel' }));
+    expect(await next()).toEqual({ event: 'error', data: { error: 'Query aborted' } });
+    socket.close();
+  });
+
+  test('should reject handshakes the REST routes would reject', async () => {
+    const sessionId = await createSession();
+    const statusOf = (url: string, headers?: Record<string, string>) => new Promise<number>(resolve => {
+      const { socket } = connect(url, headers);
+      socket.on('unexpected-response', (_req, res) => resolve(res.statusCode!));
+      socket.on('error', () => undefined);
+    });
+
+    expect(await statusOf(`ws://${baseUrl}/sessions/${sessionId}/ws`, {})).toBe(401);
+    expect(await statusOf(`ws://${baseUrl}/sessions/missing/ws`)).toBe(404);
+
+    const { next } = connect(`ws://${baseUrl}/sessions/${sessionId}/ws?apiKey=${API_KEY}`, {});
+    expect((await next()).event).toBe('connected');
+
+    const plain = await fetch(`http://${baseUrl}/sessions/${sessionId}/ws`, { headers: { 'x-api-key': API_KEY } });
+    expect(plain.status).toBe(426);
+  });
+});
@@ -0,0 +1,66 @@
+import { describe, test, expect, beforeEach } from '@jest/globals';
+import { query } from '@anthropic-ai/claude-code';
+import { getClaudeCodeToolDefinition, handleClaudeCodeQuery } from '../../src/lib/agents/claude';
+
+const mockQuery = query as unknown as jest.Mock;
+
+describe('Claude Code structured result', () => {
+  beforeEach(() => {
+    mockQuery.mockReset();
+  });
+
+  test('should declare an output schema', () => {
+    const definition = getClaudeCodeToolDefinition();
+    expect(definition?.outputSchema?.required).toEqual(['result', 'session_id', 'subtype', 'is_error']);
+  });
+
+  test('should return the result message as structuredContent', async () => {
+    mockQuery.mockImplementation(async function* () {
+      yield { type: 'system', subtype: 'init', session_id: 'claude-session-1' };
+      yield {
+        type: 'result',
+        subtype: 'success',
+        session_id: 'claude-session-1',
+        is_error: false,
+        result: 'All done',
+        num_turns: 2,
+        duration_ms: 1500,
+        duration_api_ms: 1200,
+        total_cost_usd: 0.01,
+        usage: { input_tokens: 100, output_tokens: 20 }
+      };
+    });
+
+    const result = await handleClaudeCodeQuery({ prompt: 'hello', options: { trackChanges: false } });
+
+    expect(result.structuredContent).toEqual({
+      result: 'All done',
+      session_id: 'claude-session-1',
+      subtype: 'success',
+      is_error: false,
+      num_turns: 2,
+      duration_ms: 1500,
+      total_cost_usd: 0.01,
+      usage: { input_tokens: 100, output_tokens: 20 }
+    });
+    expect(result.isError).toBeUndefined();
+    expect(result.content[0].text).toBe('All done\n\nSession ID: claude-session-1');
+  });
+
+  test('should report failures as an error result', async () => {
+    mockQuery.mockImplementation(async function* () {
+      yield { type: 'system', subtype: 'init', session_id: 'claude-session-2' };
+      throw new Error('boom');
+    });
+
+    const result = await handleClaudeCodeQuery({ prompt: 'hello', options: { trackChanges: false } });
+
+    expect(result.isError).toBe(true);
+    expect(result.structuredContent).toMatchObject({
+      result: 'Query failed: boom',
+      session_id: 'claude-session-2',
+      subtype: 'error',
+      is_error: true
+    });
+  });
+});
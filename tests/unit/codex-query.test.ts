@@ -0,0 +1,90 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { buildCodexArgs, getCodexOptionsError, handleCodexQuery } from '../../src/lib/agents/codex';
+
+// Fake codex CLI emitting the JSONL events handleCodexQuery consumes
+const FAKE_CODEX = `#!/bin/sh
+echo '{"id":"0","msg":{"type":"session_configured","session_id":"codex-session-1","model":"gpt-5"}}'
+echo '{"id":"1","msg":{"type":"task_started"}}'
+echo '{"id":"1","msg":{"type":"token_count","info":{"total_token_usage":{"input_tokens":120,"cached_input_tokens":20,"output_tokens":30,"reasoning_output_tokens":5,"total_tokens":150}}}}'
+echo '{"id":"1","msg":{"type":"agent_message","message":"Done"}}'
+`;
+
+describe('Codex query', () => {
+  let binDir: string;
+  let originalPath: string | undefined;
+
+  beforeEach(() => {
+    binDir = fs.mkdtempSync(path.join(os.tmpdir(), 'mcp-codex-'));
+    fs.writeFileSync(path.join(binDir, 'codex'), FAKE_CODEX, { mode: 0o755 });
+    originalPath = process.env.PATH;
+    process.env.PATH = `${binDir}${path.delimiter}${originalPath}`;
+  });
+
+  afterEach(() => {
+    process.env.PATH = originalPath;
+    fs.rmSync(binDir, { recursive: true, force: true });
+  });
+
+  test('should default to --full-auto', () => {
+    expect(buildCodexArgs('fix it')).toEqual(['exec', '--json', '--full-auto', 'fix it']);
+  });
+
+  test('should map options to Codex CLI flags', () => {
+    expect(buildCodexArgs('fix it', {
+      cwd: '/repo',
+      model: 'gpt-5',
+      sandbox: 'read-only',
+      approvalPolicy: 'never',
+      profile: 'ci',
+      config: { model_reasoning_effort: 'high', 'sandbox_workspace_write.network_access': true },
+      images: ['a.png', 'b.png'],
+      resume: 'codex-session-1'
+    })).toEqual([
+      'exec', '--json',
+      '--sandbox', 'read-only',
+      '-c', 'approval_policy="never"',
+      '--cd', '/repo',
+      '--model', 'gpt-5',
+      '--profile', 'ci',
+      '-c', 'model_reasoning_effort="high"',
+      '-c', 'sandbox_workspace_write.network_access=true',
+      '--image', 'a.png',
+      '--image', 'b.png',
+      'resume', 'codex-session-1',
+      'fix it'
+    ]);
+  });
+
+  test('should reject invalid options', () => {
+    expect(getCodexOptionsError({ sandbox: 'everything' })).toMatch(/^sandbox must be one of/);
+    expect(getCodexOptionsError({ approvalPolicy: 'always' })).toMatch(/^approvalPolicy must be one of/);
+    expect(getCodexOptionsError({ config: { nested: { a: 1 } } })).toBe('config.nested must be a string, number or boolean');
+    expect(getCodexOptionsError({ images: ['ok.png', 3] })).toBe('images must be an array of file paths');
+    expect(getCodexOptionsError({ resume: '' })).toBe('resume must be a non-empty string');
+    expect(getCodexOptionsError({ model: 'gpt-5', sandbox: 'workspace-write' })).toBeNull();
+  });
+
+  test('should throw on invalid options before spawning', async () => {
+    await expect(handleCodexQuery({ prompt: 'hi', options: { sandbox: 'bad' as any } }))
+      .rejects.toThrow('Invalid options for codex_query: sandbox must be one of');
+  });
+
+  test('should return the agent message with session id and token usage', async () => {
+    const result = await handleCodexQuery({ prompt: 'hi', options: { trackChanges: false } });
+
+    expect(result.structuredContent).toEqual({
+      message: 'Done',
+      session_id: 'codex-session-1',
+      usage: {
+        input_tokens: 120,
+        cached_input_tokens: 20,
+        output_tokens: 30,
+        reasoning_output_tokens: 5,
+        total_tokens: 150
+      }
+    });
+    expect(result.content[0].text).toBe('Done\n\nSession ID: codex-session-1');
+  });
+});
@@ -0,0 +1,107 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { AgentProvider, AgentRegistry } from '../../src/core/agent-registry';
+import { handleCompareAgents } from '../../src/lib/agents/compare-agents';
+
+function createFakeAgent(id: string, handle: AgentProvider['handle']): AgentProvider {
+  return {
+    id,
+    toolName: `${id}_query`,
+    kind: 'agent',
+    capabilities: { streaming: true, cancellation: false, resume: false },
+    getToolDefinition: () => null,
+    isValidArgs: (args: unknown): args is { prompt: string } => typeof (args as any)?.prompt === 'string',
+    handle
+  };
+}
+
+describe('compare_agents', () => {
+  let registry: AgentRegistry;
+
+  beforeEach(() => {
+    registry = new AgentRegistry();
+    registry.register(createFakeAgent('claude', async (args, context) => {
+      await context.sendNotification?.({
+        method: 'notifications/message',
+        params: { level: 'info', data: JSON.stringify({ type: 'claude_code_message', sequence: 1 }) }
+      });
+      return {
+        content: [{ type: 'text', text: 'claude answer' }],
+        structuredContent: {
+          result: `claude: ${args.prompt}`,
+          session_id: 'claude-1',
+          total_cost_usd: 0.02,
+          changes: { mode: 'git', files: [{ status: 'M', path: 'a.ts' }], diff: '', diffTruncated: false }
+        }
+      };
+    }));
+    registry.register(createFakeAgent('gemini', async () => {
+      throw new Error('gemini unavailable');
+    }));
+  });
+
+  test('should run every agent and report each result', async () => {
+    const notifications: any[] = [];
+    const result = await handleCompareAgents(
+      { prompt: 'why?' },
+      registry,
+      { sendNotification: async (notification) => { notifications.push(notification); } }
+    );
+
+    const [claude, gemini] = result.structuredContent.results;
+    expect(claude).toMatchObject({
+      agent: 'claude',
+      status: 'success',
+      response: 'claude: why?',
+      costUsd: 0.02,
+      sessionId: 'claude-1',
+      changedFiles: [{ status: 'M', path: 'a.ts' }]
+    });
+    expect(gemini).toMatchObject({ agent: 'gemini', status: 'error', error: 'gemini unavailable', changedFiles: [] });
+    expect(result.isError).toBeUndefined();
+    expect(result.content[0].text).toContain('## claude (success in');
+    expect(result.content[0].text).toContain('$0.0200');
+
+    const events = notifications.map(n => JSON.parse(n.params.data));
+    expect(events.filter(e => e.agent === 'claude').map(e => e.event)).toEqual(['started', 'message', 'completed']);
+    expect(events.find(e => e.event === 'message').message).toEqual({ type: 'claude_code_message', sequence: 1 });
+  });
+
+  test('should reject unknown agents', async () => {
+    await expect(handleCompareAgents({ prompt: 'why?', agents: ['claude', 'codex'] }, registry))
+      .rejects.toThrow('Unknown agent(s): codex. Available: claude, gemini');
+  });
+
+  test('should give each agent its own temporary copy', async () => {
+    const source = fs.mkdtempSync(path.join(os.tmpdir(), 'mcp-compare-'));
+    fs.writeFileSync(path.join(source, 'README.md'), 'original\n');
+    fs.mkdirSync(path.join(source, '.git'));
+    fs.writeFileSync(path.join(source, '.git', 'HEAD'), 'ref: refs/heads/main\n');
+    const cwds: string[] = [];
+    const notifications: any[] = [];
+    registry.register(createFakeAgent('codex', async (args, context) => {
+      cwds.push(args.options.cwd);
+      expect(fs.existsSync(path.join(args.options.cwd, '.git'))).toBe(false);
+      fs.writeFileSync(path.join(args.options.cwd, 'README.md'), 'edited\n');
+      await context.sendNotification?.({ method: 'notifications/message', params: { level: 'info', data: 'plain text' } });
+      return { content: [{ type: 'text', text: 'edited' }] };
+    }));
+
+    try {
+      const result = await handleCompareAgents(
+        { prompt: 'edit', agents: ['codex'], cwd: source, isolation: 'copy' },
+        registry,
+        { sendNotification: async (notification) => { notifications.push(notification); } }
+      );
+
+      expect(result.structuredContent.results[0]).toMatchObject({ agent: 'codex', status: 'success', response: 'edited' });
+      expect(notifications.map(n => JSON.parse(n.params.data)).find(e => e.event === 'message').message).toBe('plain text');
+      expect(cwds[0]).not.toBe(source);
+      expect(fs.existsSync(cwds[0])).toBe(false);
+      expect(fs.readFileSync(path.join(source, 'README.md'), 'utf8')).toBe('original\n');
+    } finally {
+      fs.rmSync(source, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,68 @@
+import { AgentProvider, AgentRegistry } from '../../../src/core/agent-registry';
+import { CoreMCPServer } from '../../../src/core/mcp-server-core';
+import { createDefaultAgentRegistry } from '../../../src/lib/agents';
+
+function createTestProvider(overrides: Partial<AgentProvider> = {}): AgentProvider {
+  return {
+    id: 'echo',
+    toolName: 'echo_query',
+    kind: 'agent',
+    capabilities: { streaming: false, cancellation: false, resume: false },
+    getToolDefinition: () => ({
+      name: 'echo_query',
+      description: 'Echo the prompt back',
+      inputSchema: { type: 'object', properties: { prompt: { type: 'string' } }, required: ['prompt'] },
+    }),
+    isValidArgs: (args: unknown): args is { prompt: string } =>
+      typeof args === 'object' && args !== null && typeof (args as any).prompt === 'string',
+    handle: async (args: { prompt: string }) => ({ content: [{ type: 'text', text: args.prompt }] }),
+    ...overrides,
+  };
+}
+
+describe('AgentRegistry', () => {
+  test('should register and look up providers by id and tool name', () => {
+    const registry = new AgentRegistry();
+    const provider = createTestProvider();
+    registry.register(provider);
+
+    expect(registry.get('echo')).toBe(provider);
+    expect(registry.findByToolName('echo_query')).toBe(provider);
+    expect(registry.getToolDefinitions().map(t => t.name)).toEqual(['echo_query']);
+  });
+
+  test('should reject duplicate ids and tool names', () => {
+    const registry = new AgentRegistry();
+    registry.register(createTestProvider());
+
+    expect(() => registry.register(createTestProvider())).toThrow('Agent provider already registered: echo');
+    expect(() => registry.register(createTestProvider({ id: 'other' }))).toThrow('Tool already registered: echo_query');
+  });
+
+  test('should hide providers whose tool definition is null', () => {
+    const registry = new AgentRegistry();
+    registry.register(createTestProvider({ getToolDefinition: () => null }));
+
+    expect(registry.getToolDefinitions()).toHaveLength(0);
+    expect(registry.findByToolName('echo_query')).toBeDefined();
+  });
+
+  test('should separate agents from plain tools', () => {
+    const registry = createDefaultAgentRegistry();
+
+    expect(registry.list().map(p => p.toolName)).toEqual([
+      'execute_command',
+      'claude_code_query',
+      'gemini_query',
+      'codex_query',
+    ]);
+    expect(registry.listAgents().map(p => p.id)).toEqual(['claude', 'gemini', 'codex']);
+  });
+
+  test('should let CoreMCPServer use a custom registry', () => {
+    const registry = new AgentRegistry();
+    const server = new CoreMCPServer({ name: 'test-server', version: '1.0.0', agentRegistry: registry });
+
+    expect(server.getAgentRegistry()).toBe(registry);
+  });
+});
@@ -0,0 +1,82 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { CoreMCPServer } from '../../../src/core/mcp-server-core';
+import { loadPlugins, readPluginConfigFile } from '../../../src/core/plugin-loader';
+
+const PLUGIN_SOURCE = `
+module.exports = {
+  name: 'review-bot',
+  agents: [{
+    id: 'review',
+    toolName: 'review_query',
+    kind: 'agent',
+    capabilities: { streaming: false, cancellation: false, resume: false },
+    getToolDefinition: () => ({ name: 'review_query', inputSchema: { type: 'object' } }),
+    isValidArgs: () => true,
+    handle: async () => ({ content: [{ type: 'text', text: 'reviewed' }] }),
+  }],
+  resources: [{ uri: 'review://status', name: 'Review status', read: () => 'ok' }],
+  prompts: [{ name: 'review', description: 'Review code', content: 'Review {area}' }],
+};
+`;
+
+const FACTORY_SOURCE = `
+module.exports = (coreServer) => ({
+  name: 'factory-plugin',
+  register: () => { coreServer.__factoryLoaded = true; },
+});
+`;
+
+describe('Plugin loader', () => {
+  let tmpDir: string;
+  let server: CoreMCPServer;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'mcp-plugins-'));
+    server = new CoreMCPServer({ name: 'test-server', version: '1.0.0' });
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  test('should register agents, resources and prompts from a plugin module', async () => {
+    const pluginPath = path.join(tmpDir, 'review-bot.js');
+    fs.writeFileSync(pluginPath, PLUGIN_SOURCE);
+
+    const loaded = await loadPlugins(server, { plugins: [pluginPath] });
+
+    expect(loaded).toHaveLength(1);
+    expect(loaded[0].name).toBe('review-bot');
+    expect(server.getAgentRegistry().findByToolName('review_query')).toBeDefined();
+    expect(server.listResources().map(r => r.uri)).toContain('review://status');
+    expect(server.listPrompts().map(p => p.name)).toContain('review');
+  });
+
+  test('should load every module in a plugin directory and call factories', async () => {
+    fs.writeFileSync(path.join(tmpDir, 'a-review.js'), PLUGIN_SOURCE);
+    fs.writeFileSync(path.join(tmpDir, 'b-factory.js'), FACTORY_SOURCE);
+    fs.writeFileSync(path.join(tmpDir, 'README.md'), 'not a plugin');
+
+    const loaded = await loadPlugins(server, { pluginDirs: [tmpDir] });
+
+    expect(loaded.map(p => p.name)).toEqual(['review-bot', 'factory-plugin']);
+    expect((server as any).__factoryLoaded).toBe(true);
+  });
+
+  test('should resolve config file entries relative to the config file', () => {
+    const configPath = path.join(tmpDir, 'plugins.yaml');
+    fs.writeFileSync(configPath, 'plugins:\n  - ./review-bot.js\n  - some-package\npluginDirs:\n  - ./more\n');
+
+    const config = readPluginConfigFile(configPath);
+
+    expect(config.plugins).toEqual([path.join(tmpDir, 'review-bot.js'), 'some-package']);
+    expect(config.pluginDirs).toEqual([path.join(tmpDir, 'more')]);
+  });
+
+  test('should fail clearly for unknown packages', async () => {
+    await expect(loadPlugins(server, { plugins: ['definitely-not-installed-plugin'] }))
+      .rejects.toThrow('Plugin package not found: definitely-not-installed-plugin');
+  });
+});
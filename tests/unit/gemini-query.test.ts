@@ -0,0 +1,73 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { buildGeminiArgs, handleGeminiQuery } from '../../src/lib/agents/gemini';
+
+// Fake gemini CLI: prints its argv one per line, or sleeps when asked to
+const FAKE_GEMINI = `#!/bin/sh
+echo "Loaded cached credentials."
+if [ "$1" = "--prompt=sleep" ]; then sleep 30; fi
+if [ "$1" = "--prompt=fail" ]; then echo "quota exceeded" >&2; exit 2; fi
+for arg in "$@"; do echo "$arg"; done
+`;
+
+describe('Gemini query', () => {
+  let binDir: string;
+  let originalPath: string | undefined;
+
+  beforeEach(() => {
+    binDir = fs.mkdtempSync(path.join(os.tmpdir(), 'mcp-gemini-'));
+    fs.writeFileSync(path.join(binDir, 'gemini'), FAKE_GEMINI, { mode: 0o755 });
+    originalPath = process.env.PATH;
+    process.env.PATH = `${binDir}${path.delimiter}${originalPath}`;
+  });
+
+  afterEach(() => {
+    process.env.PATH = originalPath;
+    fs.rmSync(binDir, { recursive: true, force: true });
+  });
+
+  test('should build argv from options', () => {
+    expect(buildGeminiArgs('hi', { model: 'gemini-2.5-pro', sandbox: true, approvalMode: 'auto_edit' })).toEqual([
+      '--prompt=hi', '--approval-mode', 'auto_edit', '--model', 'gemini-2.5-pro', '--sandbox'
+    ]);
+    expect(buildGeminiArgs('--version')[0]).toBe('--prompt=--version');
+  });
+
+  test('should pass the prompt verbatim and stream lines as notifications', async () => {
+    const prompt = 'echo $(whoami) `id` "quoted"';
+    const notifications: any[] = [];
+
+    const result = await handleGeminiQuery(
+      { prompt, options: { trackChanges: false } },
+      async (notification) => { notifications.push(notification); }
+    );
+
+    expect(result.isError).toBeUndefined();
+    expect(result.structuredContent?.response).toBe([`--prompt=${prompt}`, '--approval-mode', 'yolo'].join('\n'));
+    expect(result.structuredContent?.exitCode).toBe(0);
+
+    const messages = notifications.map(n => JSON.parse(n.params.data));
+    expect(messages.every(m => m.type === 'gemini_message')).toBe(true);
+    expect(messages.map(m => m.line)).toEqual([`--prompt=${prompt}`, '--approval-mode', 'yolo']);
+  });
+
+  test('should report non-zero exits with stderr', async () => {
+    const result = await handleGeminiQuery({ prompt: 'fail', options: { trackChanges: false } });
+
+    expect(result.isError).toBe(true);
+    expect(result.structuredContent?.exitCode).toBe(2);
+    expect(result.content[0].text).toBe('Gemini error: quota exceeded');
+  });
+
+  test('should kill the process when the signal aborts', async () => {
+    const controller = new AbortController();
+    const pending = handleGeminiQuery({ prompt: 'sleep', options: { trackChanges: false } }, undefined, controller.signal);
+    setTimeout(() => controller.abort(), 100);
+
+    const result = await pending;
+    expect(result.isError).toBe(true);
+    expect(result.structuredContent?.cancelled).toBe(true);
+    expect(result.content[0].text).toBe('Gemini query was cancelled');
+  });
+});
@@ -0,0 +1,122 @@
+import Database from 'better-sqlite3';
+import { spawnSync } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { AgentProvider, AgentRegistry } from '../../../src/core/agent-registry';
+import { JobManager } from '../../../src/jobs/job-manager';
+
+function createSlowProvider(): AgentProvider<{ prompt: string }> {
+  return {
+    id: 'slow',
+    toolName: 'slow_query',
+    kind: 'agent',
+    capabilities: { streaming: true, cancellation: true, resume: false },
+    getToolDefinition: () => null,
+    isValidArgs: (args: unknown): args is { prompt: string } =>
+      typeof args === 'object' && args !== null && typeof (args as any).prompt === 'string',
+    handle: async (args, context) => {
+      for (let i = 1; i <= 3; i++) {
+        if (context.signal?.aborted) {
+          throw new Error('cancelled');
+        }
+        await context.sendNotification?.({
+          method: 'notifications/message',
+          params: { level: 'info', data: JSON.stringify({ type: 'slow_message', step: i }) }
+        });
+        await new Promise(resolve => setTimeout(resolve, args.prompt === 'hang' ? 1000 : 10));
+      }
+      return { content: [{ type: 'text', text: `done: ${args.prompt}` }] };
+    },
+  };
+}
+
+async function waitForStatus(manager: JobManager, jobId: string, status: string): Promise<void> {
+  for (let i = 0; i < 100; i++) {
+    if (manager.getJob(jobId)?.status === status) return;
+    await new Promise(resolve => setTimeout(resolve, 20));
+  }
+  throw new Error(`Job ${jobId} never reached ${status}`);
+}
+
+describe('JobManager', () => {
+  let tmpDir: string;
+  let manager: JobManager;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'mcp-jobs-'));
+    const registry = new AgentRegistry();
+    registry.register(createSlowProvider());
+    manager = new JobManager(registry, { dbPath: path.join(tmpDir, 'jobs.db') });
+  });
+
+  afterEach(() => {
+    manager.shutdown();
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  test('should run a job in the background and persist its messages and result', async () => {
+    const job = manager.startJob('slow_query', { prompt: 'hello' });
+    expect(job.status).toBe('running');
+
+    await waitForStatus(manager, job.jobId, 'completed');
+
+    const output = await manager.getOutput(job.jobId);
+    expect(output?.messages.map(m => (m.data as any).step)).toEqual([1, 2, 3]);
+    expect(output?.job.result).toEqual({ content: [{ type: 'text', text: 'done: hello' }] });
+    expect(output?.hasMore).toBe(false);
+  });
+
+  test('should page output after a sequence number', async () => {
+    const job = manager.startJob('slow', { prompt: 'hello' });
+    await waitForStatus(manager, job.jobId, 'completed');
+
+    const output = await manager.getOutput(job.jobId, 1, 1);
+    expect(output?.messages.map(m => m.sequence)).toEqual([2]);
+    expect(output?.nextSequence).toBe(2);
+    expect(output?.hasMore).toBe(true);
+  });
+
+  test('should cancel a running job', async () => {
+    const job = manager.startJob('slow', { prompt: 'hang' });
+    const cancelled = manager.cancelJob(job.jobId);
+
+    expect(cancelled?.status).toBe('cancelled');
+    expect(manager.listJobs('cancelled').map(j => j.jobId)).toEqual([job.jobId]);
+  });
+
+  test('should only fail interrupted jobs whose server process has exited', () => {
+    const dbPath = path.join(tmpDir, 'jobs.db');
+    const job = manager.startJob('slow', { prompt: 'hang' });
+    const setOwner = (owner: string) => {
+      const db = new Database(dbPath);
+      db.prepare('UPDATE jobs SET owner = ? WHERE jobId = ?').run(owner, job.jobId);
+      db.close();
+    };
+
+    // A job owned by another live server process sharing the database is left alone
+    setOwner(`${os.hostname()}:${process.ppid}`);
+    const second = new JobManager(new AgentRegistry(), { dbPath });
+    expect(second.getJob(job.jobId)?.status).toBe('running');
+    second.shutdown();
+
+    setOwner(`${os.hostname()}:${spawnSync(process.execPath, ['-e', '']).pid}`);
+    const third = new JobManager(new AgentRegistry(), { dbPath });
+    expect(third.getJob(job.jobId)).toMatchObject({ status: 'failed', error: 'Server restarted before the job finished' });
+    third.shutdown();
+  });
+
+  test('should fail jobs recorded under its own instance id when the store opens', () => {
+    // A restarted container can reuse its predecessor's hostname and pid
+    const job = manager.startJob('slow', { prompt: 'hang' });
+
+    const restarted = new JobManager(new AgentRegistry(), { dbPath: path.join(tmpDir, 'jobs.db') });
+    expect(restarted.getJob(job.jobId)?.status).toBe('failed');
+    restarted.shutdown();
+  });
+
+  test('should reject unknown agents and invalid arguments', () => {
+    expect(() => manager.startJob('missing', { prompt: 'x' })).toThrow('Unknown agent: missing');
+    expect(() => manager.startJob('slow', {})).toThrow('Invalid arguments for slow_query');
+  });
+});
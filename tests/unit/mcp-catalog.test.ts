@@ -0,0 +1,126 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { query } from '@anthropic-ai/claude-code';
+import { claudeCodeConfig } from '../../src/config/claude-code';
+import { handleClaudeCodeQuery } from '../../src/lib/agents/claude';
+import {
+  getMcpServersError,
+  listMcpCatalog,
+  McpServerCatalog,
+  readMcpServerCatalog,
+  resolveMcpServers
+} from '../../src/lib/agents/mcp-catalog';
+import { closePermissionBridgeServer } from '../../src/permissions/permission-bridge';
+
+const mockQuery = query as unknown as jest.Mock;
+
+const catalog: McpServerCatalog = {
+  tracker: { command: 'tracker-mcp', args: ['--readonly'], env: { TRACKER_TOKEN: 'secret' }, description: 'Issue tracker' },
+  docs: { type: 'http', url: 'https://docs.internal/mcp', headers: { Authorization: 'Bearer t' } }
+};
+
+describe('MCP server catalog', () => {
+  let tmpDir: string;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'mcp-catalog-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+    delete process.env.TEST_DOCS_TOKEN;
+  });
+
+  test('should read JSON and YAML catalogs and expand environment variables', () => {
+    process.env.TEST_DOCS_TOKEN = 'from-env';
+    const jsonPath = path.join(tmpDir, 'mcp.json');
+    fs.writeFileSync(jsonPath, JSON.stringify({
+      mcpServers: { docs: { type: 'http', url: 'https://docs.internal/mcp', headers: { Authorization: 'Bearer ${TEST_DOCS_TOKEN}' } } }
+    }));
+    const yamlPath = path.join(tmpDir, 'mcp.yaml');
+    fs.writeFileSync(yamlPath, 'mcpServers:\n  tracker:\n    command: tracker-mcp\n    args: ["--token", "${TEST_DOCS_TOKEN}"]\n    description: Issue tracker\n');
+
+    expect(readMcpServerCatalog(jsonPath)).toEqual({
+      docs: { type: 'http', url: 'https://docs.internal/mcp', headers: { Authorization: 'Bearer from-env' } }
+    });
+    expect(readMcpServerCatalog(yamlPath)).toEqual({
+      tracker: { command: 'tracker-mcp', args: ['--token', 'from-env'], description: 'Issue tracker' }
+    });
+    expect(readMcpServerCatalog(undefined)).toEqual({});
+  });
+
+  test('should reject malformed catalog entries', () => {
+    const write = (servers: unknown) => {
+      const file = path.join(tmpDir, 'mcp.json');
+      fs.writeFileSync(file, JSON.stringify({ mcpServers: servers }));
+      return () => readMcpServerCatalog(file);
+    };
+
+    expect(write({ docs: { type: 'http' } })).toThrow('server "docs" needs a url');
+    expect(write({ tracker: { args: ['x'] } })).toThrow('server "tracker" needs a command');
+    expect(write({ permissions: { command: 'x' } })).toThrow('server name "permissions" is reserved');
+    expect(write({ 'bad name': { command: 'x' } })).toThrow('may only contain letters');
+  });
+
+  test('should only accept catalog names and hide connection details when listing', () => {
+    expect(getMcpServersError(['tracker'], catalog)).toBeNull();
+    expect(getMcpServersError(undefined, catalog)).toBeNull();
+    expect(getMcpServersError(['wiki'], catalog))
+      .toBe('mcpServers entry "wiki" is not in the server catalog (available: tracker, docs)');
+    expect(getMcpServersError('tracker', catalog)).toBe('mcpServers must be an array of server names');
+    expect(getMcpServersError(['toString'], {})).toBe('mcpServers entry "toString" is not in the server catalog (available: none)');
+
+    expect(listMcpCatalog(catalog)).toEqual([
+      { name: 'tracker', type: 'stdio', description: 'Issue tracker' },
+      { name: 'docs', type: 'http' }
+    ]);
+    expect(resolveMcpServers(['tracker'], catalog)).toEqual({
+      tracker: { command: 'tracker-mcp', args: ['--readonly'], env: { TRACKER_TOKEN: 'secret' } }
+    });
+  });
+});
+
+describe('claude_code_query MCP servers', () => {
+  const originalCatalog = claudeCodeConfig.mcpServerCatalog;
+  const originalPolicy = claudeCodeConfig.toolPolicy;
+
+  beforeEach(() => {
+    claudeCodeConfig.mcpServerCatalog = catalog;
+    mockQuery.mockReset();
+    mockQuery.mockImplementation(async function* () {
+      yield { type: 'result', subtype: 'success', session_id: 's1', is_error: false, result: 'done' };
+    });
+  });
+
+  afterEach(async () => {
+    claudeCodeConfig.mcpServerCatalog = originalCatalog;
+    claudeCodeConfig.toolPolicy = originalPolicy;
+    await closePermissionBridgeServer();
+  });
+
+  test('should hand the requested catalog servers to Claude', async () => {
+    await handleClaudeCodeQuery({ prompt: 'hi', options: { mcpServers: ['docs'], trackChanges: false } });
+
+    expect(mockQuery.mock.calls[0][0].options.mcpServers).toEqual({
+      docs: { type: 'http', url: 'https://docs.internal/mcp', headers: { Authorization: 'Bearer t' } }
+    });
+  });
+
+  test('should keep catalog servers alongside the permission bridge', async () => {
+    claudeCodeConfig.toolPolicy = {};
+
+    await handleClaudeCodeQuery({
+      prompt: 'hi',
+      options: { mcpServers: ['tracker'], allowedTools: ['mcp__tracker'], trackChanges: false }
+    });
+
+    expect(Object.keys(mockQuery.mock.calls[0][0].options.mcpServers)).toEqual(['tracker', 'permissions']);
+  });
+
+  test('should reject servers outside the catalog', async () => {
+    await expect(handleClaudeCodeQuery({ prompt: 'hi', options: { mcpServers: ['wiki'], trackChanges: false } }))
+      .rejects.toThrow('Invalid options for claude_code_query: mcpServers entry "wiki" is not in the server catalog');
+    expect(mockQuery).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,100 @@
+import { describe, test, expect, beforeEach, afterAll } from '@jest/globals';
+import { query } from '@anthropic-ai/claude-code';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { handleClaudeCodeQuery } from '../../../src/lib/agents/claude';
+import { closePermissionBridgeServer } from '../../../src/permissions/permission-bridge';
+
+const mockQuery = query as unknown as jest.Mock;
+
+/**
+ * Stand in for the Claude CLI: call the permission prompt tool the query was configured with
+ */
+async function askPermission(options: any, toolInput: Record<string, unknown>): Promise<any> {
+  const server = options.mcpServers.permissions;
+  const client = new Client({ name: 'fake-claude', version: '1.0.0' });
+  await client.connect(new StreamableHTTPClientTransport(new URL(server.url), { requestInit: { headers: server.headers } }));
+  try {
+    const toolName = options.permissionPromptToolName.split('__')[2];
+    const result: any = await client.callTool({ name: toolName, arguments: toolInput });
+    return JSON.parse(result.content[0].text);
+  } finally {
+    await client.close();
+  }
+}
+
+describe('Claude permission bridge', () => {
+  beforeEach(() => {
+    mockQuery.mockReset();
+  });
+
+  afterAll(async () => {
+    await closePermissionBridgeServer();
+  });
+
+  test('should route permission prompts to the request handler', async () => {
+    mockQuery.mockImplementation(async function* ({ options }: any) {
+      const decisions = [
+        await askPermission(options, { tool_name: 'Bash', input: { command: 'rm -rf build' }, tool_use_id: 'tu_1' }),
+        await askPermission(options, { tool_name: 'Read', input: { file_path: 'a.ts' } })
+      ];
+      yield { type: 'result', subtype: 'success', session_id: 's1', is_error: false, result: JSON.stringify(decisions) };
+    });
+
+    const prompts: any[] = [];
+    const result = await handleClaudeCodeQuery(
+      { prompt: 'clean up', options: { permissionMode: 'default', trackChanges: false } },
+      undefined,
+      undefined,
+      async prompt => {
+        prompts.push(prompt);
+        return prompt.toolName === 'Bash' ? { behavior: 'deny', message: 'Not that' } : { behavior: 'allow' };
+      }
+    );
+
+    expect(prompts).toEqual([
+      { toolName: 'Bash', input: { command: 'rm -rf build' }, toolUseId: 'tu_1' },
+      { toolName: 'Read', input: { file_path: 'a.ts' } }
+    ]);
+    expect(JSON.parse(result.structuredContent.result)).toEqual([
+      { behavior: 'deny', message: 'Not that' },
+      { behavior: 'allow', updatedInput: { file_path: 'a.ts' } }
+    ]);
+    expect(mockQuery.mock.calls[0][0]).toMatchObject({
+      options: { permissionPromptToolName: 'mcp__permissions__approve' }
+    });
+  });
+
+  test('should reject prompts after the query finished', async () => {
+    let options: any;
+    mockQuery.mockImplementation(async function* (props: any) {
+      options = props.options;
+      yield { type: 'result', subtype: 'success', session_id: 's2', is_error: false, result: 'done' };
+    });
+
+    await handleClaudeCodeQuery(
+      { prompt: 'hi', options: { permissionMode: 'default', trackChanges: false } },
+      undefined,
+      undefined,
+      async () => ({ behavior: 'allow' })
+    );
+
+    await expect(askPermission(options, { tool_name: 'Bash', input: {} })).rejects.toThrow();
+  });
+
+  test('should not bridge queries that bypass permissions', async () => {
+    mockQuery.mockImplementation(async function* () {
+      yield { type: 'result', subtype: 'success', session_id: 's3', is_error: false, result: 'done' };
+    });
+
+    await handleClaudeCodeQuery(
+      { prompt: 'hi', options: { permissionMode: 'bypassPermissions', trackChanges: false } },
+      undefined,
+      undefined,
+      async () => ({ behavior: 'allow' })
+    );
+
+    expect(mockQuery.mock.calls[0][0].options.mcpServers).toBeUndefined();
+    expect(mockQuery.mock.calls[0][0].options.permissionPromptToolName).toBeUndefined();
+  });
+});
@@ -0,0 +1,66 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { PermissionBroker, PermissionRequest } from '../../../src/permissions/permission-broker';
+
+describe('PermissionBroker', () => {
+  let tmpDir: string;
+  let broker: PermissionBroker;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'mcp-permissions-'));
+    broker = new PermissionBroker({ dbPath: path.join(tmpDir, 'permissions.db'), timeoutMs: 200 });
+  });
+
+  afterEach(() => {
+    broker.shutdown();
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  test('should surface a request and resolve it with the client decision', async () => {
+    const surfaced: PermissionRequest[] = [];
+    const decision = broker.requestPermission('s1', { toolName: 'Bash', input: { command: 'ls' } }, request => {
+      surfaced.push(request);
+    });
+
+    expect(surfaced).toHaveLength(1);
+    expect(broker.listPending('s1').map(r => r.requestId)).toEqual([surfaced[0].requestId]);
+    expect(broker.listPending('s2')).toEqual([]);
+
+    broker.respond(surfaced[0].requestId, { behavior: 'allow', updatedInput: { command: 'ls -la' } });
+    await expect(decision).resolves.toEqual({ behavior: 'allow', updatedInput: { command: 'ls -la' } });
+    expect(broker.getPending(surfaced[0].requestId)).toBeNull();
+    expect(broker.respond(surfaced[0].requestId, { behavior: 'deny' })).toBeNull();
+  });
+
+  test('should remember decisions per scope and tool', async () => {
+    const first = broker.requestPermission('s1', { toolName: 'Write', input: {} }, request => {
+      broker.respond(request.requestId, { behavior: 'deny', remember: true });
+    });
+    await expect(first).resolves.toEqual({ behavior: 'deny', message: 'Denied by client' });
+
+    const surface = jest.fn();
+    await expect(broker.requestPermission('s1', { toolName: 'Write', input: {} }, surface))
+      .resolves.toMatchObject({ behavior: 'deny' });
+    expect(surface).not.toHaveBeenCalled();
+    expect(broker.listRules('s1')).toMatchObject([{ scope: 's1', toolName: 'Write', behavior: 'deny' }]);
+
+    // Remembered decisions survive a restart
+    const restarted = new PermissionBroker({ dbPath: path.join(tmpDir, 'permissions.db') });
+    expect(restarted.listRules('s1')).toHaveLength(1);
+    restarted.clearScope('s1');
+    expect(restarted.listRules('s1')).toEqual([]);
+    restarted.shutdown();
+  });
+
+  test('should deny requests that time out or are aborted', async () => {
+    await expect(broker.requestPermission('s1', { toolName: 'Bash', input: {} }, () => {}))
+      .resolves.toEqual({ behavior: 'deny', message: 'No permission decision within 200ms' });
+
+    const controller = new AbortController();
+    const aborted = broker.requestPermission('s1', { toolName: 'Bash', input: {} }, () => {}, controller.signal);
+    controller.abort();
+    await expect(aborted).resolves.toEqual({ behavior: 'deny', message: 'Query cancelled' });
+    expect(broker.listPending('s1')).toEqual([]);
+  });
+});
@@ -0,0 +1,228 @@
+import Database from 'better-sqlite3';
+import { spawnSync } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { AgentProvider, AgentRegistry } from '../../../src/core/agent-registry';
+import { PipelineManager } from '../../../src/pipelines/pipeline-manager';
+import { PipelineDefinitionError, renderTemplate } from '../../../src/pipelines/pipeline-definition';
+import { SQLitePipelineStore } from '../../../src/pipelines/sqlite-pipeline-store';
+
+/**
+ * Echoes its prompt; prompts starting with "fail" return an error result
+ * and "flaky" prompts fail until the given number of calls has been made
+ */
+function createEchoProvider(calls: string[]): AgentProvider<{ prompt: string }> {
+  return {
+    id: 'echo',
+    toolName: 'echo_query',
+    kind: 'agent',
+    capabilities: { streaming: true, cancellation: true, resume: false },
+    getToolDefinition: () => null,
+    isValidArgs: (args: unknown): args is { prompt: string } =>
+      typeof args === 'object' && args !== null && typeof (args as any).prompt === 'string',
+    handle: async (args, context) => {
+      calls.push(args.prompt);
+      await context.sendNotification?.({
+        method: 'notifications/message',
+        params: { level: 'info', data: JSON.stringify({ type: 'echo_message', prompt: args.prompt }) }
+      });
+      if (args.prompt.startsWith('fail') || (args.prompt === 'flaky' && calls.filter(p => p === 'flaky').length < 3)) {
+        return { content: [{ type: 'text', text: `failed: ${args.prompt}` }], isError: true };
+      }
+      if (args.prompt === 'hang') {
+        await new Promise(resolve => setTimeout(resolve, 200));
+      }
+      return { content: [{ type: 'text', text: `echo: ${args.prompt}` }] };
+    },
+  };
+}
+
+async function waitForStatus(manager: PipelineManager, runId: string, status: string): Promise<void> {
+  for (let i = 0; i < 100; i++) {
+    if (manager.getRun(runId)?.status === status) return;
+    await new Promise(resolve => setTimeout(resolve, 20));
+  }
+  throw new Error(`Pipeline run ${runId} never reached ${status}`);
+}
+
+describe('PipelineManager', () => {
+  let tmpDir: string;
+  let dbPath: string;
+  let calls: string[];
+  let registry: AgentRegistry;
+  let manager: PipelineManager;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'mcp-pipelines-'));
+    dbPath = path.join(tmpDir, 'pipelines.db');
+    calls = [];
+    registry = new AgentRegistry();
+    registry.register(createEchoProvider(calls));
+    manager = new PipelineManager(registry, { dbPath });
+  });
+
+  afterEach(() => {
+    manager.shutdown();
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  test('should feed each step output into the next step and persist the run', async () => {
+    const pipeline = `
+name: review
+input:
+  topic: defaults
+steps:
+  - id: plan
+    agent: echo
+    args:
+      prompt: "plan {{ input.topic }}"
+  - id: build
+    agent: echo_query
+    args:
+      prompt: "build from {{ steps.plan.output }}"
+`;
+    const run = await manager.runPipeline(pipeline, { topic: 'caching' });
+
+    expect(calls).toEqual(['plan caching', 'build from echo: plan caching']);
+    expect(run.status).toBe('completed');
+    expect(run.output).toBe('echo: build from echo: plan caching');
+    expect(run.steps?.map(step => [step.stepId, step.status])).toEqual([['plan', 'completed'], ['build', 'completed']]);
+    expect(run.steps?.[1].args).toEqual({ prompt: 'build from echo: plan caching' });
+
+    const store = new SQLitePipelineStore(dbPath);
+    expect(store.getRun(run.runId)?.status).toBe('completed');
+    expect(store.getStepRuns(run.runId)).toHaveLength(2);
+    store.close();
+  });
+
+  test('should retry failed steps', async () => {
+    const run = await manager.runPipeline({
+      steps: [{ id: 'flaky', agent: 'echo', args: { prompt: 'flaky' }, retry: { attempts: 3 } }]
+    });
+
+    expect(run.status).toBe('completed');
+    expect(run.steps?.map(step => [step.attempt, step.status])).toEqual([[1, 'failed'], [2, 'failed'], [3, 'completed']]);
+  });
+
+  test('should fail the run when a step fails without a branch', async () => {
+    const run = await manager.runPipeline({
+      steps: [
+        { id: 'first', agent: 'echo', args: { prompt: 'fail now' } },
+        { id: 'second', agent: 'echo', args: { prompt: 'never' } }
+      ]
+    });
+
+    expect(run.status).toBe('failed');
+    expect(run.error).toBe('Step first failed: failed: fail now');
+    expect(calls).toEqual(['fail now']);
+  });
+
+  test('should branch on failure and skip ahead on success', async () => {
+    const run = await manager.runPipeline({
+      steps: [
+        { id: 'attempt', agent: 'echo', args: { prompt: 'fail first' }, onFailure: 'recover' },
+        { id: 'skipped', agent: 'echo', args: { prompt: 'skipped' } },
+        { id: 'recover', agent: 'echo', args: { prompt: 'recover from {{ steps.attempt.status }}' }, onSuccess: 'end' },
+        { id: 'after', agent: 'echo', args: { prompt: 'after' } }
+      ]
+    });
+
+    expect(run.status).toBe('completed');
+    expect(calls).toEqual(['fail first', 'recover from failed']);
+  });
+
+  test('should stop loops at maxStepRuns', async () => {
+    const run = await manager.runPipeline({
+      maxStepRuns: 3,
+      steps: [{ id: 'loop', agent: 'echo', args: { prompt: 'again' }, onSuccess: 'loop' }]
+    });
+
+    expect(run.status).toBe('failed');
+    expect(run.error).toBe('Pipeline exceeded maxStepRuns (3)');
+    expect(calls).toHaveLength(3);
+  });
+
+  test('should stream step progress notifications', async () => {
+    const events: any[] = [];
+    await manager.runPipeline(
+      { steps: [{ id: 'only', agent: 'echo', args: { prompt: 'hi' } }] },
+      {},
+      { sendNotification: async notification => { events.push(JSON.parse(notification.params.data)); } }
+    );
+
+    expect(events.map(event => event.event)).toEqual(['step_started', 'step_message', 'step_completed', 'run_completed']);
+    expect(events[1].message).toEqual({ type: 'echo_message', prompt: 'hi' });
+  });
+
+  test('should reject invalid pipelines and unknown agents', () => {
+    expect(() => manager.startRun('steps: []')).toThrow(PipelineDefinitionError);
+    expect(() => manager.startRun({ steps: [{ id: 'a', agent: 'missing', args: {} }] }))
+      .toThrow('Step a: unknown agent missing');
+    expect(() => manager.startRun({ steps: [{ id: 'a', agent: 'echo', args: {}, onFailure: 'nowhere' }] }))
+      .toThrow('onFailure must be a step id');
+  });
+
+  test('should run pipelines in the background', async () => {
+    const run = manager.startRun({ steps: [{ id: 'only', agent: 'echo', args: { prompt: 'bg' } }] });
+    expect(run.status).toBe('running');
+
+    await waitForStatus(manager, run.runId, 'completed');
+    expect(manager.listRuns('completed').map(r => r.runId)).toEqual([run.runId]);
+  });
+
+  test('should cancel a background run', async () => {
+    const run = manager.startRun({
+      steps: [
+        { id: 'slow', agent: 'echo', args: { prompt: 'hang' } },
+        { id: 'next', agent: 'echo', args: { prompt: 'never' } }
+      ]
+    });
+
+    expect(manager.cancelRun(run.runId)?.status).toBe('cancelled');
+    await new Promise(resolve => setTimeout(resolve, 300));
+    expect(manager.getRun(run.runId)).toMatchObject({
+      status: 'cancelled',
+      steps: [{ stepId: 'slow', status: 'failed', error: 'Cancelled by client' }]
+    });
+    expect(calls).toEqual(['hang']);
+  });
+
+  test('should fail runs interrupted by a restart', () => {
+    const run = manager.startRun({ steps: [{ id: 'slow', agent: 'echo', args: { prompt: 'hang' } }] });
+    const setOwner = (owner: string) => {
+      const db = new Database(dbPath);
+      db.prepare('UPDATE pipeline_runs SET owner = ? WHERE runId = ?').run(owner, run.runId);
+      db.close();
+    };
+
+    // A run owned by another live server process sharing the database is left alone
+    setOwner(`${os.hostname()}:${process.ppid}`);
+    const second = new PipelineManager(registry, { dbPath });
+    expect(second.getRun(run.runId)?.status).toBe('running');
+    second.shutdown();
+
+    setOwner(`${os.hostname()}:${spawnSync(process.execPath, ['-e', '']).pid}`);
+    const restarted = new PipelineManager(registry, { dbPath });
+    expect(restarted.getRun(run.runId)?.status).toBe('failed');
+    expect(restarted.getRun(run.runId)?.error).toBe('Server restarted before the pipeline finished');
+    restarted.shutdown();
+  });
+
+  test('should fail runs recorded under its own instance id when the store opens', () => {
+    // A restarted container can reuse its predecessor's hostname and pid
+    const run = manager.startRun({ steps: [{ id: 'slow', agent: 'echo', args: { prompt: 'hang' } }] });
+
+    const restarted = new PipelineManager(registry, { dbPath });
+    expect(restarted.getRun(run.runId)?.status).toBe('failed');
+    restarted.shutdown();
+  });
+});
+
+describe('renderTemplate', () => {
+  test('should render nested values and leave missing references empty', () => {
+    const scope = { input: { n: 2, tags: ['a'] }, steps: { s: { status: 'completed', output: 'out' } } };
+    expect(renderTemplate({ a: '{{input.n}}-{{ steps.s.output }}', b: ['{{ input.tags }}', '{{ nope.x }}'], c: 5 }, scope))
+      .toEqual({ a: '2-out', b: ['["a"]', ''], c: 5 });
+  });
+});
@@ -0,0 +1,162 @@
+import { describe, test, expect, beforeEach } from '@jest/globals';
+import { query } from '@anthropic-ai/claude-code';
+import { claudeCodeConfig } from '../../src/config/claude-code';
+import { handleClaudeCodeQuery } from '../../src/lib/agents/claude';
+import {
+  checkToolUse,
+  createPolicyPermissionHandler,
+  getToolPolicyError,
+  matchesToolRule,
+  parseToolList,
+  resolveToolPolicy
+} from '../../src/lib/agents/tool-policy';
+import { closePermissionBridgeServer } from '../../src/permissions/permission-bridge';
+
+const mockQuery = query as unknown as jest.Mock;
+
+describe('tool policy', () => {
+  test('should parse comma-separated rule lists', () => {
+    expect(parseToolList('Read, Bash(git diff:*),Edit(src/{a,b}/**)')).toEqual(['Read', 'Bash(git diff:*)', 'Edit(src/{a,b}/**)']);
+    expect(parseToolList('')).toBeUndefined();
+  });
+
+  test('should match tool uses against rules', () => {
+    expect(matchesToolRule('Bash', 'Bash', { command: 'rm -rf /' })).toBe(true);
+    expect(matchesToolRule('Bash(git diff:*)', 'Bash', { command: 'git diff HEAD' })).toBe(true);
+    expect(matchesToolRule('Bash(git diff:*)', 'Bash', { command: 'git push' })).toBe(false);
+    expect(matchesToolRule('Bash(npm test)', 'Bash', { command: 'npm test && rm x' })).toBe(false);
+    expect(matchesToolRule('Edit(src/**)', 'Edit', { file_path: '/repo/src/lib/a.ts' }, '/repo')).toBe(true);
+    expect(matchesToolRule('Edit(src/*.ts)', 'Edit', { file_path: '/repo/src/lib/a.ts' }, '/repo')).toBe(false);
+    expect(matchesToolRule('Edit(src/**)', 'Edit', { file_path: '/etc/passwd' }, '/repo')).toBe(false);
+    expect(matchesToolRule('WebFetch(domain:example.com)', 'WebFetch', { url: 'https://example.com/a' })).toBe(true);
+    expect(matchesToolRule('mcp__github', 'mcp__github__create_issue')).toBe(true);
+    expect(matchesToolRule('mcp__github', 'mcp__gitlab__create_issue')).toBe(false);
+  });
+
+  test('should only let requests narrow the operator ceiling', () => {
+    const ceiling = { allowedTools: ['Read', 'Bash(git:*)', 'Edit(src/**)'], disallowedTools: ['WebFetch'] };
+
+    expect(getToolPolicyError({ allowedTools: ['Read', 'Bash(git diff:*)', 'Edit(src/lib/**)'] }, ceiling)).toBeNull();
+    expect(getToolPolicyError({ allowedTools: ['Bash'] }, ceiling)).toMatch(/^allowedTools entry "Bash" is not permitted by the server/);
+    expect(getToolPolicyError({ allowedTools: ['Edit(**)'] }, ceiling)).toMatch(/"Edit\(\*\*\)" is not permitted/);
+    expect(getToolPolicyError({ disallowedTools: 'Bash' }, ceiling)).toBe('disallowedTools must be an array of strings');
+
+    expect(resolveToolPolicy(ceiling, { disallowedTools: ['Write'] })).toEqual({
+      allowedTools: ['Read', 'Bash(git:*)', 'Edit(src/**)'],
+      disallowedTools: ['WebFetch', 'Write']
+    });
+    expect(resolveToolPolicy(ceiling, { allowedTools: ['Read'] }).allowedTools).toEqual(['Read']);
+    expect(resolveToolPolicy({}, {})).toEqual({});
+  });
+
+  test('should deny tool uses outside the policy before asking the caller', async () => {
+    const policy = { allowedTools: ['Bash(git:*)'], disallowedTools: ['Bash(git push:*)'] };
+    expect(checkToolUse(policy, 'Bash', { command: 'git push' }, '/repo'))
+      .toEqual({ allowed: false, reason: 'Bash is blocked by the server rule Bash(git push:*)' });
+
+    const asked: string[] = [];
+    const handler = createPolicyPermissionHandler(policy, '/repo', async prompt => {
+      asked.push(String(prompt.input.command));
+      return { behavior: 'deny', message: 'client says no' };
+    });
+
+    await expect(handler({ toolName: 'Write', input: {} }))
+      .resolves.toEqual({ behavior: 'deny', message: 'Write is not in the allowed tools for this query' });
+    await expect(handler({ toolName: 'Bash', input: { command: 'git status' } }))
+      .resolves.toEqual({ behavior: 'deny', message: 'client says no' });
+    expect(asked).toEqual(['git status']);
+    await expect(createPolicyPermissionHandler(policy, '/repo')({ toolName: 'Bash', input: { command: 'git log' } }))
+      .resolves.toEqual({ behavior: 'allow' });
+  });
+
+  test('should only let chained Bash commands through prefix rules when every command matches', async () => {
+    expect(matchesToolRule('Bash(git diff:*)', 'Bash', { command: 'git diff && git diff --stat' })).toBe(true);
+    for (const command of [
+      'git diff; rm -rf ~',
+      'git diff && rm -rf ~',
+      'git diff || rm -rf ~',
+      'git diff | sh',
+      'git diff\nrm -rf ~',
+      'git diff $(rm -rf ~)',
+      'git diff `rm -rf ~`'
+    ]) {
+      expect([command, matchesToolRule('Bash(git diff:*)', 'Bash', { command })]).toEqual([command, false]);
+    }
+    expect(getToolPolicyError({ allowedTools: ['Bash(git diff; rm:*)'] }, { allowedTools: ['Bash(git:*)'] }))
+      .toMatch(/is not permitted by the server/);
+
+    const policy = { allowedTools: ['Bash(git:*)'], disallowedTools: ['Bash(git push:*)'] };
+    const handler = createPolicyPermissionHandler(policy, '/repo');
+    await expect(handler({ toolName: 'Bash', input: { command: 'git status; rm -rf ~' } }))
+      .resolves.toEqual({ behavior: 'deny', message: 'Bash is not in the allowed tools for this query' });
+    await expect(handler({ toolName: 'Bash', input: { command: 'git fetch && git push' } }))
+      .resolves.toEqual({ behavior: 'deny', message: 'Bash is blocked by the server rule Bash(git push:*)' });
+    await expect(handler({ toolName: 'Bash', input: { command: 'git fetch && git status' } }))
+      .resolves.toEqual({ behavior: 'allow' });
+  });
+});
+
+describe('claude_code_query tool restrictions', () => {
+  const originalPolicy = claudeCodeConfig.toolPolicy;
+
+  beforeEach(() => {
+    mockQuery.mockReset();
+    mockQuery.mockImplementation(async function* () {
+      yield { type: 'result', subtype: 'success', session_id: 's1', is_error: false, result: 'done' };
+    });
+  });
+
+  afterEach(async () => {
+    claudeCodeConfig.toolPolicy = originalPolicy;
+    await closePermissionBridgeServer();
+  });
+
+  test('should pass the narrowed policy to Claude and enforce allow lists despite bypassPermissions', async () => {
+    claudeCodeConfig.toolPolicy = { allowedTools: ['Read', 'Bash(git:*)'], disallowedTools: ['WebFetch'] };
+
+    await handleClaudeCodeQuery({
+      prompt: 'hi',
+      options: { permissionMode: 'bypassPermissions', allowedTools: ['Read'], disallowedTools: ['Write'], trackChanges: false }
+    });
+
+    const { options } = mockQuery.mock.calls[0][0];
+    expect(options).toMatchObject({
+      allowedTools: ['Read'],
+      disallowedTools: ['WebFetch', 'Write'],
+      permissionMode: 'default',
+      permissionPromptToolName: 'mcp__permissions__approve'
+    });
+  });
+
+  test('should ask the policy about edits instead of accepting them when an allow list applies', async () => {
+    claudeCodeConfig.toolPolicy = { allowedTools: ['Read', 'Edit(src/**)'] };
+
+    await handleClaudeCodeQuery({ prompt: 'hi', options: { permissionMode: 'acceptEdits', trackChanges: false } });
+
+    const { options } = mockQuery.mock.calls[0][0];
+    expect(options.permissionMode).toBe('default');
+    expect(options.permissionPromptToolName).toBe('mcp__permissions__approve');
+  });
+
+  test('should reject requests that widen the ceiling', async () => {
+    claudeCodeConfig.toolPolicy = { allowedTools: ['Read'] };
+
+    await expect(handleClaudeCodeQuery({ prompt: 'hi', options: { allowedTools: ['Bash'], trackChanges: false } }))
+      .rejects.toThrow('Invalid options for claude_code_query: allowedTools entry "Bash" is not permitted by the server');
+    expect(mockQuery).not.toHaveBeenCalled();
+  });
+
+  test('should keep bypassPermissions when only tools are disallowed', async () => {
+    claudeCodeConfig.toolPolicy = {};
+
+    await handleClaudeCodeQuery({
+      prompt: 'hi',
+      options: { permissionMode: 'bypassPermissions', disallowedTools: ['Bash'], trackChanges: false }
+    });
+
+    const { options } = mockQuery.mock.calls[0][0];
+    expect(options.permissionMode).toBe('bypassPermissions');
+    expect(options.disallowedTools).toEqual(['Bash']);
+    expect(options.allowedTools).toBeUndefined();
+  });
+});
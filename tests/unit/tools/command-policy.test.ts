@@ -0,0 +1,125 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  CommandPolicy,
+  checkCommand,
+  clampLimit,
+  normalizeCommandSegment,
+  resolveWorkingDirectory,
+  scrubEnvironment,
+  splitCommandSegments,
+} from '../../../src/lib/tools/command-policy';
+import { handleExecuteCommand } from '../../../src/lib/tools/execute-command';
+import { commandPolicyConfig } from '../../../src/config/command-policy';
+
+function createPolicy(overrides: Partial<CommandPolicy> = {}): CommandPolicy {
+  return {
+    allowCommands: [],
+    denyCommands: [],
+    allowedRoots: [],
+    scrubEnv: [],
+    maxOutputBytes: 0,
+    maxTimeout: 0,
+    ...overrides,
+  };
+}
+
+describe('Command policy', () => {
+  test('should split chained commands but keep redirections intact', () => {
+    expect(splitCommandSegments('npm test 2>&1 | tee out.log && echo done; ls &')).toEqual([
+      'npm test 2>&1',
+      'tee out.log',
+      'echo done',
+      'ls',
+    ]);
+  });
+
+  test('should reject commands matching a deny pattern anywhere in a chain', () => {
+    const policy = createPolicy({ denyCommands: ['rm -rf *', '/curl\\s/'] });
+
+    expect(() => checkCommand('ls', policy)).not.toThrow();
+    expect(() => checkCommand('ls && rm -rf /', policy)).toThrow('denied pattern "rm -rf *"');
+    expect(() => checkCommand('curl http://example.com', policy)).toThrow('denied pattern');
+  });
+
+  test('should match deny patterns against the command each segment runs', () => {
+    const policy = createPolicy({ denyCommands: ['rm *'] });
+
+    expect(normalizeCommandSegment('FOO=1 sudo -n env BAR=2 /bin/rm -rf x')).toBe('rm -rf x');
+    for (const command of ['/bin/rm -rf x', 'sudo rm -rf x', 'FOO=1 rm -rf x', 'env rm x', 'ls; "rm" x']) {
+      expect(() => checkCommand(command, policy)).toThrow('denied pattern "rm *"');
+    }
+    expect(() => checkCommand('echo $(rm -rf x)', policy)).toThrow('Command substitution is not permitted');
+    expect(() => checkCommand('echo `rm -rf x`', policy)).toThrow('Command substitution is not permitted');
+    expect(() => checkCommand('echo rm', policy)).not.toThrow();
+  });
+
+  test('should reject shells and eval that could hide a denied command', () => {
+    const policy = createPolicy({ denyCommands: ['rm *'] });
+
+    for (const command of ['sh -c "rm -rf x"', 'bash -lc \'rm x\'', 'sudo /bin/bash -c "rm x"', 'eval "rm x"', 'echo rm x | sh']) {
+      expect(() => checkCommand(command, policy)).toThrow('Shell command strings and eval are not permitted');
+    }
+    expect(() => checkCommand('bash scripts/build.sh', policy)).not.toThrow();
+    expect(() => checkCommand('sh -c "npm test"', createPolicy({ allowCommands: ['sh -c *'] }))).not.toThrow();
+  });
+
+  test('should require every segment to match the allow list', () => {
+    const policy = createPolicy({ allowCommands: ['npm run *', 'git status'] });
+
+    expect(() => checkCommand('npm run build && git status', policy)).not.toThrow();
+    expect(() => checkCommand('npm run build; cat /etc/passwd', policy)).toThrow('not in the allow list: cat /etc/passwd');
+    expect(() => checkCommand('npm run $(whoami)', policy)).toThrow('Command substitution is not permitted');
+  });
+
+  test('should confine the working directory to permitted roots', () => {
+    const root = fs.mkdtempSync(path.join(os.tmpdir(), 'policy-root-'));
+    fs.mkdirSync(path.join(root, 'project'));
+    const policy = createPolicy({ allowedRoots: [root] });
+
+    try {
+      expect(resolveWorkingDirectory(path.join(root, 'project'), policy)).toBe(fs.realpathSync(path.join(root, 'project')));
+      expect(() => resolveWorkingDirectory(path.join(root, '..'), policy)).toThrow('outside the permitted roots');
+    } finally {
+      fs.rmSync(root, { recursive: true, force: true });
+    }
+  });
+
+  test('should scrub matching environment variables', () => {
+    const env = scrubEnvironment(
+      { PATH: '/bin', ANTHROPIC_API_KEY: 'secret', CLAUDE_API_KEY_1: 'secret' },
+      createPolicy({ scrubEnv: ['ANTHROPIC_API_KEY', 'CLAUDE_API_KEY_*'] })
+    );
+
+    expect(env).toEqual({ PATH: '/bin' });
+  });
+
+  test('should scrub the server\'s own API keys by default', () => {
+    const env = scrubEnvironment(
+      { PATH: '/bin', CLAUDE_API_KEYS: 'a,b', CLAUDE_ADMIN_API_KEYS: 'admin', CLAUDE_API_KEY_2: 'c' },
+      createPolicy({ scrubEnv: commandPolicyConfig.scrubEnv })
+    );
+
+    expect(env).toEqual({ PATH: '/bin' });
+  });
+
+  test('should clamp requested limits to the policy maximum', () => {
+    expect(clampLimit(undefined, 0)).toBe(0);
+    expect(clampLimit(500, 0)).toBe(500);
+    expect(clampLimit(undefined, 1000)).toBe(1000);
+    expect(clampLimit(5000, 1000)).toBe(1000);
+  });
+
+  test('should report violations from execute_command as error results', async () => {
+    const result = await handleExecuteCommand(
+      { command: 'rm -rf /tmp/nothing' },
+      {},
+      createPolicy({ denyCommands: ['rm *'] })
+    );
+
+    expect(result.isError).toBe(true);
+    expect(result.structuredContent).toBeUndefined();
+    expect(result.content[0].text).toMatch(/^Command policy violation \(deny\):/);
+  });
+});
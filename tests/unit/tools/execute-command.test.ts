@@ -0,0 +1,69 @@
+import { handleExecuteCommand } from '../../../src/lib/tools/execute-command';
+
+describe('execute_command', () => {
+  test('should return stdout and exit code in a structured result', async () => {
+    const result = await handleExecuteCommand({ command: 'echo hello' });
+
+    expect(result.isError).toBe(false);
+    expect(result.content[0].text).toBe('hello\n');
+    expect(result.structuredContent?.exitCode).toBe(0);
+    expect(result.structuredContent?.stdout).toBe('hello\n');
+    expect(result.structuredContent?.durationMs).toBeGreaterThanOrEqual(0);
+  });
+
+  test('should report non-zero exit codes with stderr', async () => {
+    const result = await handleExecuteCommand({ command: 'echo broken >&2; exit 3' });
+
+    expect(result.isError).toBe(true);
+    expect(result.structuredContent?.exitCode).toBe(3);
+    expect(result.structuredContent?.stderr).toBe('broken\n');
+    expect(result.content[0].text).toBe('Command failed with exit code 3: broken\n');
+  });
+
+  test('should stream output chunks as notifications', async () => {
+    const notifications: any[] = [];
+    await handleExecuteCommand(
+      { command: 'echo out; echo err >&2' },
+      { sendNotification: async (notification) => { notifications.push(notification); } }
+    );
+
+    const chunks = notifications.map(n => JSON.parse(n.params.data));
+    expect(chunks.every(c => c.type === 'command_output')).toBe(true);
+    expect(chunks.find(c => c.stream === 'stdout')?.chunk).toBe('out\n');
+    expect(chunks.find(c => c.stream === 'stderr')?.chunk).toBe('err\n');
+  });
+
+  test('should kill the command when the signal aborts', async () => {
+    const controller = new AbortController();
+    const pending = handleExecuteCommand({ command: 'sleep 30' }, { signal: controller.signal });
+    setTimeout(() => controller.abort(), 100);
+
+    const result = await pending;
+    expect(result.isError).toBe(true);
+    expect(result.structuredContent?.cancelled).toBe(true);
+    expect(result.structuredContent?.signal).toBe('SIGTERM');
+  });
+
+  test('should kill the command on timeout', async () => {
+    const result = await handleExecuteCommand({ command: 'sleep 30', timeout: 100 });
+
+    expect(result.structuredContent?.timedOut).toBe(true);
+    expect(result.content[0].text).toBe('Command timed out after 100ms');
+  });
+
+  test('should kill background jobs left behind by a shell that exited', async () => {
+    const startedAt = Date.now();
+    const result = await handleExecuteCommand({ command: 'sleep 30 & echo started', timeout: 200 });
+
+    expect(result.structuredContent?.timedOut).toBe(true);
+    expect(result.structuredContent?.stdout).toBe('started\n');
+    expect(Date.now() - startedAt).toBeLessThan(5000);
+  });
+
+  test('should truncate output beyond maxOutputBytes', async () => {
+    const result = await handleExecuteCommand({ command: 'printf "0123456789"', maxOutputBytes: 4 });
+
+    expect(result.structuredContent?.stdout).toBe('0123');
+    expect(result.structuredContent?.stdoutTruncated).toBe(true);
+  });
+});
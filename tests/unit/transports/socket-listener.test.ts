@@ -0,0 +1,88 @@
+import { execFileSync } from 'child_process';
+import * as fs from 'fs';
+import * as http from 'http';
+import * as net from 'net';
+import * as os from 'os';
+import * as path from 'path';
+import { CoreMCPServer } from '../../../src/core/mcp-server-core';
+import { isNamedPipe, listenOnSocket, parseSocketMode } from '../../../src/transports/socket-listener';
+import { HttpTransport } from '../../../src/transports/http-transport';
+
+const closeServer = (server: net.Server) => new Promise(resolve => server.close(resolve));
+
+describe('socket listener', () => {
+  let tmpDir: string;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'mcp-socket-'));
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  test('should parse octal modes and recognize named pipes', () => {
+    expect(parseSocketMode('660')).toBe(0o660);
+    expect(parseSocketMode('0600')).toBe(0o600);
+    expect(() => parseSocketMode('rw')).toThrow('Invalid socket mode: rw');
+    expect(isNamedPipe('\\\\.\\pipe\\mcp-coding-agents')).toBe(true);
+    expect(isNamedPipe('/run/mcp.sock')).toBe(false);
+  });
+
+  test('should create the socket with the requested mode', async () => {
+    const socketPath = path.join(tmpDir, 'mcp.sock');
+    const server = net.createServer();
+
+    await listenOnSocket(server, socketPath, 0o600);
+
+    expect(fs.statSync(socketPath).mode & 0o777).toBe(0o600);
+    await closeServer(server);
+  });
+
+  test('should replace stale sockets but not live ones or other files', async () => {
+    const socketPath = path.join(tmpDir, 'mcp.sock');
+    // A process killed while listening leaves its socket file behind
+    try {
+      execFileSync(process.execPath, ['-e', `require('net').createServer().listen(${JSON.stringify(socketPath)}, () => process.kill(process.pid, 'SIGKILL'))`]);
+    } catch {
+      // Expected: the child kills itself
+    }
+    expect(fs.lstatSync(socketPath).isSocket()).toBe(true);
+
+    const server = net.createServer();
+    await listenOnSocket(server, socketPath);
+    await expect(listenOnSocket(net.createServer(), socketPath)).rejects.toThrow('another server is listening on it');
+    await closeServer(server);
+
+    const filePath = path.join(tmpDir, 'notes.txt');
+    fs.writeFileSync(filePath, 'keep me');
+    await expect(listenOnSocket(net.createServer(), filePath)).rejects.toThrow('the path exists and is not a socket');
+    expect(fs.readFileSync(filePath, 'utf8')).toBe('keep me');
+  });
+
+  test('should serve the HTTP transport on a socket', async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    const socketPath = path.join(tmpDir, 'http.sock');
+    const transport = new HttpTransport(new CoreMCPServer({ name: 'test-server', version: '1.0.0' }), {
+      socketPath,
+      claudeCodeApi: { enabled: false },
+      swagger: { enabled: false }
+    });
+    await transport.initialize();
+    await transport.start();
+
+    const health = await new Promise<any>((resolve, reject) => {
+      http.get({ socketPath, path: '/health' }, res => {
+        let body = '';
+        res.on('data', chunk => body += chunk);
+        res.on('end', () => resolve(JSON.parse(body)));
+      }).on('error', reject);
+    });
+
+    expect(health).toMatchObject({ status: 'OK', transport: 'HTTP' });
+    expect(fs.statSync(socketPath).mode & 0o777).toBe(0o660);
+    await transport.stop();
+    expect(fs.existsSync(socketPath)).toBe(false);
+  });
+});
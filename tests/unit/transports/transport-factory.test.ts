@@ -1,16 +1,27 @@
 import { CoreMCPServer } from '../../../src/core/mcp-server-core';
-import { TransportFactory } from '../../../src/core/transport-factory';
+import { parseTransportTypes, TransportFactory } from '../../../src/core/transport-factory';
+import { MCPTransport } from '../../../src/core/transport-interface';
 import { HttpTransport } from '../../../src/transports/http-transport';
 import { StdioTransport } from '../../../src/transports/stdio-transport';
+import { WebSocketTransport } from '../../../src/transports/websocket-transport';
+import { isStdioMode } from '../../../src/utils/stdio-mode';
 
 describe('TransportFactory', () => {
   let coreServer: CoreMCPServer;
+  let created: MCPTransport[];
 
   beforeEach(() => {
     coreServer = new CoreMCPServer({
       name: 'test-server',
       version: '1.0.0',
     });
+    created = [];
+  });
+
+  afterEach(async () => {
+    for (const transport of created) {
+      await transport.stop();
+    }
   });
 
   describe('createTransport', () => {
@@ -19,6 +30,7 @@ describe('TransportFactory', () => {
         type: 'http',
         config: { port: 3050 }
       });
+      created.push(transport);
 
       expect(transport).toBeInstanceOf(HttpTransport);
       expect(transport.getType()).toBe('http');
@@ -29,11 +41,23 @@ describe('TransportFactory', () => {
         type: 'stdio',
         config: {}
       });
+      created.push(transport);
 
       expect(transport).toBeInstanceOf(StdioTransport);
       expect(transport.getType()).toBe('stdio');
     });
 
+    test('should create WebSocket transport when type is websocket', async () => {
+      const transport = await TransportFactory.createTransport(coreServer, {
+        type: 'websocket',
+        config: { port: 3050 }
+      });
+      created.push(transport);
+
+      expect(transport).toBeInstanceOf(WebSocketTransport);
+      expect(transport.getType()).toBe('websocket');
+    });
+
     test('should throw error for unknown transport type', async () => {
       await expect(
         TransportFactory.createTransport(coreServer, {
@@ -48,9 +72,36 @@ describe('TransportFactory', () => {
         type: 'http',
         config: {}
       });
+      created.push(transport);
 
       // Transport should be initialized (we can check if it has necessary properties)
       expect(transport.isRunning()).toBe(false); // Not started yet
     });
   });
-});
\ No newline at end of file
+
+  describe('createTransports', () => {
+    test('should create every listed transport over the same core server', async () => {
+      const transports = await TransportFactory.createTransports(coreServer, [
+        { type: 'stdio', config: {} },
+        { type: 'websocket', config: { port: 3051 } }
+      ]);
+      created.push(...transports);
+
+      expect(transports.map(transport => transport.getType())).toEqual(['stdio', 'websocket']);
+    });
+
+    test('should parse comma-separated transport lists', () => {
+      expect(parseTransportTypes('stdio, http,stdio')).toEqual(['stdio', 'http']);
+      expect(() => parseTransportTypes('stdio,grpc'))
+        .toThrow('Invalid transport type: grpc. Valid options are: stdio, http, websocket');
+      expect(() => parseTransportTypes(',')).toThrow('Invalid transport type: ,');
+    });
+
+    test('should detect STDIO among several transports', () => {
+      expect(isStdioMode(['node', 'cli', 'stdio'])).toBe(true);
+      expect(isStdioMode(['node', 'cli', '--transport', 'http,stdio'])).toBe(true);
+      expect(isStdioMode(['node', 'cli', '--transport=stdio,websocket'])).toBe(true);
+      expect(isStdioMode(['node', 'cli', '--transport', 'http'])).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,73 @@
+import WebSocket from 'ws';
+import { CoreMCPServer } from '../../../src/core/mcp-server-core';
+import { WebSocketTransport } from '../../../src/transports/websocket-transport';
+
+// Opens an MCP client connection and sends JSON-RPC requests over it
+async function connect(url: string, options: WebSocket.ClientOptions = {}) {
+  const socket = new WebSocket(url, 'mcp', options);
+  const responses = new Map<number, (message: any) => void>();
+  socket.on('message', data => {
+    const message = JSON.parse(data.toString());
+    responses.get(message.id)?.(message);
+  });
+  await new Promise((resolve, reject) => {
+    socket.once('open', resolve);
+    socket.once('error', reject);
+  });
+
+  let nextId = 1;
+  const request = (method: string, params: Record<string, unknown> = {}) => new Promise<any>(resolve => {
+    const id = nextId++;
+    responses.set(id, resolve);
+    socket.send(JSON.stringify({ jsonrpc: '2.0', id, method, params }));
+  });
+  const initialize = () => request('initialize', {
+    protocolVersion: '2025-06-18',
+    capabilities: {},
+    clientInfo: { name: 'test-client', version: '1.0.0' }
+  });
+  return { socket, request, initialize };
+}
+
+describe('WebSocketTransport', () => {
+  let transport: WebSocketTransport;
+  let url: string;
+
+  beforeEach(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    const coreServer = new CoreMCPServer({ name: 'test-server', version: '1.0.0' });
+    transport = new WebSocketTransport(coreServer, { port: 0, host: '127.0.0.1', pingIntervalMs: 100 });
+    await transport.initialize();
+    await transport.start();
+    url = `ws://127.0.0.1:${transport.getPort()}/mcp`;
+  });
+
+  afterEach(async () => {
+    await transport.stop();
+    jest.restoreAllMocks();
+  });
+
+  test('should give every connection its own MCP session', async () => {
+    const first = await connect(url);
+    const second = await connect(url);
+
+    expect(first.socket.protocol).toBe('mcp');
+    expect((await first.initialize()).result.serverInfo).toEqual({ name: 'test-server', version: '1.0.0' });
+    expect((await second.initialize()).result.serverInfo.name).toBe('test-server');
+
+    const [firstTools, secondTools] = await Promise.all([first.request('tools/list'), second.request('tools/list')]);
+    expect(firstTools.result.tools.map((tool: any) => tool.name)).toContain('claude_code_query');
+    expect(secondTools.result).toEqual(firstTools.result);
+    expect(transport.isRunning()).toBe(true);
+    expect(transport.getType()).toBe('websocket');
+  });
+
+  test('should drop connections that stop answering pings', async () => {
+    const live = await connect(url);
+    const silent = await connect(url, { autoPong: false });
+
+    const closed = await new Promise<number>(resolve => silent.socket.on('close', resolve));
+    expect(closed).toBe(1006);
+    expect(live.socket.readyState).toBe(WebSocket.OPEN);
+  });
+});
@@ -0,0 +1,83 @@
+import { execFileSync } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { changeTrackingConfig } from '../../../src/config/change-tracking';
+import { trackChanges } from '../../../src/lib/workspace/change-tracker';
+
+function git(cwd: string, ...args: string[]): string {
+  return execFileSync('git', ['-c', 'user.name=test', '-c', 'user.email=test@localhost', ...args], { cwd }).toString().trim();
+}
+
+describe('change tracker', () => {
+  let tmpDir: string;
+
+  beforeEach(() => {
+    tmpDir = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'mcp-changes-')));
+    fs.writeFileSync(path.join(tmpDir, 'keep.txt'), 'keep\n');
+    fs.writeFileSync(path.join(tmpDir, 'edit.txt'), 'before\n');
+    fs.writeFileSync(path.join(tmpDir, 'remove.txt'), 'remove\n');
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  const run = async () => {
+    fs.writeFileSync(path.join(tmpDir, 'edit.txt'), 'after\n');
+    fs.writeFileSync(path.join(tmpDir, 'added.txt'), 'added\n');
+    fs.rmSync(path.join(tmpDir, 'remove.txt'));
+    return 'done';
+  };
+
+  test('should report changed files and a diff in a git repository without touching its index', async () => {
+    git(tmpDir, 'init', '-q');
+    git(tmpDir, 'add', '.');
+    git(tmpDir, 'commit', '-q', '-m', 'initial');
+    fs.writeFileSync(path.join(tmpDir, 'dirty.txt'), 'uncommitted before the run\n');
+
+    const { result, changes } = await trackChanges(tmpDir, run);
+
+    expect(result).toBe('done');
+    expect(changes?.mode).toBe('git');
+    expect(changes?.files).toEqual([
+      { status: 'A', path: 'added.txt' },
+      { status: 'M', path: 'edit.txt' },
+      { status: 'D', path: 'remove.txt' }
+    ]);
+    expect(changes?.diff).toContain('-before\n+after');
+    expect(changes?.diffTruncated).toBe(false);
+    expect(git(tmpDir, 'diff', '--cached', '--name-only')).toBe('');
+  });
+
+  test('should report changed files by content hash outside git', async () => {
+    const { changes } = await trackChanges(tmpDir, run);
+
+    expect(changes).toEqual({
+      mode: 'scan',
+      files: [
+        { status: 'A', path: 'added.txt' },
+        { status: 'M', path: 'edit.txt' },
+        { status: 'D', path: 'remove.txt' }
+      ],
+      diff: '',
+      diffTruncated: false
+    });
+  });
+
+  test('should compare files over the scan size cap without reading them', async () => {
+    const maxScanFileBytes = changeTrackingConfig.maxScanFileBytes;
+    changeTrackingConfig.maxScanFileBytes = 4;
+    const readFile = jest.spyOn(fs.promises, 'readFile');
+
+    try {
+      const { changes } = await trackChanges(tmpDir, run);
+
+      expect(changes?.files.map(file => file.path)).toEqual(['added.txt', 'edit.txt', 'remove.txt']);
+      expect(readFile).not.toHaveBeenCalled();
+    } finally {
+      changeTrackingConfig.maxScanFileBytes = maxScanFileBytes;
+      readFile.mockRestore();
+    }
+  });
+});
@@ -0,0 +1,121 @@
+import { execFileSync } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ClaudeCodeSessionManager as InMemorySessionManager } from '../../../src/api/session-manager';
+import { ClaudeCodeSessionManager } from '../../../src/api/session-manager-sqlite';
+import {
+  createWorktree,
+  getWorktreeChanges,
+  mergeWorktree,
+  removeWorktree,
+  runInWorktree
+} from '../../../src/lib/workspace/worktree';
+
+function git(cwd: string, ...args: string[]): string {
+  return execFileSync('git', ['-c', 'user.name=test', '-c', 'user.email=test@localhost', ...args], { cwd }).toString().trim();
+}
+
+describe('worktree isolation', () => {
+  let tmpDir: string;
+  let repo: string;
+
+  beforeEach(() => {
+    tmpDir = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'mcp-worktree-')));
+    repo = path.join(tmpDir, 'repo');
+    process.env.MCP_WORKTREE_DIR = path.join(tmpDir, 'worktrees');
+
+    fs.mkdirSync(path.join(repo, 'src'), { recursive: true });
+    fs.writeFileSync(path.join(repo, 'src', 'index.ts'), 'export const a = 1;\n');
+    git(repo, 'init', '-q');
+    git(repo, 'add', '.');
+    git(repo, 'commit', '-q', '-m', 'initial');
+  });
+
+  afterEach(() => {
+    delete process.env.MCP_WORKTREE_DIR;
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  test('should create a worktree that mirrors the requested subdirectory', async () => {
+    const worktree = await createWorktree(path.join(repo, 'src'), 'session');
+
+    expect(worktree.branch).toMatch(/^mcp\/session-/);
+    expect(worktree.cwd).toBe(path.join(worktree.path, 'src'));
+    expect(fs.existsSync(path.join(worktree.cwd, 'index.ts'))).toBe(true);
+
+    await removeWorktree(worktree);
+    expect(fs.existsSync(worktree.path)).toBe(false);
+    expect(git(repo, 'branch', '--list', worktree.branch)).toBe('');
+  });
+
+  test('should report changes and merge them back', async () => {
+    const worktree = await createWorktree(repo, 'session');
+    fs.writeFileSync(path.join(worktree.path, 'src', 'index.ts'), 'export const a = 2;\n');
+    fs.writeFileSync(path.join(worktree.path, 'NEW.md'), '# new\n');
+
+    const changes = await getWorktreeChanges(worktree);
+    expect(changes.files).toEqual([
+      { status: 'A', path: 'NEW.md' },
+      { status: 'M', path: 'src/index.ts' }
+    ]);
+    expect(changes.diff).toContain('+export const a = 2;');
+
+    await mergeWorktree(worktree, 'Apply agent changes');
+    expect(fs.readFileSync(path.join(repo, 'src', 'index.ts'), 'utf8')).toBe('export const a = 2;\n');
+    expect(fs.existsSync(path.join(repo, 'NEW.md'))).toBe(true);
+
+    await removeWorktree(worktree);
+  });
+
+  test('should reject directories outside a git repository', async () => {
+    await expect(createWorktree(tmpDir, 'session')).rejects.toThrow('Worktree isolation requires a git repository');
+  });
+
+  test('should keep the branch of a one-shot run only when files changed', async () => {
+    const unchanged = await runInWorktree(repo, 'claude', async () => 'ok');
+    expect(unchanged.result).toBe('ok');
+    expect(unchanged.worktree.commit).toBeNull();
+    expect(git(repo, 'branch', '--list', unchanged.worktree.branch)).toBe('');
+
+    const changed = await runInWorktree(repo, 'codex', async cwd => {
+      fs.writeFileSync(path.join(cwd, 'out.txt'), 'hello\n');
+      return 'done';
+    });
+    expect(changed.worktree.files).toEqual([{ status: 'A', path: 'out.txt' }]);
+    expect(git(repo, 'show', `${changed.worktree.branch}:out.txt`)).toBe('hello');
+    expect(fs.existsSync(path.join(repo, 'out.txt'))).toBe(false);
+  });
+
+  test('should remove the worktrees of expired sessions', async () => {
+    const manager = new ClaudeCodeSessionManager({ dbPath: path.join(tmpDir, 'sessions.db'), sessionTimeout: 1 });
+    const session = manager.createSession({ cwd: repo, isolation: 'worktree' });
+    const worktree = await createWorktree(repo, 'session');
+    manager.setWorktree(session.sessionId, worktree);
+    await new Promise(resolve => setTimeout(resolve, 10));
+
+    try {
+      expect(await manager.cleanupExpiredSessions()).toBe(1);
+      expect(fs.existsSync(worktree.path)).toBe(false);
+      expect(git(repo, 'branch', '--list', worktree.branch)).toBe('');
+    } finally {
+      manager.stopCleanupTask();
+    }
+  });
+
+  test('should remove the worktrees of expired in-memory sessions', async () => {
+    const manager = new InMemorySessionManager({ sessionTimeout: 1 });
+    const session = manager.createSession({ cwd: repo, isolation: 'worktree' });
+    const worktree = await createWorktree(repo, 'session');
+    manager.setWorktree(session.sessionId, worktree);
+    await new Promise(resolve => setTimeout(resolve, 10));
+
+    try {
+      expect(await manager.cleanupExpiredSessions()).toBe(1);
+      expect(fs.existsSync(worktree.path)).toBe(false);
+      expect(git(repo, 'branch', '--list', worktree.branch)).toBe('');
+    } finally {
+      manager.stopCleanupTask();
+    }
+  });
+});